@@ -0,0 +1,64 @@
+/**
+ * Street Governance Backend - ABI Generator
+ *
+ * Copies the contract ABIs from contracts/abis/index.ts into
+ * src/abis/contracts.ts so the indexer decodes exactly what the deployed
+ * contracts emit. The backend cannot import outside src/, hence the copy.
+ *
+ * Usage:
+ *   npm run abis:generate          Rewrite src/abis/contracts.ts
+ *   npm run abis:generate -- check Exit non-zero if the file is stale
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import * as contractAbis from "../../contracts/abis/index.js";
+
+const OUTPUT_FILE = fileURLToPath(new URL("../src/abis/contracts.ts", import.meta.url));
+
+/**
+ * Render the generated module: every exported ABI array, sorted by name
+ */
+export function renderAbiModule(): string {
+  const lines = [
+    "/**",
+    " * Contract ABIs - Street Governance",
+    " *",
+    " * GENERATED by scripts/generate-abis.ts from contracts/abis/index.ts.",
+    " * Do not edit by hand; run `npm run abis:generate` instead.",
+    " */",
+    "",
+  ];
+
+  const entries = Object.entries(contractAbis).sort(([a], [b]) => a.localeCompare(b));
+  for (const [name, value] of entries) {
+    if (!Array.isArray(value)) continue;
+    lines.push(`export const ${name} = ${JSON.stringify(value, null, 2)} as const;`, "");
+  }
+
+  return lines.join("\n");
+}
+
+async function main(): Promise<void> {
+  const rendered = renderAbiModule();
+
+  if (process.argv[2] === "check") {
+    const current = await readFile(OUTPUT_FILE, "utf8").catch(() => "");
+    if (current !== rendered) {
+      console.error("[ABIs] src/abis/contracts.ts is stale, run `npm run abis:generate`");
+      process.exit(1);
+    }
+    console.log("[ABIs] Up to date");
+    return;
+  }
+
+  await writeFile(OUTPUT_FILE, rendered);
+  console.log(`[ABIs] Wrote ${OUTPUT_FILE}`);
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch((error) => {
+    console.error("[ABIs] Failed:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,51 @@
+/**
+ * Contract ABIs Module - Street Governance
+ *
+ * Typed access to the generated contract ABIs (see ./contracts.ts):
+ * - Event lookup by name for decoding
+ * - Canonical event signatures for log filtering
+ */
+
+import {
+  toEventSignature,
+  type Abi,
+  type AbiEvent,
+  type ExtractAbiItem,
+  type ContractEventName,
+} from "viem";
+
+export {
+  conditionalTokensAbi,
+  editSuggestionsAbi,
+  futarchyAmmAbi,
+  futarchyTreasuryAbi,
+  kledTokenAbi,
+  streetGovernorAbi,
+} from "./contracts.js";
+
+/**
+ * Find an event definition in an ABI
+ *
+ * @returns The event, or undefined if the ABI does not declare it
+ */
+export function findEventAbi<
+  const TAbi extends Abi,
+  TName extends ContractEventName<TAbi>,
+>(abi: TAbi, name: TName): ExtractAbiItem<TAbi, TName> | undefined {
+  return abi.find((item) => item.type === "event" && item.name === name) as
+    | ExtractAbiItem<TAbi, TName>
+    | undefined;
+}
+
+/**
+ * Map every event in an ABI to its canonical signature,
+ * e.g. "VoteCast(uint256,address,uint8,uint256,string)"
+ */
+export function getEventSignatures<const TAbi extends Abi>(
+  abi: TAbi
+): Record<ContractEventName<TAbi>, string> {
+  const events = abi.filter((item): item is AbiEvent => item.type === "event");
+  return Object.fromEntries(
+    events.map((event) => [event.name, toEventSignature(event)])
+  ) as Record<ContractEventName<TAbi>, string>;
+}
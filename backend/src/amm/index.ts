@@ -0,0 +1,181 @@
+/**
+ * FutarchyAMM Module - Street Governance
+ *
+ * Off-chain replica of the FutarchyAMM price and TWAP math:
+ * - LMSR spot price with the contract's fixed-point exp approximation
+ * - TWAP accumulators replayed from indexed trades (_updateTWAP)
+ * - getTWAP evaluated at arbitrary timestamps
+ *
+ * All arithmetic is bigint and follows the contract's integer rounding, so
+ * values match what the contract would have returned at the same timestamp.
+ * pokeTWAP emits no event; it only changes results when more than
+ * MAX_TIME_ELAPSED passes between trades.
+ */
+
+import type { AmmTwapPoint } from "../types/index.js";
+
+// =============================================================================
+// Constants (FutarchyAMM.sol)
+// =============================================================================
+
+export const PRECISION = 10n ** 18n;
+export const DEFAULT_TWAP_WINDOW = 24n * 60n * 60n;
+
+/** Cap on time accumulated per TWAP update */
+const MAX_TIME_ELAPSED = 7n * 24n * 60n * 60n;
+
+/** Below this effective window getTWAP returns the spot price */
+const MIN_EFFECTIVE_WINDOW = 60n;
+
+const UINT256_MAX = 2n ** 256n - 1n;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AmmMarketEvent {
+  timestamp: bigint;
+  /** Signed change of outstanding YES / NO tokens (zero for the close) */
+  deltaYes: bigint;
+  deltaNo: bigint;
+}
+
+interface MarketState {
+  qYes: bigint;
+  qNo: bigint;
+  priceCumulativeYes: bigint;
+  priceCumulativeNo: bigint;
+  lastUpdate: bigint;
+}
+
+// =============================================================================
+// Price Math
+// =============================================================================
+
+/**
+ * exp(x / b) in 18-decimal fixed point (FutarchyAMM._exp)
+ */
+function exp(x: bigint, b: bigint): bigint {
+  if (b === 0n) return PRECISION;
+
+  const xOverB = (x * PRECISION) / b;
+  if (xOverB > 20n * PRECISION) return UINT256_MAX / 2n;
+  if (xOverB < -20n * PRECISION) return 0n;
+
+  const negative = xOverB < 0n;
+  const absX = negative ? -xOverB : xOverB;
+
+  // Taylor series up to x^6 / 720, terms rounded as in the contract
+  let result = PRECISION;
+  let term = absX;
+  result = negative ? result - term : result + term;
+  for (let n = 2n; n <= 6n; n++) {
+    term = (term * absX) / PRECISION / n;
+    result = negative && n % 2n === 1n ? result - term : result + term;
+  }
+  return result;
+}
+
+/**
+ * Spot price of YES or NO tokens (FutarchyAMM.getPrice)
+ */
+export function getPrice(qYes: bigint, qNo: bigint, b: bigint, isYes: boolean): bigint {
+  const diff = isYes ? qNo - qYes : qYes - qNo;
+  return (PRECISION * PRECISION) / (PRECISION + exp(diff, b));
+}
+
+// =============================================================================
+// TWAP Replay
+// =============================================================================
+
+/**
+ * Accumulate prices since the last update (FutarchyAMM._updateTWAP)
+ */
+function updateTwap(state: MarketState, b: bigint, timestamp: bigint): void {
+  let elapsed = timestamp - state.lastUpdate;
+  if (elapsed <= 0n) return;
+  if (elapsed > MAX_TIME_ELAPSED) elapsed = MAX_TIME_ELAPSED;
+
+  state.priceCumulativeYes += getPrice(state.qYes, state.qNo, b, true) * elapsed;
+  state.priceCumulativeNo += getPrice(state.qYes, state.qNo, b, false) * elapsed;
+  state.lastUpdate = timestamp;
+}
+
+/**
+ * Evaluate getTWAP(marketId, window) as of a timestamp
+ */
+function twapAt(
+  state: MarketState,
+  b: bigint,
+  createdAt: bigint,
+  timestamp: bigint,
+  window: bigint
+): { twapYes: bigint; twapNo: bigint; spotYes: bigint; spotNo: bigint } {
+  const spotYes = getPrice(state.qYes, state.qNo, b, true);
+  const spotNo = getPrice(state.qYes, state.qNo, b, false);
+  const marketAge = timestamp - createdAt;
+  const effectiveWindow = window > marketAge ? marketAge : window;
+
+  if (effectiveWindow < MIN_EFFECTIVE_WINDOW) {
+    return { twapYes: spotYes, twapNo: spotNo, spotYes, spotNo };
+  }
+
+  let sinceUpdate = timestamp - state.lastUpdate;
+  if (sinceUpdate > MAX_TIME_ELAPSED) sinceUpdate = MAX_TIME_ELAPSED;
+
+  // The contract divides by the market's full age, not the window
+  return {
+    twapYes: (state.priceCumulativeYes + spotYes * sinceUpdate) / marketAge,
+    twapNo: (state.priceCumulativeNo + spotNo * sinceUpdate) / marketAge,
+    spotYes,
+    spotNo,
+  };
+}
+
+/**
+ * Rebuild the TWAP a market would report at each of `timestamps`
+ *
+ * @param liquidity - The market's `b` (MarketCreated liquidity)
+ * @param createdAt - MarketCreated block timestamp
+ * @param events - Trades and the close in chain order
+ * @param timestamps - Ascending evaluation times; each sees every event up to
+ *   and including its own timestamp (end of that block)
+ */
+export function buildTwapSeries(
+  liquidity: bigint,
+  createdAt: bigint,
+  events: AmmMarketEvent[],
+  timestamps: bigint[],
+  window: bigint = DEFAULT_TWAP_WINDOW
+): AmmTwapPoint[] {
+  const state: MarketState = {
+    qYes: 0n,
+    qNo: 0n,
+    priceCumulativeYes: 0n,
+    priceCumulativeNo: 0n,
+    lastUpdate: createdAt,
+  };
+
+  const points: AmmTwapPoint[] = [];
+  let next = 0;
+  for (const timestamp of timestamps) {
+    while (next < events.length && events[next]!.timestamp <= timestamp) {
+      const event = events[next++]!;
+      // Trades and the close update the accumulators before the state changes
+      updateTwap(state, liquidity, event.timestamp);
+      state.qYes += event.deltaYes;
+      state.qNo += event.deltaNo;
+    }
+
+    if (timestamp < createdAt) continue;
+    const twap = twapAt(state, liquidity, createdAt, timestamp, window);
+    points.push({
+      timestamp: Number(timestamp),
+      twapYes: twap.twapYes.toString(),
+      twapNo: twap.twapNo.toString(),
+      spotYes: twap.spotYes.toString(),
+      spotNo: twap.spotNo.toString(),
+    });
+  }
+  return points;
+}
@@ -9,6 +9,7 @@
  * - GET /api/proposals - List proposals (paginated, filterable)
  * - GET /api/proposals/:id - Get proposal details with suggestions
  * - GET /api/proposals/:id/votes - Get votes for a proposal
+ * - GET /api/proposals/:id/revisions - Description versions from accepted edits
  *
  * ### Votes
  * - GET /api/votes/voter/:address - Get votes by voter
@@ -17,6 +18,12 @@
  * - GET /api/suggestions/:id - Get suggestion details
  * - GET /api/suggestions/:id/votes - Get votes for a suggestion
  *
+ * ### Search
+ * - GET /api/search - Ranked full-text search with highlighted snippets
+ *
+ * ### Exports
+ * - GET /api/export/:dataset.:format - Stream raw events as CSV or NDJSON
+ *
  * ### Statistics
  * - GET /api/stats - Overall governance statistics
  *
@@ -24,9 +31,52 @@
  * - GET /api/treasury/proposals - List futarchy proposals
  * - GET /api/treasury/proposals/:id - Get futarchy proposal details
  * - GET /api/treasury/proposals/:id/trades - Get trades for proposal
+ * - GET /api/treasury/proposals/:id/holders - PASS/FAIL token holders
+ * - GET /api/treasury/proposals/:id/leaderboard - Traders ranked by PnL
  * - GET /api/treasury/prices/:id - Get current YES/NO prices
+ * - GET /api/treasury/proposals/:id/twap - PASS/FAIL market TWAP series
+ * - GET /api/treasury/proposals/:id/candles - PASS/FAIL market OHLCV candles
  * - GET /api/treasury/stats - Treasury statistics
  *
+ * ### Accounts
+ * - GET /api/accounts/:address - Full governance profile of an address
+ * - GET /api/accounts/:address/positions - Open PASS/FAIL outcome positions
+ * - GET /api/accounts/:address/pnl - Realized and unrealized futarchy PnL
+ * - GET /api/accounts/:address/trades - Futarchy trades (cursor-paginated)
+ * - GET /api/accounts/:address/suggestion-votes - Suggestion votes (cursor-paginated)
+ * - GET /api/accounts/:address/redemptions - Futarchy redemptions (cursor-paginated)
+ *
+ * ### Token
+ * - GET /api/token/stats - KLED supply and minting statistics
+ * - GET /api/token/holders - List holders by balance (optionally at a timestamp)
+ * - GET /api/token/holders/:address - Balance, delegate and voting power
+ *
+ * ### Delegates
+ * - GET /api/delegates - List delegates (sortable)
+ * - GET /api/delegates/:address - Delegate with history, delegators and votes
+ *
+ * ### Governance
+ * - GET /api/governance/params - Current governor parameters and change log
+ *
+ * ### GraphQL
+ * - GET|POST /graphql - Nested queries over the same data (depth/complexity limited)
+ *
+ * ### Stream
+ * - GET /api/stream - Live events as Server-Sent Events
+ * - WS /api/stream/ws - Live events over WebSocket
+ *
+ * ### Webhooks (admin, Authorization: Bearer <token>)
+ * - POST /api/webhooks - Create a signed webhook subscription
+ * - GET /api/webhooks - List subscriptions
+ * - DELETE /api/webhooks/:id - Remove a subscription and its deliveries
+ * - GET /api/webhooks/dead-letters - Deliveries that ran out of attempts
+ * - POST /api/webhooks/dead-letters/:id/redeliver - Queue a dead letter again
+ *
+ * ### Pagination
+ * Lists take page/limit and report a total. Vote, trade and suggestion vote
+ * lists also accept `cursor` (empty for the first page) for keyset paging:
+ * the response then carries pagination.nextCursor instead of a total.
+ *
  * ### Health
  * - GET /health - API health check
  * - GET /health/indexer - Indexer status and lag
@@ -38,11 +88,17 @@ import express, {
   type Response,
   type NextFunction,
 } from "express";
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { WebSocketServer } from "ws";
 import { getIndexerStatus } from "../indexer/index.js";
+import { subscribeStream } from "../stream/index.js";
+import { runGraphql, type GraphqlRequest } from "../graphql/index.js";
+import { EXPORT_CONTENT_TYPES, writeExport } from "../export/index.js";
 import {
   getProposals,
   getProposalById,
   getVotesByProposal,
+  getProposalRevisions,
   getVotesByVoter,
   getStats,
   getCheckpoint,
@@ -50,9 +106,56 @@ import {
   getFutarchyProposalById,
   getFutarchyTradesByProposal,
   getFutarchyPrices,
+  getFutarchyTwap,
+  getFutarchyCandles,
+  getOutcomeHolders,
+  getAccountPositions,
+  getAccountPnl,
+  getProposalPnlLeaderboard,
+  getAccountPortfolio,
   getTreasuryStats,
+  getTokenHolders,
+  getTokenAccount,
+  getTokenStats,
+  getDelegates,
+  getDelegateByAddress,
+  getGovernanceParams,
+  getVotesByProposalAfter,
+  getVotesByVoterAfter,
+  getFutarchyTradesByProposalAfter,
+  getFutarchyTradesByTraderAfter,
+  getSuggestionsByIds,
+  getSuggestionVotesAfter,
+  getSuggestionVotesByVoterAfter,
+  getFutarchyRedemptionsByUserAfter,
+  searchGovernance,
+  decodeCursor,
+  createWebhookSubscription,
+  getWebhookSubscriptions,
+  deleteWebhookSubscription,
+  getWebhookDeadLetters,
+  redeliverWebhookDeadLetter,
 } from "../db/index.js";
-import type { ProposalStatus, FutarchyProposalStatus, PaginationParams } from "../types/index.js";
+import type {
+  ProposalStatus,
+  FutarchyProposalStatus,
+  PaginationParams,
+  CursorParams,
+  DelegateSortField,
+  CandleInterval,
+  SearchResultType,
+  ExportDataset,
+  ExportFormat,
+  StreamFilter,
+  WebhookEventType,
+} from "../types/index.js";
+import {
+  CANDLE_INTERVALS,
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+  SEARCH_RESULT_TYPES,
+  WEBHOOK_EVENT_TYPES,
+} from "../types/index.js";
 
 // =============================================================================
 // Configuration
@@ -62,6 +165,14 @@ export interface ApiConfig {
   port: number;
   rateLimitWindowMs?: number;
   rateLimitMaxRequests?: number;
+  /** Block explorer base URL used for transaction links */
+  explorerUrl?: string;
+  /** Bearer token for the webhook admin endpoints (disabled when unset) */
+  adminToken?: string;
+  /** Deepest GraphQL field nesting allowed */
+  graphqlMaxDepth?: number;
+  /** Highest estimated number of objects one GraphQL query may resolve */
+  graphqlMaxComplexity?: number;
 }
 
 // =============================================================================
@@ -113,6 +224,88 @@ function parsePagination(query: Request["query"]): PaginationParams {
   return { page, limit };
 }
 
+/**
+ * Parse keyset pagination params (cursor, limit)
+ *
+ * @returns undefined without a cursor param (page-based request), null when
+ *   the cursor is malformed
+ */
+function parseCursor(query: Request["query"]): CursorParams | undefined | null {
+  if (query.cursor === undefined) return undefined;
+  const { limit } = parsePagination(query);
+  if (query.cursor === "") return { limit };
+  const after = typeof query.cursor === "string" ? decodeCursor(query.cursor) : null;
+  return after ? { after, limit } : null;
+}
+
+/**
+ * Parse an optional timestamp query param (Unix seconds, `at` by default)
+ *
+ * @returns undefined when absent, null when malformed
+ */
+function parseTimestamp(
+  query: Request["query"],
+  key = "at"
+): number | undefined | null {
+  if (query[key] === undefined) return undefined;
+  const value = query[key] as string;
+  return /^\d{1,12}$/.test(value) ? parseInt(value, 10) : null;
+}
+
+/**
+ * Parse the stream filter and resume cursor shared by SSE and WebSocket
+ *
+ * @param lastEventId - SSE Last-Event-ID header, used when no cursor is given
+ * @returns null when a param is malformed
+ */
+function parseStreamQuery(
+  query: Record<string, unknown>,
+  lastEventId?: string
+): { filter: StreamFilter; cursor?: string } | null {
+  const { proposalId, address } = query;
+  const cursor = query.cursor ?? lastEventId;
+
+  if (
+    proposalId !== undefined &&
+    !(typeof proposalId === "string" && /^\d{1,78}$/.test(proposalId))
+  ) {
+    return null;
+  }
+  if (address !== undefined && !(typeof address === "string" && isValidAddress(address))) {
+    return null;
+  }
+  if (cursor !== undefined && !(typeof cursor === "string" && /^\d{1,19}$/.test(cursor))) {
+    return null;
+  }
+
+  return {
+    filter: {
+      ...(proposalId !== undefined && { proposalId }),
+      ...(address !== undefined && { address }),
+    },
+    ...(cursor !== undefined && { cursor }),
+  };
+}
+
+/**
+ * Require the admin bearer token; responds 404 when no token is configured
+ */
+function requireAdmin(adminToken: string | undefined) {
+  const expected = adminToken ? Buffer.from(`Bearer ${adminToken}`) : null;
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!expected) {
+      res.status(404).json({ error: "Not found" });
+      return;
+    }
+    const given = Buffer.from(req.header("Authorization") ?? "");
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+    next();
+  };
+}
+
 /**
  * Async route wrapper for error handling
  */
@@ -130,6 +323,13 @@ function asyncHandler(
 
 let app: Express | null = null;
 let server: ReturnType<Express["listen"]> | null = null;
+let wss: WebSocketServer | null = null;
+
+/** Keep-alive interval of stream connections */
+const STREAM_HEARTBEAT_MS = 15_000;
+
+/** Closers of open SSE and WebSocket streams, run on shutdown */
+const openStreams = new Set<() => void>();
 
 /**
  * Initialize and start the API server
@@ -139,6 +339,10 @@ export async function startApi(config: ApiConfig): Promise<void> {
     port,
     rateLimitWindowMs = 60_000, // 1 minute
     rateLimitMaxRequests = 100, // 100 requests per minute
+    explorerUrl = "https://basescan.org",
+    adminToken,
+    graphqlMaxDepth,
+    graphqlMaxComplexity,
   } = config;
 
   app = express();
@@ -152,7 +356,7 @@ export async function startApi(config: ApiConfig): Promise<void> {
   // CORS headers for frontend integration
   app.use((req, res, next) => {
     res.header("Access-Control-Allow-Origin", "*");
-    res.header("Access-Control-Allow-Methods", "GET, OPTIONS");
+    res.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
     res.header(
       "Access-Control-Allow-Headers",
       "Origin, X-Requested-With, Content-Type, Accept"
@@ -223,6 +427,8 @@ export async function startApi(config: ApiConfig): Promise<void> {
           chainHead: indexerStatus.chainHead,
           lag,
           lastUpdateAt: checkpoint?.updatedAt.toISOString() ?? null,
+          decodeErrors: indexerStatus.decodeErrors,
+          unhandledTopics: indexerStatus.unhandledTopics,
         },
       });
     })
@@ -306,7 +512,11 @@ export async function startApi(config: ApiConfig): Promise<void> {
 
   /**
    * GET /api/proposals/:id/votes
-   * Get votes for a specific proposal
+   * Get votes for a specific proposal, newest first
+   *
+   * Query params:
+   * - page, limit: offset pagination with a total
+   * - cursor: keyset pagination instead (empty for the first page)
    */
   app.get(
     "/api/proposals/:id/votes",
@@ -325,19 +535,56 @@ export async function startApi(config: ApiConfig): Promise<void> {
         return;
       }
 
-      const pagination = parsePagination(req.query);
-      const result = await getVotesByProposal(id, pagination);
+      const cursor = parseCursor(req.query);
+      if (cursor === null) {
+        res.status(400).json({ error: "Invalid cursor" });
+        return;
+      }
+
+      const result = cursor
+        ? await getVotesByProposalAfter(id, cursor)
+        : await getVotesByProposal(id, parsePagination(req.query));
       res.json(result);
     })
   );
 
+  /**
+   * GET /api/proposals/:id/revisions
+   * Get every version of the description, each with a line diff against the
+   * previous version
+   */
+  app.get(
+    "/api/proposals/:id/revisions",
+    asyncHandler(async (req: Request, res: Response) => {
+      const id = req.params.id;
+
+      if (!id || !/^\d+$/.test(id) || id.length > 78) {
+        res.status(400).json({ error: "Invalid proposal ID format" });
+        return;
+      }
+
+      const revisions = await getProposalRevisions(id);
+
+      if (!revisions) {
+        res.status(404).json({ error: "Proposal not found" });
+        return;
+      }
+
+      res.json(revisions);
+    })
+  );
+
   // ==========================================================================
   // Vote Endpoints
   // ==========================================================================
 
   /**
    * GET /api/votes/voter/:address
-   * Get all votes by a specific voter address
+   * Get all votes by a specific voter address, newest first
+   *
+   * Query params:
+   * - page, limit: offset pagination with a total
+   * - cursor: keyset pagination instead (empty for the first page)
    */
   app.get(
     "/api/votes/voter/:address",
@@ -349,12 +596,164 @@ export async function startApi(config: ApiConfig): Promise<void> {
         return;
       }
 
-      const pagination = parsePagination(req.query);
-      const result = await getVotesByVoter(address, pagination);
+      const cursor = parseCursor(req.query);
+      if (cursor === null) {
+        res.status(400).json({ error: "Invalid cursor" });
+        return;
+      }
+
+      const result = cursor
+        ? await getVotesByVoterAfter(address, cursor)
+        : await getVotesByVoter(address, parsePagination(req.query));
+      res.json(result);
+    })
+  );
+
+  // ==========================================================================
+  // Suggestion Endpoints
+  // ==========================================================================
+
+  /**
+   * GET /api/suggestions/:id/votes
+   * Get votes on an edit suggestion, newest first
+   *
+   * Query params:
+   * - cursor: resume after this page (omit or empty for the first page)
+   * - limit: number (default: 20, max: 100)
+   */
+  app.get(
+    "/api/suggestions/:id/votes",
+    asyncHandler(async (req: Request, res: Response) => {
+      const id = req.params.id;
+
+      if (!id || !/^\d+$/.test(id) || id.length > 78) {
+        res.status(400).json({ error: "Invalid suggestion ID format" });
+        return;
+      }
+
+      const cursor = parseCursor(req.query);
+      if (cursor === null) {
+        res.status(400).json({ error: "Invalid cursor" });
+        return;
+      }
+
+      const [suggestion] = await getSuggestionsByIds([id]);
+      if (!suggestion) {
+        res.status(404).json({ error: "Suggestion not found" });
+        return;
+      }
+
+      const result = await getSuggestionVotesAfter(
+        id,
+        cursor ?? { limit: parsePagination(req.query).limit }
+      );
+      res.json(result);
+    })
+  );
+
+  // ==========================================================================
+  // Search Endpoints
+  // ==========================================================================
+
+  /**
+   * GET /api/search
+   * Search proposal titles and descriptions, edit suggestions, vote reasons
+   * and futarchy descriptions, best match first
+   *
+   * Query params:
+   * - q: search text (web search syntax: "phrase", or, -exclude)
+   * - type: proposal | suggestion | vote | futarchy (default: all)
+   * - page: number (default: 1)
+   * - limit: number (default: 20, max: 100)
+   */
+  app.get(
+    "/api/search",
+    asyncHandler(async (req: Request, res: Response) => {
+      const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (q.length === 0 || q.length > 200) {
+        res.status(400).json({ error: "Query must be 1-200 characters" });
+        return;
+      }
+
+      const type = req.query.type as string | undefined;
+      if (type !== undefined && !SEARCH_RESULT_TYPES.includes(type as SearchResultType)) {
+        res.status(400).json({ error: "Invalid type" });
+        return;
+      }
+
+      const result = await searchGovernance(
+        q,
+        parsePagination(req.query),
+        type !== undefined ? [type as SearchResultType] : undefined
+      );
       res.json(result);
     })
   );
 
+  // ==========================================================================
+  // Export Endpoints
+  // ==========================================================================
+
+  /**
+   * GET /api/export/:dataset.:format
+   * Stream every matching event in chain order with its provenance, e.g.
+   * /api/export/votes.csv?proposalId=1
+   *
+   * Datasets: votes, suggestion-votes, trades, redemptions, slashes
+   * Formats: csv, ndjson
+   *
+   * Query params:
+   * - proposalId: only events of this proposal (futarchy proposal for
+   *   trades and redemptions)
+   * - from, to: Unix timestamps bounding the block time (inclusive)
+   * - includeReorged: "true" to keep reorged rows (flagged in is_reorged)
+   */
+  app.get(
+    "/api/export/:file",
+    asyncHandler(async (req: Request, res: Response) => {
+      const [, dataset, format] = /^([a-z-]+)\.([a-z]+)$/.exec(req.params.file ?? "") ?? [];
+      if (
+        !EXPORT_DATASETS.includes(dataset as ExportDataset) ||
+        !EXPORT_FORMATS.includes(format as ExportFormat)
+      ) {
+        res.status(404).json({ error: "Unknown export" });
+        return;
+      }
+
+      const proposalId = req.query.proposalId as string | undefined;
+      if (proposalId !== undefined && (!/^\d+$/.test(proposalId) || proposalId.length > 78)) {
+        res.status(400).json({ error: "Invalid proposal ID format" });
+        return;
+      }
+
+      const from = parseTimestamp(req.query, "from");
+      const to = parseTimestamp(req.query, "to");
+      if (from === null || to === null) {
+        res.status(400).json({ error: "Invalid timestamp" });
+        return;
+      }
+
+      res.writeHead(200, {
+        "Content-Type": EXPORT_CONTENT_TYPES[format as ExportFormat],
+        "Content-Disposition": `attachment; filename="${dataset}.${format}"`,
+        "Cache-Control": "no-store",
+      });
+
+      try {
+        await writeExport(res, dataset as ExportDataset, format as ExportFormat, {
+          ...(proposalId !== undefined && { proposalId }),
+          ...(from !== undefined && { from }),
+          ...(to !== undefined && { to }),
+          includeReorged: req.query.includeReorged === "true",
+        });
+      } catch (error) {
+        // Headers are already sent; cut the response so it is not mistaken for complete
+        console.error(`[API] Export ${dataset}.${format} failed:`, error);
+        res.destroy();
+      }
+    })
+  );
+
   // ==========================================================================
   // Statistics Endpoints
   // ==========================================================================
@@ -392,7 +791,15 @@ export async function startApi(config: ApiConfig): Promise<void> {
       const filters: { status?: FutarchyProposalStatus; recipient?: string } = {};
 
       if (req.query.status) {
-        const validStatuses = ["active", "resolved", "executed", "expired"];
+        const validStatuses = [
+          "active",
+          "closed",
+          "resolved",
+          "executed",
+          "rejected",
+          "canceled",
+          "expired",
+        ];
         if (validStatuses.includes(req.query.status as string)) {
           filters.status = req.query.status as FutarchyProposalStatus;
         }
@@ -441,7 +848,11 @@ export async function startApi(config: ApiConfig): Promise<void> {
 
   /**
    * GET /api/treasury/proposals/:id/trades
-   * Get trades for a futarchy proposal
+   * Get trades for a futarchy proposal, newest first
+   *
+   * Query params:
+   * - page, limit: offset pagination with a total
+   * - cursor: keyset pagination instead (empty for the first page)
    */
   app.get(
     "/api/treasury/proposals/:id/trades",
@@ -460,8 +871,75 @@ export async function startApi(config: ApiConfig): Promise<void> {
         return;
       }
 
+      const cursor = parseCursor(req.query);
+      if (cursor === null) {
+        res.status(400).json({ error: "Invalid cursor" });
+        return;
+      }
+
+      const result = cursor
+        ? await getFutarchyTradesByProposalAfter(id, cursor)
+        : await getFutarchyTradesByProposal(id, parsePagination(req.query));
+      res.json(result);
+    })
+  );
+
+  /**
+   * GET /api/treasury/proposals/:id/holders
+   * Get holders of a futarchy proposal's PASS and FAIL tokens
+   *
+   * Query params:
+   * - page: number (default: 1)
+   * - limit: number (default: 20, max: 100)
+   */
+  app.get(
+    "/api/treasury/proposals/:id/holders",
+    asyncHandler(async (req: Request, res: Response) => {
+      const id = req.params.id;
+
+      if (!id || !/^\d+$/.test(id) || id.length > 78) {
+        res.status(400).json({ error: "Invalid proposal ID format" });
+        return;
+      }
+
+      const pagination = parsePagination(req.query);
+      const result = await getOutcomeHolders(id, pagination);
+
+      if (!result) {
+        res.status(404).json({ error: "Treasury proposal not found" });
+        return;
+      }
+
+      res.json(result);
+    })
+  );
+
+  /**
+   * GET /api/treasury/proposals/:id/leaderboard
+   * Get a futarchy proposal's traders ranked by total PnL
+   *
+   * Query params:
+   * - page: number (default: 1)
+   * - limit: number (default: 20, max: 100)
+   */
+  app.get(
+    "/api/treasury/proposals/:id/leaderboard",
+    asyncHandler(async (req: Request, res: Response) => {
+      const id = req.params.id;
+
+      if (!id || !/^\d+$/.test(id) || id.length > 78) {
+        res.status(400).json({ error: "Invalid proposal ID format" });
+        return;
+      }
+
       const pagination = parsePagination(req.query);
-      const result = await getFutarchyTradesByProposal(id, pagination);
+      const result = await getProposalPnlLeaderboard(id, pagination);
+
+      if (!result) {
+        res.status(404).json({ error: "Treasury proposal not found" });
+        return;
+      }
+
       res.json(result);
     })
   );
@@ -492,49 +970,765 @@ export async function startApi(config: ApiConfig): Promise<void> {
   );
 
   /**
-   * GET /api/treasury/stats
-   * Get treasury statistics
+   * GET /api/treasury/proposals/:id/twap
+   * Get the TWAP series of a proposal's PASS and FAIL markets
+   *
+   * Query params:
+   * - from: Unix timestamp (optional, default: market creation)
+   * - to: Unix timestamp (optional, default: latest indexed block)
    */
   app.get(
-    "/api/treasury/stats",
+    "/api/treasury/proposals/:id/twap",
     asyncHandler(async (req: Request, res: Response) => {
-      const stats = await getTreasuryStats();
-      res.json(stats);
-    })
-  );
+      const id = req.params.id;
 
-  // ==========================================================================
-  // Error Handling
-  // ==========================================================================
+      if (!id || !/^\d+$/.test(id) || id.length > 78) {
+        res.status(400).json({ error: "Invalid proposal ID format" });
+        return;
+      }
 
-  // 404 handler
-  app.use((req: Request, res: Response) => {
-    res.status(404).json({ error: "Not found" });
-  });
+      const from = parseTimestamp(req.query, "from");
+      const to = parseTimestamp(req.query, "to");
+      if (from === null || to === null) {
+        res.status(400).json({ error: "Invalid timestamp format" });
+        return;
+      }
+      if (from !== undefined && to !== undefined && from > to) {
+        res.status(400).json({ error: "from must not be after to" });
+        return;
+      }
 
-  // Global error handler
-  app.use((err: Error, req: Request, res: Response, _next: NextFunction) => {
-    console.error(`[API] Error: ${err.message}`, err.stack);
+      const twap = await getFutarchyTwap(id, {
+        ...(from !== undefined && { from }),
+        ...(to !== undefined && { to }),
+      });
 
-    // Don't leak internal error details in production
-    const isDev = process.env.NODE_ENV === "development";
-    res.status(500).json({
-      error: "Internal server error",
-      ...(isDev && { message: err.message, stack: err.stack }),
-    });
-  });
+      if (!twap) {
+        res.status(404).json({ error: "Treasury proposal not found" });
+        return;
+      }
 
-  // ==========================================================================
-  // Start Server
-  // ==========================================================================
+      res.json(twap);
+    })
+  );
 
-  return new Promise((resolve) => {
-    server = app!.listen(port, () => {
-      console.log(`[API] Server started on port ${port}`);
-      resolve();
-    });
-  });
-}
+  /**
+   * GET /api/treasury/proposals/:id/candles
+   * Get OHLCV candles of a futarchy proposal's PASS or FAIL market
+   *
+   * Query params:
+   * - market: pass | fail (default: pass)
+   * - interval: 1m | 5m | 1h | 1d (default: 1h)
+   * - from: Unix timestamp (optional)
+   * - to: Unix timestamp (optional)
+   */
+  app.get(
+    "/api/treasury/proposals/:id/candles",
+    asyncHandler(async (req: Request, res: Response) => {
+      const id = req.params.id;
+
+      if (!id || !/^\d+$/.test(id) || id.length > 78) {
+        res.status(400).json({ error: "Invalid proposal ID format" });
+        return;
+      }
+
+      const market = (req.query.market as string | undefined) ?? "pass";
+      if (market !== "pass" && market !== "fail") {
+        res.status(400).json({ error: "Invalid market" });
+        return;
+      }
+
+      const interval = (req.query.interval as string | undefined) ?? "1h";
+      if (!Object.hasOwn(CANDLE_INTERVALS, interval)) {
+        res.status(400).json({ error: "Invalid interval" });
+        return;
+      }
+
+      const from = parseTimestamp(req.query, "from");
+      const to = parseTimestamp(req.query, "to");
+      if (from === null || to === null) {
+        res.status(400).json({ error: "Invalid timestamp format" });
+        return;
+      }
+
+      const candles = await getFutarchyCandles(id, market, interval as CandleInterval, {
+        ...(from !== undefined && { from }),
+        ...(to !== undefined && { to }),
+      });
+
+      if (!candles) {
+        res.status(404).json({ error: "Treasury proposal not found" });
+        return;
+      }
+
+      res.json(candles);
+    })
+  );
+
+  /**
+   * GET /api/treasury/stats
+   * Get treasury statistics
+   */
+  app.get(
+    "/api/treasury/stats",
+    asyncHandler(async (req: Request, res: Response) => {
+      const stats = await getTreasuryStats();
+      res.json(stats);
+    })
+  );
+
+  // ==========================================================================
+  // Account Endpoints
+  // ==========================================================================
+
+  /**
+   * GET /api/accounts/:address
+   * Get every indexed activity of an address as of one checkpoint
+   *
+   * Query params:
+   * - limit: first-page size of each list (default: 20, max: 100)
+   */
+  app.get(
+    "/api/accounts/:address",
+    asyncHandler(async (req: Request, res: Response) => {
+      const address = req.params.address;
+
+      if (!address || !isValidAddress(address)) {
+        res.status(400).json({ error: "Invalid address format" });
+        return;
+      }
+
+      const portfolio = await getAccountPortfolio(address, parsePagination(req.query).limit);
+      res.json(portfolio);
+    })
+  );
+
+  /**
+   * GET /api/accounts/:address/positions
+   * Get an account's open outcome positions with average entry prices
+   *
+   * Query params:
+   * - page: number (default: 1)
+   * - limit: number (default: 20, max: 100)
+   */
+  app.get(
+    "/api/accounts/:address/positions",
+    asyncHandler(async (req: Request, res: Response) => {
+      const address = req.params.address;
+
+      if (!address || !isValidAddress(address)) {
+        res.status(400).json({ error: "Invalid address format" });
+        return;
+      }
+
+      const positions = await getAccountPositions(address, parsePagination(req.query));
+      res.json(positions);
+    })
+  );
+
+  /**
+   * GET /api/accounts/:address/pnl
+   * Get an account's average-cost PnL per futarchy proposal and outcome
+   */
+  app.get(
+    "/api/accounts/:address/pnl",
+    asyncHandler(async (req: Request, res: Response) => {
+      const address = req.params.address;
+
+      if (!address || !isValidAddress(address)) {
+        res.status(400).json({ error: "Invalid address format" });
+        return;
+      }
+
+      const pnl = await getAccountPnl(address);
+      res.json(pnl);
+    })
+  );
+
+  /**
+   * GET /api/accounts/:address/trades
+   * Get an account's futarchy trades, newest first
+   *
+   * Query params:
+   * - cursor: resume after this page (omit or empty for the first page)
+   * - limit: number (default: 20, max: 100)
+   */
+  app.get(
+    "/api/accounts/:address/trades",
+    asyncHandler(async (req: Request, res: Response) => {
+      const address = req.params.address;
+
+      if (!address || !isValidAddress(address)) {
+        res.status(400).json({ error: "Invalid address format" });
+        return;
+      }
+
+      const cursor = parseCursor(req.query);
+      if (cursor === null) {
+        res.status(400).json({ error: "Invalid cursor" });
+        return;
+      }
+
+      const result = await getFutarchyTradesByTraderAfter(
+        address,
+        cursor ?? { limit: parsePagination(req.query).limit }
+      );
+      res.json(result);
+    })
+  );
+
+  /**
+   * GET /api/accounts/:address/suggestion-votes
+   * Get an account's votes on edit suggestions, newest first
+   *
+   * Query params:
+   * - cursor: resume after this page (omit or empty for the first page)
+   * - limit: number (default: 20, max: 100)
+   */
+  app.get(
+    "/api/accounts/:address/suggestion-votes",
+    asyncHandler(async (req: Request, res: Response) => {
+      const address = req.params.address;
+
+      if (!address || !isValidAddress(address)) {
+        res.status(400).json({ error: "Invalid address format" });
+        return;
+      }
+
+      const cursor = parseCursor(req.query);
+      if (cursor === null) {
+        res.status(400).json({ error: "Invalid cursor" });
+        return;
+      }
+
+      const result = await getSuggestionVotesByVoterAfter(
+        address,
+        cursor ?? { limit: parsePagination(req.query).limit }
+      );
+      res.json(result);
+    })
+  );
+
+  /**
+   * GET /api/accounts/:address/redemptions
+   * Get an account's futarchy winnings redemptions, newest first
+   *
+   * Query params:
+   * - cursor: resume after this page (omit or empty for the first page)
+   * - limit: number (default: 20, max: 100)
+   */
+  app.get(
+    "/api/accounts/:address/redemptions",
+    asyncHandler(async (req: Request, res: Response) => {
+      const address = req.params.address;
+
+      if (!address || !isValidAddress(address)) {
+        res.status(400).json({ error: "Invalid address format" });
+        return;
+      }
+
+      const cursor = parseCursor(req.query);
+      if (cursor === null) {
+        res.status(400).json({ error: "Invalid cursor" });
+        return;
+      }
+
+      const result = await getFutarchyRedemptionsByUserAfter(
+        address,
+        cursor ?? { limit: parsePagination(req.query).limit }
+      );
+      res.json(result);
+    })
+  );
+
+  // ==========================================================================
+  // Token Endpoints
+  // ==========================================================================
+
+  /**
+   * GET /api/token/stats
+   * Get KLED supply and minting statistics
+   */
+  app.get(
+    "/api/token/stats",
+    asyncHandler(async (req: Request, res: Response) => {
+      const stats = await getTokenStats();
+      res.json(stats);
+    })
+  );
+
+  /**
+   * GET /api/token/holders
+   * List KLED holders by balance
+   *
+   * Query params:
+   * - page: number (default: 1)
+   * - limit: number (default: 20, max: 100)
+   * - at: Unix timestamp (optional, balances as of that time)
+   */
+  app.get(
+    "/api/token/holders",
+    asyncHandler(async (req: Request, res: Response) => {
+      const at = parseTimestamp(req.query);
+      if (at === null) {
+        res.status(400).json({ error: "Invalid timestamp format" });
+        return;
+      }
+
+      const pagination = parsePagination(req.query);
+      const result = await getTokenHolders(pagination, at);
+      res.json(result);
+    })
+  );
+
+  /**
+   * GET /api/token/holders/:address
+   * Get an account's balance, delegate and voting power
+   *
+   * Query params:
+   * - at: Unix timestamp (optional, state as of that time)
+   */
+  app.get(
+    "/api/token/holders/:address",
+    asyncHandler(async (req: Request, res: Response) => {
+      const address = req.params.address;
+
+      if (!address || !isValidAddress(address)) {
+        res.status(400).json({ error: "Invalid address format" });
+        return;
+      }
+
+      const at = parseTimestamp(req.query);
+      if (at === null) {
+        res.status(400).json({ error: "Invalid timestamp format" });
+        return;
+      }
+
+      const account = await getTokenAccount(address, at);
+      res.json(account);
+    })
+  );
+
+  // ==========================================================================
+  // Delegate Endpoints
+  // ==========================================================================
+
+  /**
+   * GET /api/delegates
+   * List delegates with voting power
+   *
+   * Query params:
+   * - page: number (default: 1)
+   * - limit: number (default: 20, max: 100)
+   * - sort: votingPower | delegators | votesCast | participation
+   *   (default: votingPower, always descending)
+   */
+  app.get(
+    "/api/delegates",
+    asyncHandler(async (req: Request, res: Response) => {
+      const pagination = parsePagination(req.query);
+      let sort: DelegateSortField = "votingPower";
+
+      if (req.query.sort) {
+        const validSorts = ["votingPower", "delegators", "votesCast", "participation"];
+        if (!validSorts.includes(req.query.sort as string)) {
+          res.status(400).json({ error: "Invalid sort field" });
+          return;
+        }
+        sort = req.query.sort as DelegateSortField;
+      }
+
+      const result = await getDelegates(pagination, sort);
+      res.json(result);
+    })
+  );
+
+  /**
+   * GET /api/delegates/:address
+   * Get a delegate with voting power history, delegators and votes
+   */
+  app.get(
+    "/api/delegates/:address",
+    asyncHandler(async (req: Request, res: Response) => {
+      const address = req.params.address;
+
+      if (!address || !isValidAddress(address)) {
+        res.status(400).json({ error: "Invalid address format" });
+        return;
+      }
+
+      const delegate = await getDelegateByAddress(address);
+
+      if (!delegate) {
+        res.status(404).json({ error: "Delegate not found" });
+        return;
+      }
+
+      res.json(delegate);
+    })
+  );
+
+  // ==========================================================================
+  // Governance Endpoints
+  // ==========================================================================
+
+  /**
+   * GET /api/governance/params
+   * Get current governor parameters and their change history (newest first)
+   */
+  app.get(
+    "/api/governance/params",
+    asyncHandler(async (req: Request, res: Response) => {
+      const params = await getGovernanceParams();
+      res.json({
+        ...params,
+        history: params.history.map((change) => ({
+          ...change,
+          txUrl: `${explorerUrl}/tx/${change.txHash}`,
+        })),
+      });
+    })
+  );
+
+  // ==========================================================================
+  // GraphQL Endpoint
+  // ==========================================================================
+
+  /**
+   * GET|POST /graphql
+   * Run a GraphQL query; GET takes query, variables (JSON) and operationName
+   * as query params, POST takes them as a JSON body
+   */
+  const handleGraphql = asyncHandler(async (req: Request, res: Response) => {
+    const params = (req.method === "GET" ? req.query : (req.body ?? {})) as Record<
+      string,
+      unknown
+    >;
+    const { query, operationName } = params;
+
+    let variables: unknown = params.variables ?? undefined;
+    if (typeof variables === "string") {
+      try {
+        variables = JSON.parse(variables) as unknown;
+      } catch {
+        variables = null;
+      }
+    }
+
+    if (typeof query !== "string" || query.length === 0) {
+      res.status(400).json({ errors: [{ message: "Missing query" }] });
+      return;
+    }
+    if (
+      variables !== undefined &&
+      (typeof variables !== "object" || variables === null || Array.isArray(variables))
+    ) {
+      res.status(400).json({ errors: [{ message: "variables must be a JSON object" }] });
+      return;
+    }
+    if (
+      operationName !== undefined &&
+      operationName !== null &&
+      typeof operationName !== "string"
+    ) {
+      res.status(400).json({ errors: [{ message: "operationName must be a string" }] });
+      return;
+    }
+
+    const request: GraphqlRequest = {
+      query,
+      ...(variables !== undefined && { variables: variables as Record<string, unknown> }),
+      ...(typeof operationName === "string" && { operationName }),
+    };
+    const result = await runGraphql(request, {
+      ...(graphqlMaxDepth !== undefined && { maxDepth: graphqlMaxDepth }),
+      ...(graphqlMaxComplexity !== undefined && { maxComplexity: graphqlMaxComplexity }),
+    });
+    res.status(result.status).json(result.body);
+  });
+  app.get("/graphql", handleGraphql);
+  app.post("/graphql", handleGraphql);
+
+  // ==========================================================================
+  // Stream Endpoints
+  // ==========================================================================
+
+  /**
+   * GET /api/stream
+   * Stream normalized events as Server-Sent Events
+   *
+   * Query params:
+   * - proposalId: only events of this proposal
+   * - address: only events involving this address
+   * - cursor: resume after this event (defaults to the Last-Event-ID header)
+   */
+  app.get("/api/stream", (req: Request, res: Response) => {
+    const query = parseStreamQuery(req.query, req.header("Last-Event-ID"));
+    if (!query) {
+      res.status(400).json({ error: "Invalid stream parameters" });
+      return;
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.write(": connected\n\n");
+
+    const unsubscribe = subscribeStream({
+      ...query,
+      send: (event) => {
+        const frame = `id: ${event.cursor}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+        if (res.write(frame)) return;
+        // Socket buffer full: hold the cursor until it drains or the client leaves
+        return new Promise<void>((resolve) => {
+          const resume = () => {
+            res.off("drain", resume);
+            res.off("close", resume);
+            resolve();
+          };
+          res.on("drain", resume);
+          res.on("close", resume);
+        });
+      },
+    });
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), STREAM_HEARTBEAT_MS);
+
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      openStreams.delete(close);
+      res.end();
+    };
+    openStreams.add(close);
+    req.on("close", close);
+  });
+
+  // ==========================================================================
+  // Webhook Endpoints
+  // ==========================================================================
+
+  const admin = requireAdmin(adminToken);
+
+  /**
+   * POST /api/webhooks
+   * Create a webhook subscription; the signing secret is only returned here
+   *
+   * Body:
+   * - url: http(s) endpoint receiving the deliveries
+   * - eventTypes: subset of WEBHOOK_EVENT_TYPES (default: all)
+   * - proposalId: only events of this proposal
+   * - address: only events involving this address
+   * - secret: signing secret (default: 32 random bytes, hex)
+   */
+  app.post(
+    "/api/webhooks",
+    admin,
+    asyncHandler(async (req: Request, res: Response) => {
+      const body = (req.body ?? {}) as Record<string, unknown>;
+      const { url, eventTypes = [], proposalId, address, secret } = body;
+
+      let parsedUrl: URL | null = null;
+      try {
+        parsedUrl = typeof url === "string" ? new URL(url) : null;
+      } catch {
+        parsedUrl = null;
+      }
+      if (!parsedUrl || !["http:", "https:"].includes(parsedUrl.protocol)) {
+        res.status(400).json({ error: "Invalid webhook url" });
+        return;
+      }
+
+      if (
+        !Array.isArray(eventTypes) ||
+        !eventTypes.every((type) => WEBHOOK_EVENT_TYPES.includes(type as WebhookEventType))
+      ) {
+        res.status(400).json({
+          error: `Invalid eventTypes. Use: ${WEBHOOK_EVENT_TYPES.join(", ")}`,
+        });
+        return;
+      }
+
+      if (
+        proposalId !== undefined &&
+        !(typeof proposalId === "string" && /^\d{1,78}$/.test(proposalId))
+      ) {
+        res.status(400).json({ error: "Invalid proposalId" });
+        return;
+      }
+
+      if (address !== undefined && !(typeof address === "string" && isValidAddress(address))) {
+        res.status(400).json({ error: "Invalid address format" });
+        return;
+      }
+
+      if (
+        secret !== undefined &&
+        !(typeof secret === "string" && secret.length >= 16 && secret.length <= 128)
+      ) {
+        res.status(400).json({ error: "secret must be 16-128 characters" });
+        return;
+      }
+
+      const signingSecret = secret ?? randomBytes(32).toString("hex");
+      const subscription = await createWebhookSubscription({
+        url: parsedUrl.toString(),
+        secret: signingSecret,
+        eventTypes: [...new Set(eventTypes as WebhookEventType[])],
+        ...(proposalId !== undefined && { proposalId }),
+        ...(address !== undefined && { address }),
+      });
+
+      res.status(201).json({ ...subscription, secret: signingSecret });
+    })
+  );
+
+  /**
+   * GET /api/webhooks
+   * List webhook subscriptions (without secrets)
+   */
+  app.get(
+    "/api/webhooks",
+    admin,
+    asyncHandler(async (req: Request, res: Response) => {
+      res.json({ data: await getWebhookSubscriptions() });
+    })
+  );
+
+  /**
+   * GET /api/webhooks/dead-letters
+   * Deliveries that exhausted their attempts (newest first)
+   */
+  app.get(
+    "/api/webhooks/dead-letters",
+    admin,
+    asyncHandler(async (req: Request, res: Response) => {
+      res.json(await getWebhookDeadLetters(parsePagination(req.query)));
+    })
+  );
+
+  /**
+   * POST /api/webhooks/dead-letters/:id/redeliver
+   * Queue a dead-lettered delivery again with a fresh attempt budget
+   */
+  app.post(
+    "/api/webhooks/dead-letters/:id/redeliver",
+    admin,
+    asyncHandler(async (req: Request, res: Response) => {
+      const id = req.params.id!;
+      if (!/^\d{1,9}$/.test(id)) {
+        res.status(400).json({ error: "Invalid dead letter ID" });
+        return;
+      }
+
+      const queued = await redeliverWebhookDeadLetter(parseInt(id, 10));
+      if (queued === null) {
+        res.status(404).json({ error: "Dead letter not found" });
+        return;
+      }
+      if (!queued) {
+        res.status(409).json({ error: "Delivery is no longer dead-lettered" });
+        return;
+      }
+
+      res.status(202).json({ status: "queued" });
+    })
+  );
+
+  /**
+   * DELETE /api/webhooks/:id
+   * Remove a subscription together with its deliveries
+   */
+  app.delete(
+    "/api/webhooks/:id",
+    admin,
+    asyncHandler(async (req: Request, res: Response) => {
+      const id = req.params.id!;
+      if (!/^\d{1,9}$/.test(id)) {
+        res.status(400).json({ error: "Invalid webhook ID" });
+        return;
+      }
+
+      if (!(await deleteWebhookSubscription(parseInt(id, 10)))) {
+        res.status(404).json({ error: "Webhook not found" });
+        return;
+      }
+
+      res.status(204).end();
+    })
+  );
+
+  // ==========================================================================
+  // Error Handling
+  // ==========================================================================
+
+  // 404 handler
+  app.use((req: Request, res: Response) => {
+    res.status(404).json({ error: "Not found" });
+  });
+
+  // Global error handler
+  app.use((err: Error, req: Request, res: Response, _next: NextFunction) => {
+    console.error(`[API] Error: ${err.message}`, err.stack);
+
+    // Don't leak internal error details in production
+    const isDev = process.env.NODE_ENV === "development";
+    res.status(500).json({
+      error: "Internal server error",
+      ...(isDev && { message: err.message, stack: err.stack }),
+    });
+  });
+
+  // ==========================================================================
+  // Start Server
+  // ==========================================================================
+
+  return new Promise((resolve) => {
+    server = app!.listen(port, () => {
+      console.log(`[API] Server started on port ${port}`);
+      resolve();
+    });
+    attachStreamSocket(server);
+  });
+}
+
+/**
+ * WS /api/stream/ws - the WebSocket equivalent of GET /api/stream
+ *
+ * Takes the same query params; each message is one StreamEvent as JSON.
+ * Malformed params close the socket with code 1008.
+ */
+function attachStreamSocket(httpServer: NonNullable<typeof server>): void {
+  wss = new WebSocketServer({ server: httpServer, path: "/api/stream/ws" });
+
+  wss.on("connection", (socket, request) => {
+    const params = new URL(request.url ?? "", "http://localhost").searchParams;
+    const query = parseStreamQuery(Object.fromEntries(params));
+    if (!query) {
+      socket.close(1008, "Invalid stream parameters");
+      return;
+    }
+
+    const unsubscribe = subscribeStream({
+      ...query,
+      // Resolves once the message is flushed (or the socket failed)
+      send: (event) =>
+        new Promise<void>((resolve) => socket.send(JSON.stringify(event), () => resolve())),
+    });
+    const heartbeat = setInterval(() => socket.ping(), STREAM_HEARTBEAT_MS);
+
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      openStreams.delete(close);
+      socket.terminate();
+    };
+    openStreams.add(close);
+    socket.on("close", close);
+    socket.on("error", close);
+  });
+}
 
 /**
  * Stop the API server gracefully
@@ -546,6 +1740,11 @@ export async function stopApi(): Promise<void> {
       return;
     }
 
+    // Open streams would otherwise keep the server from closing
+    for (const close of openStreams) close();
+    wss?.close();
+    wss = null;
+
     server.close((err) => {
       if (err) {
         reject(err);
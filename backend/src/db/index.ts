@@ -2,12 +2,22 @@
  * Database Module - Street Governance
  *
  * PostgreSQL database layer with:
- * - Connection pooling
+ * - Connection pooling (pg) or an embedded PGlite engine for dev/tests
  * - Idempotent inserts (ON CONFLICT DO NOTHING)
  * - Reorg-aware queries (WHERE NOT is_reorged)
  * - Transaction support for atomic batches
  */
 
+import { AsyncLocalStorage } from "node:async_hooks";
+import pg from "pg";
+import {
+  migrateUp,
+  getMigrationStatus,
+  getAppliedSchemaVersion,
+  getExpectedSchemaVersion,
+  type Migration,
+  type MigrationStatus,
+} from "./migrate.js";
 import type {
   Proposal,
   Vote,
@@ -20,27 +30,82 @@ import type {
   VoteSupport,
   PaginationParams,
   PaginatedResponse,
+  CursorParams,
+  CursorPage,
+  EventPosition,
   ProposalListItem,
   ProposalDetail,
   VoteListItem,
   EditSuggestionListItem,
+  SuggestionVoteItem,
+  SlashListItem,
   GovernanceStats,
+  FutarchyDescriptionStatus,
   FutarchyProposalStatus,
   FutarchyProposalListItem,
   FutarchyProposalDetail,
   FutarchyTradeListItem,
+  FutarchyRedemptionListItem,
   FutarchyPriceData,
   TreasuryStats,
+  TokenHolderListItem,
+  TokenAccountSnapshot,
+  TokenStats,
+  DelegateSortField,
+  DelegateListItem,
+  DelegateDetail,
+  GovernanceParameterValue,
+  GovernanceParams,
+  ProposalRevision,
+  ProposalRevisions,
+  AmmMarketTwap,
+  FutarchyTwapSeries,
+  AccountPositions,
+  OutcomePosition,
+  PnlPosition,
+  OutcomeHolderListItem,
+  CandleInterval,
+  FutarchyCandles,
+  AccountPortfolio,
+  AccountPnl,
+  PnlLeaderboardItem,
+  SearchResult,
+  SearchResultType,
+  ExportBatch,
+  ExportCursor,
+  ExportDataset,
+  ExportFilter,
+  ExportRow,
+  StreamEvent,
+  StreamEventType,
+  StreamFilter,
+  StreamPayload,
+  WebhookDeadLetter,
+  WebhookEventType,
+  WebhookSubscription,
 } from "../types/index.js";
+import { CANDLE_INTERVALS, GovernanceParameter } from "../types/index.js";
+import { applyEdit, diffLines } from "../revisions/index.js";
+import { buildTwapSeries, DEFAULT_TWAP_WINDOW, type AmmMarketEvent } from "../amm/index.js";
+import { outcomeTokenId } from "../positions/index.js";
+import { computePnl, sumPnl, type PnlEvent, type PnlMark } from "../pnl/index.js";
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
+/**
+ * Supported DATABASE_URL schemes:
+ * - postgres:// / postgresql://   pooled connection to a PostgreSQL server
+ * - pglite://memory               embedded in-process database, discarded on close
+ * - pglite://<dir>                embedded database persisted in <dir>
+ */
 export interface DatabaseConfig {
   connectionString: string;
   maxConnections?: number;
   idleTimeout?: number;
+  /** Skip the schema version check (used by the migration CLI) */
+  skipSchemaCheck?: boolean;
 }
 
 // =============================================================================
@@ -49,45 +114,233 @@ export interface DatabaseConfig {
 
 export interface DbClient {
   query<T = unknown>(sql: string, params?: unknown[]): Promise<{ rows: T[] }>;
+  /** Check out a dedicated connection (required for BEGIN/COMMIT) */
+  connect(): Promise<DbSession>;
   end(): Promise<void>;
 }
 
-// Placeholder - will be replaced with actual pg Pool
+/**
+ * A single checked-out connection. Every statement of a transaction must go
+ * through the same session, otherwise the pool may route BEGIN and COMMIT to
+ * different backends.
+ */
+export interface DbSession {
+  query<T = unknown>(sql: string, params?: unknown[]): Promise<{ rows: T[] }>;
+  /** Run a multi-statement SQL script (no parameters) */
+  exec(sql: string): Promise<void>;
+  release(error?: Error): void;
+}
+
 let pool: DbClient | null = null;
 
+/**
+ * Session of the transaction running in the current async context.
+ * getDb() hands this out instead of the pool so that every query issued
+ * inside withTransaction() lands on the same connection.
+ */
+const transactionScope = new AsyncLocalStorage<DbSession>();
+
 // =============================================================================
 // Initialization
 // =============================================================================
 
 /**
- * Initialize database connection pool
+ * Create a pg connection pool wrapped as a DbClient
  */
-export async function initDb(config: DatabaseConfig): Promise<void> {
-  // TODO: Replace with actual pg Pool when pg is added to dependencies
-  // import { Pool } from 'pg';
-  // pool = new Pool({
-  //   connectionString: config.connectionString,
-  //   max: config.maxConnections ?? 10,
-  //   idleTimeoutMillis: config.idleTimeout ?? 30000,
-  // });
+function createPgClient(config: DatabaseConfig): DbClient {
+  const pgPool = new pg.Pool({
+    connectionString: config.connectionString,
+    max: config.maxConnections ?? 10,
+    idleTimeoutMillis: config.idleTimeout ?? 30000,
+  });
 
-  console.log("[DB] Initializing database connection pool");
   console.log(
-    `[DB] Connection string: ${config.connectionString.replace(/:[^:@]+@/, ":****@")}`
+    `[DB] Pool: max ${config.maxConnections ?? 10} connections, ` +
+      `idle timeout ${config.idleTimeout ?? 30000}ms`
   );
 
-  // Placeholder implementation
-  pool = {
+  // Idle clients can error out (e.g. server restart); without a listener
+  // the pool re-emits the error and takes the whole process down.
+  pgPool.on("error", (err) => {
+    console.error("[DB] Idle client error:", err.message);
+  });
+
+  return {
     query: async <T>(sql: string, params?: unknown[]): Promise<{ rows: T[] }> => {
-      console.log(`[DB] Query: ${sql.slice(0, 100)}...`);
-      return { rows: [] };
+      const result = await pgPool.query(sql, params);
+      return { rows: result.rows as T[] };
+    },
+    connect: async (): Promise<DbSession> => {
+      const client = await pgPool.connect();
+      return {
+        query: async <T>(sql: string, params?: unknown[]): Promise<{ rows: T[] }> => {
+          const result = await client.query(sql, params);
+          return { rows: result.rows as T[] };
+        },
+        exec: async (sql: string) => {
+          await client.query(sql);
+        },
+        release: (error?: Error) => client.release(error),
+      };
     },
     end: async () => {
+      await pgPool.end();
       console.log("[DB] Connection pool closed");
     },
   };
 }
 
+/** Postgres type OIDs the embedded engine must return as text, like pg does */
+const PG_INT8_OID = 20;
+
+/**
+ * Create an embedded PGlite database wrapped as a DbClient
+ *
+ * PGlite runs real Postgres (plpgsql, views, ON CONFLICT) in-process but has
+ * a single connection, so a session holds an exclusive lock: pool-level
+ * queries wait until the running transaction releases it.
+ */
+async function createEmbeddedClient(dataDir: string | undefined): Promise<DbClient> {
+  const { PGlite } = await import("@electric-sql/pglite");
+  const db = new PGlite({
+    ...(dataDir !== undefined && { dataDir }),
+    parsers: { [PG_INT8_OID]: (value: string) => value },
+  });
+  await db.waitReady;
+
+  let tail: Promise<void> = Promise.resolve();
+  const acquire = async (): Promise<() => void> => {
+    let release!: () => void;
+    const previous = tail;
+    tail = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    await previous;
+    return release;
+  };
+
+  return {
+    query: async <T>(sql: string, params?: unknown[]): Promise<{ rows: T[] }> => {
+      const release = await acquire();
+      try {
+        const result = await db.query<T>(sql, params);
+        return { rows: result.rows };
+      } finally {
+        release();
+      }
+    },
+    connect: async (): Promise<DbSession> => {
+      const release = await acquire();
+      return {
+        query: async <T>(sql: string, params?: unknown[]): Promise<{ rows: T[] }> => {
+          const result = await db.query<T>(sql, params);
+          return { rows: result.rows };
+        },
+        exec: async (sql: string) => {
+          await db.exec(sql);
+        },
+        release: () => release(),
+      };
+    },
+    end: async () => {
+      await db.close();
+      console.log("[DB] Embedded database closed");
+    },
+  };
+}
+
+/**
+ * Pick a driver from the connection string scheme
+ */
+async function createClient(
+  config: DatabaseConfig
+): Promise<{ client: DbClient; embedded: boolean }> {
+  const match = /^([a-z]+):\/\/(.*)$/.exec(config.connectionString);
+  const scheme = match?.[1];
+
+  if (scheme === "postgres" || scheme === "postgresql") {
+    return { client: createPgClient(config), embedded: false };
+  }
+  if (scheme === "pglite") {
+    const location = match?.[2] ?? "";
+    const client = await createEmbeddedClient(
+      location === "" || location === "memory" ? undefined : location
+    );
+    return { client, embedded: true };
+  }
+
+  throw new Error(
+    `Unsupported DATABASE_URL scheme "${scheme ?? config.connectionString}" ` +
+      `(expected postgres://, postgresql:// or pglite://)`
+  );
+}
+
+/**
+ * Initialize database connection pool
+ *
+ * Verifies connectivity before returning so that a bad DATABASE_URL or an
+ * unreachable server fails startup instead of the first indexing batch.
+ * Refuses to start if the schema is behind the migrations shipped with the
+ * code. Embedded databases are migrated automatically; PostgreSQL must be
+ * migrated explicitly with `npm run migrate -- up`.
+ */
+export async function initDb(config: DatabaseConfig): Promise<void> {
+  console.log("[DB] Initializing database connection pool");
+  console.log(
+    `[DB] Connection string: ${config.connectionString.replace(/:[^:@]+@/, ":****@")}`
+  );
+
+  const { client, embedded } = await createClient(config);
+
+  try {
+    await client.query("SELECT 1");
+  } catch (error) {
+    await client.end().catch(() => undefined);
+    throw new Error(
+      `Database unreachable: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  try {
+    if (embedded) {
+      await migrateUp(client);
+    }
+    if (!config.skipSchemaCheck) {
+      const current = await getAppliedSchemaVersion(client);
+      const expected = await getExpectedSchemaVersion();
+      if (current < expected) {
+        throw new Error(
+          `Database schema is at version ${current}, code expects ${expected}. ` +
+            "Run `npm run migrate -- up` first."
+        );
+      }
+    }
+  } catch (error) {
+    await client.end().catch(() => undefined);
+    throw error;
+  }
+
+  pool = client;
+  console.log("[DB] Connected");
+}
+
+/**
+ * Apply pending schema migrations
+ */
+export async function migrateDb(): Promise<Migration[]> {
+  if (!pool) {
+    throw new Error("Database not initialized. Call initDb() first.");
+  }
+  return migrateUp(pool);
+}
+
+/**
+ * Get applied/pending state of every schema migration
+ */
+export async function getDbMigrationStatus(): Promise<MigrationStatus[]> {
+  return getMigrationStatus(getDb());
+}
+
 /**
  * Close database connections
  */
@@ -99,9 +352,16 @@ export async function closeDb(): Promise<void> {
 }
 
 /**
- * Get the database pool (for direct queries)
+ * Get the database client for queries.
+ *
+ * Inside withTransaction() this is the transaction's dedicated session,
+ * otherwise the shared pool.
  */
-export function getDb(): DbClient {
+export function getDb(): Pick<DbClient, "query"> {
+  const session = transactionScope.getStore();
+  if (session) {
+    return session;
+  }
   if (!pool) {
     throw new Error("Database not initialized. Call initDb() first.");
   }
@@ -175,8 +435,9 @@ export interface InsertProposalParams {
   targets: string[];
   values: string[];
   calldatas: string[];
-  startBlock: bigint;
-  endBlock: bigint;
+  snapshotTimestamp: number;
+  startTime: number;
+  endTime: number;
   stakeAmount: string;
   txHash: string;
   logIndex: number;
@@ -186,17 +447,52 @@ export interface InsertProposalParams {
 }
 
 /**
- * Insert proposal with idempotency (ON CONFLICT DO NOTHING)
+ * Insert proposal with idempotency
+ *
+ * Replaying the same event is a no-op. If the proposal id exists only as a
+ * reorged row (its creation was re-included on the canonical fork), the row
+ * is revived with the new provenance and fresh aggregates.
+ *
+ * The conflict target is the id rather than (tx_hash, log_index) because
+ * reorged rows are kept. On the event key, a creation re-included in a new
+ * transaction would fail on the id primary key, and one re-included in the
+ * same transaction would be skipped as a duplicate, leaving the proposal
+ * reorged.
  */
 export async function insertProposal(params: InsertProposalParams): Promise<boolean> {
   const db = getDb();
   const result = await db.query(
     `INSERT INTO proposals (
       id, proposer, title, description, targets, values, calldatas,
-      start_block, end_block, stake_amount, status,
+      snapshot_timestamp, start_time, end_time, stake_amount, status,
       tx_hash, log_index, block_number, block_hash, block_timestamp
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
-    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+    ON CONFLICT (id) DO UPDATE SET
+       proposer = EXCLUDED.proposer,
+       title = EXCLUDED.title,
+       description = EXCLUDED.description,
+       targets = EXCLUDED.targets,
+       values = EXCLUDED.values,
+       calldatas = EXCLUDED.calldatas,
+       snapshot_timestamp = EXCLUDED.snapshot_timestamp,
+       start_time = EXCLUDED.start_time,
+       end_time = EXCLUDED.end_time,
+       stake_amount = EXCLUDED.stake_amount,
+       status = EXCLUDED.status,
+       for_votes = '0',
+       against_votes = '0',
+       abstain_votes = '0',
+       executed_at = NULL,
+       canceled_at = NULL,
+       slashed_amount = NULL,
+       tx_hash = EXCLUDED.tx_hash,
+       log_index = EXCLUDED.log_index,
+       block_number = EXCLUDED.block_number,
+       block_hash = EXCLUDED.block_hash,
+       block_timestamp = EXCLUDED.block_timestamp,
+       is_reorged = FALSE,
+       reorged_at = NULL
+     WHERE proposals.is_reorged
     RETURNING id`,
     [
       params.id,
@@ -206,8 +502,9 @@ export async function insertProposal(params: InsertProposalParams): Promise<bool
       JSON.stringify(params.targets),
       JSON.stringify(params.values),
       JSON.stringify(params.calldatas),
-      params.startBlock.toString(),
-      params.endBlock.toString(),
+      params.snapshotTimestamp,
+      params.startTime,
+      params.endTime,
       params.stakeAmount,
       "pending" as ProposalStatus,
       params.txHash,
@@ -246,6 +543,24 @@ export async function updateProposalStatus(
   );
 }
 
+/**
+ * Record a proposal's voting outcome with the quorum and threshold it was
+ * decided with
+ */
+export async function recordProposalOutcome(
+  proposalId: string,
+  status: ProposalStatus,
+  quorumVotes: string,
+  thresholdBps: string
+): Promise<void> {
+  const db = getDb();
+  await db.query(
+    `UPDATE proposals SET status = $2, quorum_votes = $3, threshold_bps = $4
+     WHERE id = $1 AND NOT is_reorged`,
+    [proposalId, status, quorumVotes, thresholdBps]
+  );
+}
+
 /**
  * Get proposals with pagination
  */
@@ -282,14 +597,14 @@ export async function getProposals(
     proposer: string;
     title: string;
     status: ProposalStatus;
-    start_block: string;
-    end_block: string;
+    start_time: string;
+    end_time: string;
     for_votes: string;
     against_votes: string;
     abstain_votes: string;
     created_at: Date;
   }>(
-    `SELECT id, proposer, title, status, start_block::TEXT, end_block::TEXT,
+    `SELECT id, proposer, title, status, start_time::TEXT, end_time::TEXT,
             for_votes, against_votes, abstain_votes, created_at
      FROM proposals
      WHERE ${whereClause}
@@ -304,8 +619,8 @@ export async function getProposals(
       proposer: row.proposer,
       title: row.title,
       status: row.status,
-      startBlock: row.start_block,
-      endBlock: row.end_block,
+      startTime: parseInt(row.start_time, 10),
+      endTime: parseInt(row.end_time, 10),
       forVotes: row.for_votes,
       againstVotes: row.against_votes,
       abstainVotes: row.abstain_votes,
@@ -324,93 +639,22 @@ export async function getProposals(
  * Get single proposal by ID with suggestions
  */
 export async function getProposalById(id: string): Promise<ProposalDetail | null> {
-  const db = getDb();
-  const result = await db.query<{
-    id: string;
-    proposer: string;
-    title: string;
-    description: string;
-    targets: string;
-    values: string;
-    calldatas: string;
-    status: ProposalStatus;
-    start_block: string;
-    end_block: string;
-    stake_amount: string;
-    for_votes: string;
-    against_votes: string;
-    abstain_votes: string;
-    executed_at: Date | null;
-    canceled_at: Date | null;
-    slashed_amount: string | null;
-    created_at: Date;
-  }>(
-    `SELECT id, proposer, title, description, targets, values, calldatas,
-            status, start_block::TEXT, end_block::TEXT, stake_amount,
-            for_votes, against_votes, abstain_votes,
-            executed_at, canceled_at, slashed_amount, created_at
-     FROM proposals
-     WHERE id = $1 AND NOT is_reorged`,
-    [id]
-  );
-
-  if (result.rows.length === 0) {
+  const [proposal] = await getProposalsByIds([id]);
+  if (!proposal) {
     return null;
   }
 
-  const row = result.rows[0]!;
-
   // Get suggestions for this proposal
-  const suggestionsResult = await db.query<{
-    id: string;
-    proposal_id: string;
-    suggester: string;
-    proposed_text: string;
-    status: SuggestionStatus;
-    for_votes: string;
-    against_votes: string;
-    vote_window_end: string;
-    created_at: Date;
-  }>(
-    `SELECT id, proposal_id, suggester, proposed_text, status,
-            for_votes, against_votes, vote_window_end::TEXT, created_at
+  const db = getDb();
+  const suggestionsResult = await db.query<SuggestionRow>(
+    `SELECT ${SUGGESTION_COLUMNS}
      FROM edit_suggestions
      WHERE proposal_id = $1 AND NOT is_reorged
      ORDER BY created_at DESC`,
     [id]
   );
 
-  return {
-    id: row.id,
-    proposer: row.proposer,
-    title: row.title,
-    description: row.description,
-    targets: JSON.parse(row.targets),
-    values: JSON.parse(row.values),
-    calldatas: JSON.parse(row.calldatas),
-    status: row.status,
-    startBlock: row.start_block,
-    endBlock: row.end_block,
-    stakeAmount: row.stake_amount,
-    forVotes: row.for_votes,
-    againstVotes: row.against_votes,
-    abstainVotes: row.abstain_votes,
-    executedAt: row.executed_at?.toISOString() ?? null,
-    canceledAt: row.canceled_at?.toISOString() ?? null,
-    slashedAmount: row.slashed_amount,
-    createdAt: row.created_at.toISOString(),
-    suggestions: suggestionsResult.rows.map((s) => ({
-      id: s.id,
-      proposalId: s.proposal_id,
-      suggester: s.suggester,
-      proposedText: s.proposed_text,
-      status: s.status,
-      forVotes: s.for_votes,
-      againstVotes: s.against_votes,
-      voteWindowEnd: parseInt(s.vote_window_end, 10),
-      createdAt: s.created_at.toISOString(),
-    })),
-  };
+  return { ...proposal, suggestions: suggestionsResult.rows.map(mapSuggestion) };
 }
 
 // =============================================================================
@@ -609,7 +853,7 @@ export interface InsertSuggestionParams {
 }
 
 /**
- * Insert edit suggestion with idempotency
+ * Insert edit suggestion with idempotency (revives reorged rows, see insertProposal)
  */
 export async function insertSuggestion(params: InsertSuggestionParams): Promise<boolean> {
   const db = getDb();
@@ -619,7 +863,25 @@ export async function insertSuggestion(params: InsertSuggestionParams): Promise<
       stake_amount, edit_window_end, vote_window_end, status,
       tx_hash, log_index, block_number, block_hash, block_timestamp
     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
-    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    ON CONFLICT (id) DO UPDATE SET
+       proposal_id = EXCLUDED.proposal_id,
+       suggester = EXCLUDED.suggester,
+       original_hash = EXCLUDED.original_hash,
+       proposed_text = EXCLUDED.proposed_text,
+       stake_amount = EXCLUDED.stake_amount,
+       edit_window_end = EXCLUDED.edit_window_end,
+       vote_window_end = EXCLUDED.vote_window_end,
+       status = EXCLUDED.status,
+       for_votes = '0',
+       against_votes = '0',
+       tx_hash = EXCLUDED.tx_hash,
+       log_index = EXCLUDED.log_index,
+       block_number = EXCLUDED.block_number,
+       block_hash = EXCLUDED.block_hash,
+       block_timestamp = EXCLUDED.block_timestamp,
+       is_reorged = FALSE,
+       reorged_at = NULL
+     WHERE edit_suggestions.is_reorged
     RETURNING id`,
     [
       params.id,
@@ -693,15 +955,11 @@ export async function insertSuggestionVote(
   return false;
 }
 
-// =============================================================================
-// Slash Operations
-// =============================================================================
-
-export interface InsertSlashParams {
-  proposalId: string;
-  proposer: string;
-  slashedAmount: string;
-  returnedAmount: string;
+export interface InsertSuggestionFinalizationParams {
+  suggestionId: string;
+  accepted: boolean;
+  forVotes: string;
+  againstVotes: string;
   txHash: string;
   logIndex: number;
   blockNumber: bigint;
@@ -710,22 +968,25 @@ export interface InsertSlashParams {
 }
 
 /**
- * Insert slash record with idempotency
+ * Insert suggestion finalization with idempotency, record the outcome and,
+ * for an accepted suggestion, the proposal revision it produces
  */
-export async function insertSlash(params: InsertSlashParams): Promise<boolean> {
+export async function insertSuggestionFinalization(
+  params: InsertSuggestionFinalizationParams
+): Promise<boolean> {
   const db = getDb();
   const result = await db.query(
-    `INSERT INTO slashes (
-      proposal_id, proposer, slashed_amount, returned_amount,
+    `INSERT INTO suggestion_finalizations (
+      suggestion_id, accepted, for_votes, against_votes,
       tx_hash, log_index, block_number, block_hash, block_timestamp
     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
     ON CONFLICT (tx_hash, log_index) DO NOTHING
     RETURNING id`,
     [
-      params.proposalId,
-      params.proposer,
-      params.slashedAmount,
-      params.returnedAmount,
+      params.suggestionId,
+      params.accepted,
+      params.forVotes,
+      params.againstVotes,
       params.txHash,
       params.logIndex,
       params.blockNumber.toString(),
@@ -734,23 +995,38 @@ export async function insertSlash(params: InsertSlashParams): Promise<boolean> {
     ]
   );
 
-  if (result.rows.length > 0) {
-    // Update proposal with slash amount
-    await db.query(
-      `UPDATE proposals SET slashed_amount = $2 WHERE id = $1 AND NOT is_reorged`,
-      [params.proposalId, params.slashedAmount]
-    );
-    return true;
+  if (result.rows.length === 0) {
+    return false;
   }
-  return false;
-}
 
-// =============================================================================
-// Execution/Cancellation Event Operations
-// =============================================================================
+  // Event totals are the contract's own tally
+  await db.query(
+    `UPDATE edit_suggestions
+     SET status = $2,
+         for_votes = $3,
+         against_votes = $4,
+         finalized_at = to_timestamp($5)
+     WHERE id = $1 AND NOT is_reorged`,
+    [
+      params.suggestionId,
+      (params.accepted ? "accepted" : "rejected") as SuggestionStatus,
+      params.forVotes,
+      params.againstVotes,
+      params.blockTimestamp,
+    ]
+  );
 
-export interface InsertEventParams {
-  proposalId: string;
+  if (params.accepted) {
+    await insertProposalRevision(params);
+  }
+  return true;
+}
+
+export interface InsertSuggestionStakeClaimParams {
+  suggestionId: string;
+  suggester: string;
+  amount: string;
+  slashed: boolean;
   txHash: string;
   logIndex: number;
   blockNumber: bigint;
@@ -759,18 +1035,24 @@ export interface InsertEventParams {
 }
 
 /**
- * Insert proposal execution event
+ * Insert suggestion stake claim with idempotency and record the payout
  */
-export async function insertExecution(params: InsertEventParams): Promise<boolean> {
+export async function insertSuggestionStakeClaim(
+  params: InsertSuggestionStakeClaimParams
+): Promise<boolean> {
   const db = getDb();
   const result = await db.query(
-    `INSERT INTO proposal_executions (
-      proposal_id, tx_hash, log_index, block_number, block_hash, block_timestamp
-    ) VALUES ($1, $2, $3, $4, $5, $6)
+    `INSERT INTO suggestion_stake_claims (
+      suggestion_id, suggester, amount, slashed,
+      tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
     ON CONFLICT (tx_hash, log_index) DO NOTHING
     RETURNING id`,
     [
-      params.proposalId,
+      params.suggestionId,
+      params.suggester,
+      params.amount,
+      params.slashed,
       params.txHash,
       params.logIndex,
       params.blockNumber.toString(),
@@ -780,29 +1062,82 @@ export async function insertExecution(params: InsertEventParams): Promise<boolea
   );
 
   if (result.rows.length > 0) {
-    await updateProposalStatus(
-      params.proposalId,
-      "executed" as ProposalStatus,
-      new Date(params.blockTimestamp * 1000)
+    await db.query(
+      `UPDATE edit_suggestions
+       SET stake_returned = $2, stake_slashed = $3
+       WHERE id = $1 AND NOT is_reorged`,
+      [params.suggestionId, params.amount, params.slashed]
     );
     return true;
   }
   return false;
 }
 
+// =============================================================================
+// Proposal Revisions
+// =============================================================================
+
 /**
- * Insert proposal cancellation event
+ * Record an accepted suggestion as the next version of its proposal's
+ * description
+ *
+ * The edit is applied to the latest surviving version. Rolled-back
+ * revisions are marked reorged from the same block as their finalization,
+ * so versions are rebuilt in order on the new fork.
  */
-export async function insertCancellation(params: InsertEventParams): Promise<boolean> {
+async function insertProposalRevision(
+  params: InsertSuggestionFinalizationParams
+): Promise<void> {
   const db = getDb();
-  const result = await db.query(
-    `INSERT INTO proposal_cancellations (
-      proposal_id, tx_hash, log_index, block_number, block_hash, block_timestamp
-    ) VALUES ($1, $2, $3, $4, $5, $6)
-    ON CONFLICT (tx_hash, log_index) DO NOTHING
-    RETURNING id`,
+  const suggestion = await db.query<{
+    proposal_id: string;
+    original_hash: string;
+    proposed_text: string;
+  }>(
+    `SELECT proposal_id, original_hash, proposed_text
+     FROM edit_suggestions
+     WHERE id = $1 AND NOT is_reorged`,
+    [params.suggestionId]
+  );
+  const row = suggestion.rows[0];
+  if (!row) return;
+
+  const latest = await db.query<{ version: number; description: string }>(
+    `SELECT version, description FROM (
+       SELECT version, description
+       FROM proposal_revisions
+       WHERE proposal_id = $1 AND NOT is_reorged
+       UNION ALL
+       SELECT 0, description
+       FROM proposals
+       WHERE id = $1 AND NOT is_reorged
+     ) versions
+     ORDER BY version DESC
+     LIMIT 1`,
+    [row.proposal_id]
+  );
+  const current = latest.rows[0];
+  if (!current) return;
+
+  const edit = applyEdit(current.description, row.original_hash, row.proposed_text);
+  if (edit.replacedText === null) {
+    console.warn(
+      `[DB] Passage of suggestion ${params.suggestionId} not found in proposal ${row.proposal_id}`
+    );
+  }
+
+  await db.query(
+    `INSERT INTO proposal_revisions (
+      proposal_id, version, suggestion_id, description, replaced_text,
+      tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING`,
     [
-      params.proposalId,
+      row.proposal_id,
+      current.version + 1,
+      params.suggestionId,
+      edit.text,
+      edit.replacedText,
       params.txHash,
       params.logIndex,
       params.blockNumber.toString(),
@@ -810,139 +1145,87 @@ export async function insertCancellation(params: InsertEventParams): Promise<boo
       params.blockTimestamp,
     ]
   );
+}
 
-  if (result.rows.length > 0) {
-    await updateProposalStatus(
-      params.proposalId,
-      "canceled" as ProposalStatus,
-      new Date(params.blockTimestamp * 1000)
-    );
-    return true;
+/**
+ * Get every version of a proposal's description with a line diff against
+ * the version before it
+ */
+export async function getProposalRevisions(
+  proposalId: string
+): Promise<ProposalRevisions | null> {
+  const db = getDb();
+  const proposal = await db.query<{ description: string }>(
+    `SELECT description FROM proposals WHERE id = $1 AND NOT is_reorged`,
+    [proposalId]
+  );
+  const original = proposal.rows[0];
+  if (!original) {
+    return null;
   }
-  return false;
-}
 
-// =============================================================================
-// Reorg Handling
-// =============================================================================
-
-export interface ReorgStats {
-  proposalsAffected: number;
-  votesAffected: number;
-  suggestionsAffected: number;
-  suggestionVotesAffected: number;
-  slashesAffected: number;
-}
-
-/**
- * Mark all events from a block as reorged (soft delete)
- */
-export async function markReorgedFromBlock(fromBlock: bigint): Promise<ReorgStats> {
-  const db = getDb();
   const result = await db.query<{
-    proposals_affected: string;
-    votes_affected: string;
-    suggestions_affected: string;
-    suggestion_votes_affected: string;
-    slashes_affected: string;
-  }>(`SELECT * FROM mark_reorged_from_block($1)`, [fromBlock.toString()]);
-
-  const row = result.rows[0];
-  return {
-    proposalsAffected: parseInt(row?.proposals_affected ?? "0", 10),
-    votesAffected: parseInt(row?.votes_affected ?? "0", 10),
-    suggestionsAffected: parseInt(row?.suggestions_affected ?? "0", 10),
-    suggestionVotesAffected: parseInt(row?.suggestion_votes_affected ?? "0", 10),
-    slashesAffected: parseInt(row?.slashes_affected ?? "0", 10),
-  };
-}
-
-/**
- * Get block hash at a specific block number
- */
-export async function getStoredBlockHash(blockNumber: bigint): Promise<string | null> {
-  const db = getDb();
-  const result = await db.query<{ block_hash: string }>(
-    `SELECT DISTINCT block_hash FROM proposals
-     WHERE block_number = $1 AND NOT is_reorged
-     LIMIT 1`,
-    [blockNumber.toString()]
+    version: number;
+    description: string;
+    suggestion_id: string;
+    suggester: string;
+    proposed_text: string;
+    replaced_text: string | null;
+    tx_hash: string;
+    block_number: string;
+    block_timestamp: string;
+  }>(
+    `SELECT r.version, r.description, r.suggestion_id, s.suggester, s.proposed_text,
+            r.replaced_text, r.tx_hash, r.block_number::TEXT, r.block_timestamp::TEXT
+     FROM proposal_revisions r
+     JOIN edit_suggestions s ON s.id = r.suggestion_id
+     WHERE r.proposal_id = $1 AND NOT r.is_reorged
+     ORDER BY r.version`,
+    [proposalId]
   );
-  return result.rows[0]?.block_hash ?? null;
-}
-
-// =============================================================================
-// Statistics
-// =============================================================================
-
-/**
- * Get governance statistics
- */
-export async function getStats(): Promise<GovernanceStats> {
-  const db = getDb();
-
-  const result = await db.query<{
-    total_proposals: string;
-    active_proposals: string;
-    total_votes: string;
-    unique_voters: string;
-    total_staked: string;
-    total_slashed: string;
-  }>(`
-    SELECT
-      (SELECT COUNT(*) FROM proposals WHERE NOT is_reorged) as total_proposals,
-      (SELECT COUNT(*) FROM proposals WHERE NOT is_reorged AND status = 'active') as active_proposals,
-      (SELECT COUNT(*) FROM votes WHERE NOT is_reorged) as total_votes,
-      (SELECT COUNT(DISTINCT voter) FROM votes WHERE NOT is_reorged) as unique_voters,
-      (SELECT COALESCE(SUM(stake_amount::NUMERIC), 0)::TEXT FROM proposals WHERE NOT is_reorged) as total_staked,
-      (SELECT COALESCE(SUM(slashed_amount::NUMERIC), 0)::TEXT FROM slashes WHERE NOT is_reorged) as total_slashed
-  `);
-
-  const row = result.rows[0]!;
-  const totalProposals = parseInt(row.total_proposals, 10);
-  const totalVotes = parseInt(row.total_votes, 10);
-
-  return {
-    totalProposals,
-    activeProposals: parseInt(row.active_proposals, 10),
-    totalVotes,
-    uniqueVoters: parseInt(row.unique_voters, 10),
-    totalStaked: row.total_staked,
-    totalSlashed: row.total_slashed,
-    participationRate: totalProposals > 0 ? totalVotes / totalProposals : 0,
-  };
-}
-
-// =============================================================================
-// Transaction Helper
-// =============================================================================
 
-/**
- * Execute a function within a database transaction
- */
-export async function withTransaction<T>(fn: () => Promise<T>): Promise<T> {
-  const db = getDb();
-  await db.query("BEGIN");
-  try {
-    const result = await fn();
-    await db.query("COMMIT");
-    return result;
-  } catch (error) {
-    await db.query("ROLLBACK");
-    throw error;
+  const revisions: ProposalRevision[] = [
+    {
+      version: 0,
+      description: original.description,
+      suggestionId: null,
+      suggester: null,
+      proposedText: null,
+      replacedText: null,
+      txHash: null,
+      blockNumber: null,
+      timestamp: null,
+      diff: [],
+    },
+  ];
+  for (const row of result.rows) {
+    const previous = revisions[revisions.length - 1]!;
+    revisions.push({
+      version: row.version,
+      description: row.description,
+      suggestionId: row.suggestion_id,
+      suggester: row.suggester,
+      proposedText: row.proposed_text,
+      replacedText: row.replaced_text,
+      txHash: row.tx_hash,
+      blockNumber: row.block_number,
+      timestamp: parseInt(row.block_timestamp, 10),
+      diff: diffLines(previous.description, row.description),
+    });
   }
+
+  return { proposalId, revisions };
 }
 
 // =============================================================================
-// Futarchy Treasury Operations
+// Slash Operations
 // =============================================================================
 
-export interface InsertFutarchyProposalParams {
-  id: string;
-  description: string;
-  amount: string;
-  recipient: string;
-  marketEndTime: number;
+export interface InsertSlashParams {
+  proposalId: string;
+  proposer: string;
+  slashedAmount: string;
+  returnedAmount: string;
   txHash: string;
   logIndex: number;
   blockNumber: bigint;
@@ -951,26 +1234,22 @@ export interface InsertFutarchyProposalParams {
 }
 
 /**
- * Insert futarchy proposal with idempotency
+ * Insert slash record with idempotency
  */
-export async function insertFutarchyProposal(
-  params: InsertFutarchyProposalParams
-): Promise<boolean> {
+export async function insertSlash(params: InsertSlashParams): Promise<boolean> {
   const db = getDb();
   const result = await db.query(
-    `INSERT INTO futarchy_proposals (
-      id, description, amount, recipient, market_end_time, status,
+    `INSERT INTO slashes (
+      proposal_id, proposer, slashed_amount, returned_amount,
       tx_hash, log_index, block_number, block_hash, block_timestamp
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
     ON CONFLICT (tx_hash, log_index) DO NOTHING
     RETURNING id`,
     [
-      params.id,
-      params.description,
-      params.amount,
-      params.recipient,
-      params.marketEndTime,
-      "active" as FutarchyProposalStatus,
+      params.proposalId,
+      params.proposer,
+      params.slashedAmount,
+      params.returnedAmount,
       params.txHash,
       params.logIndex,
       params.blockNumber.toString(),
@@ -978,16 +1257,24 @@ export async function insertFutarchyProposal(
       params.blockTimestamp,
     ]
   );
-  return result.rows.length > 0;
+
+  if (result.rows.length > 0) {
+    // Update proposal with slash amount
+    await db.query(
+      `UPDATE proposals SET slashed_amount = $2 WHERE id = $1 AND NOT is_reorged`,
+      [params.proposalId, params.slashedAmount]
+    );
+    return true;
+  }
+  return false;
 }
 
-export interface InsertFutarchyTradeParams {
+// =============================================================================
+// Execution/Cancellation Event Operations
+// =============================================================================
+
+export interface InsertEventParams {
   proposalId: string;
-  trader: string;
-  isYes: boolean;
-  amountIn: string;
-  amountOut: string;
-  newPrice: string;
   txHash: string;
   logIndex: number;
   blockNumber: bigint;
@@ -996,26 +1283,18 @@ export interface InsertFutarchyTradeParams {
 }
 
 /**
- * Insert futarchy trade with idempotency and update proposal prices/volumes
+ * Insert proposal execution event
  */
-export async function insertFutarchyTrade(
-  params: InsertFutarchyTradeParams
-): Promise<boolean> {
+export async function insertExecution(params: InsertEventParams): Promise<boolean> {
   const db = getDb();
   const result = await db.query(
-    `INSERT INTO futarchy_trades (
-      proposal_id, trader, is_yes, amount_in, amount_out, new_price,
-      tx_hash, log_index, block_number, block_hash, block_timestamp
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    `INSERT INTO proposal_executions (
+      proposal_id, tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6)
     ON CONFLICT (tx_hash, log_index) DO NOTHING
     RETURNING id`,
     [
       params.proposalId,
-      params.trader,
-      params.isYes,
-      params.amountIn,
-      params.amountOut,
-      params.newPrice,
       params.txHash,
       params.logIndex,
       params.blockNumber.toString(),
@@ -1025,54 +1304,29 @@ export async function insertFutarchyTrade(
   );
 
   if (result.rows.length > 0) {
-    // Update proposal price and volume
-    const priceColumn = params.isYes ? "yes_price" : "no_price";
-    const volumeColumn = params.isYes ? "total_yes_volume" : "total_no_volume";
-
-    await db.query(
-      `UPDATE futarchy_proposals
-       SET ${priceColumn} = $2,
-           ${volumeColumn} = (${volumeColumn}::NUMERIC + $3::NUMERIC)::TEXT,
-           total_trades = total_trades + 1
-       WHERE id = $1 AND NOT is_reorged`,
-      [params.proposalId, params.newPrice, params.amountIn]
+    await updateProposalStatus(
+      params.proposalId,
+      "executed" as ProposalStatus,
+      new Date(params.blockTimestamp * 1000)
     );
     return true;
   }
   return false;
 }
 
-export interface InsertFutarchyResolutionParams {
-  proposalId: string;
-  passed: boolean;
-  yesPrice: string;
-  noPrice: string;
-  txHash: string;
-  logIndex: number;
-  blockNumber: bigint;
-  blockHash: string;
-  blockTimestamp: number;
-}
-
 /**
- * Insert futarchy resolution with idempotency and update proposal status
+ * Insert proposal cancellation event
  */
-export async function insertFutarchyResolution(
-  params: InsertFutarchyResolutionParams
-): Promise<boolean> {
+export async function insertCancellation(params: InsertEventParams): Promise<boolean> {
   const db = getDb();
   const result = await db.query(
-    `INSERT INTO futarchy_resolutions (
-      proposal_id, passed, yes_price, no_price,
-      tx_hash, log_index, block_number, block_hash, block_timestamp
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `INSERT INTO proposal_cancellations (
+      proposal_id, tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6)
     ON CONFLICT (tx_hash, log_index) DO NOTHING
     RETURNING id`,
     [
       params.proposalId,
-      params.passed,
-      params.yesPrice,
-      params.noPrice,
       params.txHash,
       params.logIndex,
       params.blockNumber.toString(),
@@ -1082,52 +1336,3429 @@ export async function insertFutarchyResolution(
   );
 
   if (result.rows.length > 0) {
-    // Update proposal with resolution details
-    await db.query(
-      `UPDATE futarchy_proposals
-       SET status = 'resolved',
-           passed = $2,
-           final_yes_price = $3,
-           final_no_price = $4,
-           resolved_at = NOW()
-       WHERE id = $1 AND NOT is_reorged`,
-      [params.proposalId, params.passed, params.yesPrice, params.noPrice]
+    await updateProposalStatus(
+      params.proposalId,
+      "canceled" as ProposalStatus,
+      new Date(params.blockTimestamp * 1000)
     );
     return true;
   }
   return false;
 }
 
-export interface InsertFutarchyRedemptionParams {
-  proposalId: string;
-  user: string;
-  amount: string;
-  txHash: string;
-  logIndex: number;
-  blockNumber: bigint;
-  blockHash: string;
-  blockTimestamp: number;
+// =============================================================================
+// Status Transitions
+// =============================================================================
+
+export interface TimeStatusStats {
+  proposalsUpdated: number;
+  suggestionsUpdated: number;
+  /** New status of each updated proposal */
+  proposalStatuses: { id: string; status: ProposalStatus }[];
 }
 
 /**
- * Insert futarchy redemption with idempotency
+ * Set the purely time-driven statuses as of a block timestamp
+ *
+ * Proposals move between pending and active by their voting window; a
+ * succeeded/defeated proposal whose voting has not ended at this timestamp
+ * (after a reorg rollback) is moved back. Suggestions move through
+ * pending -> voting -> expired by their edit and vote windows. Outcomes that
+ * need vote tallies are left to the indexer (see getProposalsPastVoting).
  */
-export async function insertFutarchyRedemption(
-  params: InsertFutarchyRedemptionParams
-): Promise<boolean> {
+export async function applyTimeStatuses(timestamp: number): Promise<TimeStatusStats> {
   const db = getDb();
-  const result = await db.query(
-    `INSERT INTO futarchy_redemptions (
-      proposal_id, user_address, amount,
-      tx_hash, log_index, block_number, block_hash, block_timestamp
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-    ON CONFLICT (tx_hash, log_index) DO NOTHING
-    RETURNING id`,
-    [
-      params.proposalId,
-      params.user,
-      params.amount,
-      params.txHash,
+
+  const proposals = await db.query<{ id: string; status: ProposalStatus }>(
+    `UPDATE proposals
+     SET status = CASE WHEN $1 < start_time THEN 'pending' ELSE 'active' END,
+         quorum_votes = NULL,
+         threshold_bps = NULL
+     WHERE NOT is_reorged
+       AND status IN ('pending', 'active', 'succeeded', 'defeated')
+       AND end_time >= $1
+       AND status <> CASE WHEN $1 < start_time THEN 'pending' ELSE 'active' END
+     RETURNING id, status`,
+    [timestamp]
+  );
+
+  const suggestions = await db.query(
+    `UPDATE edit_suggestions
+     SET status = CASE
+       WHEN $1 < edit_window_end THEN 'pending'
+       WHEN $1 <= vote_window_end THEN 'voting'
+       ELSE 'expired'
+     END
+     WHERE NOT is_reorged
+       AND status IN ('pending', 'voting', 'expired')
+       AND status <> CASE
+         WHEN $1 < edit_window_end THEN 'pending'
+         WHEN $1 <= vote_window_end THEN 'voting'
+         ELSE 'expired'
+       END
+     RETURNING id`,
+    [timestamp]
+  );
+
+  return {
+    proposalsUpdated: proposals.rows.length,
+    suggestionsUpdated: suggestions.rows.length,
+    proposalStatuses: proposals.rows,
+  };
+}
+
+export interface ProposalTally {
+  id: string;
+  endTime: number;
+  forVotes: string;
+  againstVotes: string;
+  abstainVotes: string;
+}
+
+/**
+ * Get proposals whose voting ended before a timestamp but have no outcome yet
+ */
+export async function getProposalsPastVoting(timestamp: number): Promise<ProposalTally[]> {
+  const db = getDb();
+  const result = await db.query<{
+    id: string;
+    end_time: string;
+    for_votes: string;
+    against_votes: string;
+    abstain_votes: string;
+  }>(
+    `SELECT id, end_time, for_votes, against_votes, abstain_votes
+     FROM proposals
+     WHERE NOT is_reorged AND status IN ('pending', 'active') AND end_time < $1
+     ORDER BY end_time, id`,
+    [timestamp]
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    endTime: parseInt(row.end_time, 10),
+    forVotes: row.for_votes,
+    againstVotes: row.against_votes,
+    abstainVotes: row.abstain_votes,
+  }));
+}
+
+// =============================================================================
+// Reorg Handling
+// =============================================================================
+
+export interface ReorgStats {
+  proposalsAffected: number;
+  votesAffected: number;
+  suggestionsAffected: number;
+  suggestionVotesAffected: number;
+  slashesAffected: number;
+}
+
+/**
+ * Mark all events from a block as reorged (soft delete)
+ */
+export async function markReorgedFromBlock(fromBlock: bigint): Promise<ReorgStats> {
+  const db = getDb();
+  const result = await db.query<{
+    proposals_affected: string;
+    votes_affected: string;
+    suggestions_affected: string;
+    suggestion_votes_affected: string;
+    slashes_affected: string;
+  }>(`SELECT * FROM mark_reorged_from_block($1)`, [fromBlock.toString()]);
+
+  const row = result.rows[0];
+  return {
+    proposalsAffected: parseInt(row?.proposals_affected ?? "0", 10),
+    votesAffected: parseInt(row?.votes_affected ?? "0", 10),
+    suggestionsAffected: parseInt(row?.suggestions_affected ?? "0", 10),
+    suggestionVotesAffected: parseInt(row?.suggestion_votes_affected ?? "0", 10),
+    slashesAffected: parseInt(row?.slashes_affected ?? "0", 10),
+  };
+}
+
+export interface RecalculationStats {
+  proposalsRecalculated: number;
+  suggestionsRecalculated: number;
+  futarchyProposalsRecalculated: number;
+  tokenAccountsRecalculated: number;
+  outcomePositionsRecalculated: number;
+}
+
+/**
+ * Rebuild aggregates and event-driven statuses of every surviving proposal,
+ * suggestion and futarchy market, and the cached state of every token
+ * account and outcome position, with events reorged from a block
+ *
+ * Must run after markReorgedFromBlock, in the same transaction.
+ */
+export async function recalculateFromBlock(fromBlock: bigint): Promise<RecalculationStats> {
+  const db = getDb();
+  const result = await db.query<{
+    proposals_recalculated: string;
+    suggestions_recalculated: string;
+    futarchy_proposals_recalculated: string;
+    token_accounts_recalculated: string;
+    outcome_positions_recalculated: string;
+  }>(`SELECT * FROM recalculate_from_block($1)`, [fromBlock.toString()]);
+
+  const row = result.rows[0];
+  return {
+    proposalsRecalculated: parseInt(row?.proposals_recalculated ?? "0", 10),
+    suggestionsRecalculated: parseInt(row?.suggestions_recalculated ?? "0", 10),
+    futarchyProposalsRecalculated: parseInt(row?.futarchy_proposals_recalculated ?? "0", 10),
+    tokenAccountsRecalculated: parseInt(row?.token_accounts_recalculated ?? "0", 10),
+    outcomePositionsRecalculated: parseInt(row?.outcome_positions_recalculated ?? "0", 10),
+  };
+}
+
+// =============================================================================
+// Indexed Blocks
+// =============================================================================
+
+export interface IndexedBlockRecord {
+  number: bigint;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+}
+
+/**
+ * Record processed block headers (re-recording a block overwrites it)
+ */
+export async function insertIndexedBlocks(blocks: IndexedBlockRecord[]): Promise<void> {
+  if (blocks.length === 0) return;
+
+  const db = getDb();
+  await db.query(
+    `INSERT INTO indexed_blocks (block_number, block_hash, parent_hash, block_timestamp)
+     SELECT * FROM unnest($1::BIGINT[], $2::VARCHAR[], $3::VARCHAR[], $4::BIGINT[])
+     ON CONFLICT (block_number) DO UPDATE SET
+       block_hash = EXCLUDED.block_hash,
+       parent_hash = EXCLUDED.parent_hash,
+       block_timestamp = EXCLUDED.block_timestamp,
+       indexed_at = NOW()`,
+    [
+      blocks.map((b) => b.number.toString()),
+      blocks.map((b) => b.hash),
+      blocks.map((b) => b.parentHash),
+      blocks.map((b) => b.timestamp),
+    ]
+  );
+}
+
+/**
+ * Get the recorded hash of a processed block
+ */
+export async function getStoredBlockHash(blockNumber: bigint): Promise<string | null> {
+  const db = getDb();
+  const result = await db.query<{ block_hash: string }>(
+    `SELECT block_hash FROM indexed_blocks WHERE block_number = $1`,
+    [blockNumber.toString()]
+  );
+  return result.rows[0]?.block_hash ?? null;
+}
+
+/**
+ * Get the recorded header of a processed block
+ */
+export async function getIndexedBlock(blockNumber: bigint): Promise<IndexedBlockRecord | null> {
+  const db = getDb();
+  const result = await db.query<{
+    block_hash: string;
+    parent_hash: string;
+    block_timestamp: string;
+  }>(
+    `SELECT block_hash, parent_hash, block_timestamp FROM indexed_blocks WHERE block_number = $1`,
+    [blockNumber.toString()]
+  );
+
+  const row = result.rows[0];
+  if (!row) return null;
+  return {
+    number: blockNumber,
+    hash: row.block_hash,
+    parentHash: row.parent_hash,
+    timestamp: parseInt(row.block_timestamp, 10),
+  };
+}
+
+/**
+ * Get the highest recorded header below a block
+ */
+export async function getIndexedBlockBefore(
+  blockNumber: bigint
+): Promise<IndexedBlockRecord | null> {
+  const db = getDb();
+  const result = await db.query<{
+    block_number: string;
+    block_hash: string;
+    parent_hash: string;
+    block_timestamp: string;
+  }>(
+    `SELECT block_number::TEXT, block_hash, parent_hash, block_timestamp
+     FROM indexed_blocks
+     WHERE block_number < $1
+     ORDER BY indexed_blocks.block_number DESC
+     LIMIT 1`,
+    [blockNumber.toString()]
+  );
+
+  const row = result.rows[0];
+  if (!row) return null;
+  return {
+    number: BigInt(row.block_number),
+    hash: row.block_hash,
+    parentHash: row.parent_hash,
+    timestamp: parseInt(row.block_timestamp, 10),
+  };
+}
+
+/**
+ * Get recorded hashes for a block range, in block order
+ */
+export async function getStoredBlockHashes(
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<{ number: bigint; hash: string }[]> {
+  const db = getDb();
+  const result = await db.query<{ block_number: string; block_hash: string }>(
+    `SELECT block_number::TEXT, block_hash FROM indexed_blocks
+     WHERE block_number BETWEEN $1 AND $2
+     ORDER BY indexed_blocks.block_number`,
+    [fromBlock.toString(), toBlock.toString()]
+  );
+  return result.rows.map((row) => ({ number: BigInt(row.block_number), hash: row.block_hash }));
+}
+
+/**
+ * Forget block headers from a block onwards (after a reorg)
+ */
+export async function deleteIndexedBlocksFrom(fromBlock: bigint): Promise<number> {
+  const db = getDb();
+  const result = await db.query(
+    `DELETE FROM indexed_blocks WHERE block_number >= $1 RETURNING block_number`,
+    [fromBlock.toString()]
+  );
+  return result.rows.length;
+}
+
+/**
+ * Drop block headers older than a block; they are beyond any reorg depth
+ */
+export async function pruneIndexedBlocks(beforeBlock: bigint): Promise<void> {
+  const db = getDb();
+  await db.query(`DELETE FROM indexed_blocks WHERE block_number < $1`, [
+    beforeBlock.toString(),
+  ]);
+}
+
+// =============================================================================
+// Stream Events
+// =============================================================================
+
+export interface InsertStreamEventParams {
+  type: StreamEventType;
+  source: string;
+  proposalId: string | null;
+  addresses: string[];
+  data: StreamPayload;
+  /** Block a derived status was evaluated at; first orphaned block of a reorg event */
+  blockNumber: bigint;
+  /** Omitted for derived status and reorg events */
+  txHash?: string;
+  logIndex?: number;
+}
+
+/**
+ * Append an event to the stream log (inside the batch transaction)
+ */
+export async function insertStreamEvent(params: InsertStreamEventParams): Promise<void> {
+  const db = getDb();
+  await db.query(
+    `INSERT INTO stream_events (
+      event_type, source, proposal_id, addresses, payload, block_number, tx_hash, log_index
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+    [
+      params.type,
+      params.source,
+      params.proposalId,
+      [...new Set(params.addresses.map((address) => address.toLowerCase()))],
+      JSON.stringify(params.data),
+      params.blockNumber.toString(),
+      params.txHash ?? null,
+      params.logIndex ?? null,
+    ]
+  );
+}
+
+/**
+ * Retract the stream events of orphaned blocks and append a reorg event
+ * listing them
+ *
+ * @returns Cursors of the retracted events
+ */
+export async function retractStreamEventsFromBlock(fromBlock: bigint): Promise<string[]> {
+  const db = getDb();
+  const result = await db.query<{ id: string }>(
+    `UPDATE stream_events
+     SET is_retracted = TRUE
+     WHERE block_number >= $1 AND NOT is_retracted AND event_type <> 'reorg'
+     RETURNING id::TEXT`,
+    [fromBlock.toString()]
+  );
+  const retracted = result.rows.map((row) => row.id).sort((a, b) => Number(a) - Number(b));
+
+  await insertStreamEvent({
+    type: "reorg",
+    source: "Indexer",
+    proposalId: null,
+    addresses: [],
+    data: { fromBlock: fromBlock.toString(), retracted },
+    blockNumber: fromBlock,
+  });
+  return retracted;
+}
+
+/**
+ * Events after a cursor, oldest first
+ *
+ * Reorg events match every filter. Retracted events are skipped.
+ */
+export async function getStreamEvents(
+  after: string,
+  filter: StreamFilter,
+  limit: number
+): Promise<StreamEvent[]> {
+  const db = getDb();
+  const result = await db.query<{
+    id: string;
+    event_type: StreamEventType;
+    source: string;
+    proposal_id: string | null;
+    addresses: string[];
+    payload: StreamPayload;
+    block_number: string;
+    tx_hash: string | null;
+  }>(
+    `SELECT id::TEXT, event_type, source, proposal_id, addresses, payload,
+            block_number::TEXT, tx_hash
+     FROM stream_events
+     WHERE id > $1 AND NOT is_retracted
+       AND (event_type = 'reorg' OR (
+         ($2::TEXT IS NULL OR proposal_id = $2)
+         AND ($3::TEXT IS NULL OR LOWER($3) = ANY(addresses))
+       ))
+     ORDER BY stream_events.id
+     LIMIT $4`,
+    [after, filter.proposalId ?? null, filter.address ?? null, limit]
+  );
+
+  return result.rows.map((row) => ({
+    cursor: row.id,
+    type: row.event_type,
+    source: row.source,
+    proposalId: row.proposal_id,
+    addresses: row.addresses,
+    blockNumber: row.block_number,
+    txHash: row.tx_hash,
+    data: row.payload,
+  }));
+}
+
+/**
+ * Cursor of the newest stream event ("0" when none)
+ */
+export async function getLatestStreamCursor(): Promise<string> {
+  const db = getDb();
+  const result = await db.query<{ id: string }>(
+    `SELECT COALESCE(MAX(id), 0)::TEXT as id FROM stream_events`
+  );
+  return result.rows[0]?.id ?? "0";
+}
+
+// =============================================================================
+// Webhooks
+// =============================================================================
+
+export interface CreateWebhookSubscriptionParams {
+  url: string;
+  secret: string;
+  eventTypes: WebhookEventType[];
+  proposalId?: string;
+  address?: string;
+}
+
+interface WebhookSubscriptionRow {
+  id: number;
+  url: string;
+  event_types: WebhookEventType[];
+  proposal_id: string | null;
+  address: string | null;
+  created_at: Date;
+}
+
+function mapWebhookSubscription(row: WebhookSubscriptionRow): WebhookSubscription {
+  return {
+    id: row.id,
+    url: row.url,
+    eventTypes: row.event_types,
+    proposalId: row.proposal_id,
+    address: row.address,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+/**
+ * Create a subscription that receives events indexed from now on
+ */
+export async function createWebhookSubscription(
+  params: CreateWebhookSubscriptionParams
+): Promise<WebhookSubscription> {
+  const db = getDb();
+  const result = await db.query<WebhookSubscriptionRow>(
+    `INSERT INTO webhook_subscriptions (url, secret, event_types, proposal_id, address, last_event_id)
+     VALUES ($1, $2, $3, $4, LOWER($5), (SELECT COALESCE(MAX(id), 0) FROM stream_events))
+     RETURNING id, url, event_types, proposal_id, address, created_at`,
+    [
+      params.url,
+      params.secret,
+      params.eventTypes,
+      params.proposalId ?? null,
+      params.address ?? null,
+    ]
+  );
+  return mapWebhookSubscription(result.rows[0]!);
+}
+
+export async function getWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+  const db = getDb();
+  const result = await db.query<WebhookSubscriptionRow>(
+    `SELECT id, url, event_types, proposal_id, address, created_at
+     FROM webhook_subscriptions
+     ORDER BY id`
+  );
+  return result.rows.map(mapWebhookSubscription);
+}
+
+/**
+ * Delete a subscription with its deliveries and dead letters
+ *
+ * @returns false if the subscription does not exist
+ */
+export async function deleteWebhookSubscription(id: number): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(`DELETE FROM webhook_subscriptions WHERE id = $1 RETURNING id`, [
+    id,
+  ]);
+  return result.rows.length > 0;
+}
+
+export interface WebhookCursor {
+  subscriptionId: number;
+  eventTypes: WebhookEventType[];
+  filter: StreamFilter;
+  lastEventId: string;
+}
+
+/**
+ * Fan-out position of every subscription
+ */
+export async function getWebhookCursors(): Promise<WebhookCursor[]> {
+  const db = getDb();
+  const result = await db.query<{
+    id: number;
+    event_types: WebhookEventType[];
+    proposal_id: string | null;
+    address: string | null;
+    last_event_id: string;
+  }>(
+    `SELECT id, event_types, proposal_id, address, last_event_id::TEXT
+     FROM webhook_subscriptions
+     ORDER BY id`
+  );
+  return result.rows.map((row) => ({
+    subscriptionId: row.id,
+    eventTypes: row.event_types,
+    filter: {
+      ...(row.proposal_id !== null && { proposalId: row.proposal_id }),
+      ...(row.address !== null && { address: row.address }),
+    },
+    lastEventId: row.last_event_id,
+  }));
+}
+
+export interface EnqueueWebhookDeliveryParams {
+  subscriptionId: number;
+  streamEventId: string;
+  eventType: WebhookEventType;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Queue a delivery (ignored if the event was already queued)
+ */
+export async function enqueueWebhookDelivery(
+  params: EnqueueWebhookDeliveryParams
+): Promise<void> {
+  const db = getDb();
+  await db.query(
+    `INSERT INTO webhook_deliveries (subscription_id, stream_event_id, event_type, payload)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (subscription_id, stream_event_id, event_type) DO NOTHING`,
+    [params.subscriptionId, params.streamEventId, params.eventType, JSON.stringify(params.payload)]
+  );
+}
+
+/**
+ * Compensate a subscription's deliveries of events retracted by a reorg
+ *
+ * Deliveries not sent yet are canceled; each one already sent gets a
+ * 'retracted' delivery carrying the original event.
+ *
+ * @returns Number of retracted deliveries queued
+ */
+export async function retractWebhookDeliveries(
+  subscriptionId: number,
+  streamEventIds: string[],
+  fromBlock: string
+): Promise<number> {
+  const db = getDb();
+  await db.query(
+    `UPDATE webhook_deliveries
+     SET status = 'canceled'
+     WHERE subscription_id = $1 AND stream_event_id = ANY($2::BIGINT[])
+       AND status IN ('pending', 'dead')`,
+    [subscriptionId, streamEventIds]
+  );
+
+  const result = await db.query(
+    `INSERT INTO webhook_deliveries (subscription_id, stream_event_id, event_type, payload)
+     SELECT subscription_id, stream_event_id, 'retracted',
+            jsonb_build_object(
+              'retractedDeliveryId', id::TEXT,
+              'retractedType', event_type,
+              'fromBlock', $3::TEXT,
+              'event', payload->'event'
+            )
+     FROM webhook_deliveries
+     WHERE subscription_id = $1 AND stream_event_id = ANY($2::BIGINT[])
+       AND status = 'delivered' AND event_type <> 'retracted'
+     ON CONFLICT (subscription_id, stream_event_id, event_type) DO NOTHING
+     RETURNING id`,
+    [subscriptionId, streamEventIds, fromBlock]
+  );
+  return result.rows.length;
+}
+
+export async function advanceWebhookCursor(
+  subscriptionId: number,
+  lastEventId: string
+): Promise<void> {
+  const db = getDb();
+  await db.query(
+    `UPDATE webhook_subscriptions
+     SET last_event_id = GREATEST(last_event_id, $2::BIGINT)
+     WHERE id = $1`,
+    [subscriptionId, lastEventId]
+  );
+}
+
+export interface DueWebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  url: string;
+  secret: string;
+  eventType: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+  createdAt: string;
+}
+
+/**
+ * Pending deliveries whose next attempt is due, oldest first, taking at most
+ * `perSubscription` of each subscription's so a backlog on one endpoint does
+ * not fill the batch
+ *
+ * Deliveries queued behind one that is backing off are held back, so each
+ * subscription receives its events in order.
+ */
+export async function getDueWebhookDeliveries(
+  limit: number,
+  perSubscription: number
+): Promise<DueWebhookDelivery[]> {
+  const db = getDb();
+  const result = await db.query<{
+    id: string;
+    subscription_id: string;
+    url: string;
+    secret: string;
+    event_type: string;
+    payload: Record<string, unknown>;
+    attempts: number;
+    created_at: Date;
+  }>(
+    `SELECT d.id::TEXT, d.subscription_id::TEXT, s.url, s.secret, d.event_type, d.payload,
+            d.attempts, d.created_at
+     FROM (
+       SELECT *,
+              ROW_NUMBER() OVER (PARTITION BY subscription_id ORDER BY id) as position,
+              BOOL_AND(next_attempt_at <= NOW())
+                OVER (PARTITION BY subscription_id ORDER BY id) as due
+       FROM webhook_deliveries
+       WHERE status = 'pending'
+     ) d
+     JOIN webhook_subscriptions s ON s.id = d.subscription_id
+     WHERE d.due AND d.position <= $2
+     ORDER BY d.id
+     LIMIT $1`,
+    [limit, perSubscription]
+  );
+  return result.rows.map((row) => ({
+    id: row.id,
+    subscriptionId: row.subscription_id,
+    url: row.url,
+    secret: row.secret,
+    eventType: row.event_type,
+    payload: row.payload,
+    attempts: row.attempts,
+    createdAt: row.created_at.toISOString(),
+  }));
+}
+
+export async function markWebhookDelivered(id: string, statusCode: number): Promise<void> {
+  const db = getDb();
+  await db.query(
+    `UPDATE webhook_deliveries
+     SET status = 'delivered',
+         attempts = attempts + 1,
+         last_status_code = $2,
+         last_error = NULL,
+         delivered_at = NOW()
+     WHERE id = $1 AND status = 'pending'`,
+    [id, statusCode]
+  );
+}
+
+/**
+ * Record a failed attempt
+ *
+ * @param retryInMs - Delay before the next attempt, or null to dead-letter
+ */
+export async function markWebhookFailed(
+  id: string,
+  failure: { statusCode: number | null; error: string },
+  retryInMs: number | null
+): Promise<void> {
+  const db = getDb();
+  const result = await db.query<{ attempts: number }>(
+    `UPDATE webhook_deliveries
+     SET status = CASE WHEN $4::INTEGER IS NULL THEN 'dead' ELSE 'pending' END,
+         attempts = attempts + 1,
+         last_status_code = $2,
+         last_error = $3,
+         next_attempt_at = NOW() + make_interval(secs => COALESCE($4::INTEGER, 0) / 1000.0)
+     WHERE id = $1 AND status = 'pending'
+     RETURNING attempts`,
+    [id, failure.statusCode, failure.error, retryInMs]
+  );
+
+  const updated = result.rows[0];
+  if (updated && retryInMs === null) {
+    await db.query(
+      `INSERT INTO webhook_dead_letters (delivery_id, attempts, last_status_code, last_error)
+       VALUES ($1, $2, $3, $4)`,
+      [id, updated.attempts, failure.statusCode, failure.error]
+    );
+  }
+}
+
+/**
+ * Dead letters, newest first
+ */
+export async function getWebhookDeadLetters(
+  pagination: PaginationParams
+): Promise<PaginatedResponse<WebhookDeadLetter>> {
+  const db = getDb();
+
+  const countResult = await db.query<{ count: string }>(
+    `SELECT COUNT(*) as count FROM webhook_dead_letters`
+  );
+  const total = parseInt(countResult.rows[0]?.count ?? "0", 10);
+
+  const offset = (pagination.page - 1) * pagination.limit;
+  const dataResult = await db.query<{
+    id: number;
+    delivery_id: string;
+    subscription_id: number;
+    event_type: string;
+    attempts: number;
+    last_status_code: number | null;
+    last_error: string | null;
+    failed_at: Date;
+    redelivered_at: Date | null;
+  }>(
+    `SELECT dl.id, dl.delivery_id::TEXT, d.subscription_id, d.event_type, dl.attempts,
+            dl.last_status_code, dl.last_error, dl.failed_at, dl.redelivered_at
+     FROM webhook_dead_letters dl
+     JOIN webhook_deliveries d ON d.id = dl.delivery_id
+     ORDER BY dl.id DESC
+     LIMIT $1 OFFSET $2`,
+    [pagination.limit, offset]
+  );
+
+  return {
+    data: dataResult.rows.map((row) => ({
+      id: row.id,
+      deliveryId: row.delivery_id,
+      subscriptionId: row.subscription_id,
+      eventType: row.event_type,
+      attempts: row.attempts,
+      lastStatusCode: row.last_status_code,
+      lastError: row.last_error,
+      failedAt: row.failed_at.toISOString(),
+      redeliveredAt: row.redelivered_at?.toISOString() ?? null,
+    })),
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages: Math.ceil(total / pagination.limit),
+    },
+  };
+}
+
+/**
+ * Queue a dead-lettered delivery again with a fresh set of attempts
+ *
+ * @returns null if the dead letter does not exist, false if its delivery is
+ *   no longer dead (already redelivered or canceled by a reorg)
+ */
+export async function redeliverWebhookDeadLetter(id: number): Promise<boolean | null> {
+  return withTransaction(async () => {
+    const db = getDb();
+    const letter = await db.query<{ delivery_id: string }>(
+      `SELECT delivery_id::TEXT FROM webhook_dead_letters WHERE id = $1`,
+      [id]
+    );
+    const deliveryId = letter.rows[0]?.delivery_id;
+    if (deliveryId === undefined) {
+      return null;
+    }
+
+    const requeued = await db.query(
+      `UPDATE webhook_deliveries
+       SET status = 'pending', attempts = 0, next_attempt_at = NOW()
+       WHERE id = $1 AND status = 'dead'
+       RETURNING id`,
+      [deliveryId]
+    );
+    if (requeued.rows.length === 0) {
+      return false;
+    }
+
+    await db.query(`UPDATE webhook_dead_letters SET redelivered_at = NOW() WHERE id = $1`, [id]);
+    return true;
+  });
+}
+
+// =============================================================================
+// Search
+// =============================================================================
+
+/** Delimiters ts_headline puts around matches, swapped for <mark> after escaping */
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+
+/**
+ * Searchable rows of each result type, matched against the search_query CTE
+ */
+const SEARCH_SOURCES: Record<SearchResultType, string> = {
+  proposal: `
+    SELECT 'proposal' as type, p.id, p.id as proposal_id, p.title,
+           p.title || ' ' || p.description as body, ts_rank(p.search_vector, q.query) as rank,
+           p.block_number, p.created_at
+    FROM proposals p, search_query q
+    WHERE p.search_vector @@ q.query AND NOT p.is_reorged`,
+  suggestion: `
+    SELECT 'suggestion' as type, s.id, s.proposal_id, p.title,
+           s.proposed_text as body, ts_rank(s.search_vector, q.query) as rank,
+           s.block_number, s.created_at
+    FROM edit_suggestions s
+    CROSS JOIN search_query q
+    LEFT JOIN proposals p ON p.id = s.proposal_id AND NOT p.is_reorged
+    WHERE s.search_vector @@ q.query AND NOT s.is_reorged`,
+  vote: `
+    SELECT 'vote' as type, v.tx_hash || ':' || v.log_index as id, v.proposal_id, p.title,
+           v.reason as body, ts_rank(v.search_vector, q.query) as rank,
+           v.block_number, v.created_at
+    FROM votes v
+    CROSS JOIN search_query q
+    LEFT JOIN proposals p ON p.id = v.proposal_id AND NOT p.is_reorged
+    WHERE v.search_vector @@ q.query AND NOT v.is_reorged`,
+  futarchy: `
+    SELECT 'futarchy' as type, f.id, f.id as proposal_id, NULL as title,
+           f.description as body, ts_rank(f.search_vector, q.query) as rank,
+           f.block_number, f.created_at
+    FROM futarchy_proposals f, search_query q
+    WHERE f.search_vector @@ q.query AND NOT f.is_reorged`,
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Full-text search over proposals, edit suggestions, vote reasons and
+ * futarchy descriptions, best match first
+ *
+ * The query uses web search syntax ("quoted phrases", or, -excluded).
+ * Snippets are only highlighted for the returned page.
+ */
+export async function searchGovernance(
+  query: string,
+  pagination: PaginationParams,
+  types = Object.keys(SEARCH_SOURCES) as SearchResultType[]
+): Promise<PaginatedResponse<SearchResult>> {
+  const db = getDb();
+  const sources = types.map((type) => SEARCH_SOURCES[type]).join(" UNION ALL ");
+  const offset = (pagination.page - 1) * pagination.limit;
+  const searchQuery = `WITH search_query AS (
+       SELECT websearch_to_tsquery('english', $1) as query
+     )`;
+
+  const countResult = await db.query<{ count: string }>(
+    `${searchQuery}
+     SELECT COUNT(*) as count FROM (${sources}) matches`,
+    [query]
+  );
+  const total = parseInt(countResult.rows[0]?.count ?? "0", 10);
+
+  const result = await db.query<{
+    type: SearchResultType;
+    id: string;
+    proposal_id: string;
+    title: string | null;
+    snippet: string;
+    rank: number;
+    block_number: string;
+    created_at: Date;
+  }>(
+    `${searchQuery},
+     page AS (
+       SELECT matches.*
+       FROM (${sources}) matches
+       ORDER BY rank DESC, matches.block_number DESC, id
+       LIMIT $2 OFFSET $3
+     )
+     SELECT page.type, page.id, page.proposal_id, page.title,
+            ts_headline('english', page.body, q.query,
+              'StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=35, MinWords=15, MaxFragments=2'
+            ) as snippet,
+            page.rank, page.block_number::TEXT, page.created_at
+     FROM page, search_query q
+     ORDER BY page.rank DESC, page.block_number DESC, page.id`,
+    [query, pagination.limit, offset]
+  );
+
+  return {
+    data: result.rows.map((row) => ({
+      type: row.type,
+      id: row.id,
+      proposalId: row.proposal_id,
+      title: row.title,
+      snippet: escapeHtml(row.snippet)
+        .replaceAll(MATCH_START, "<mark>")
+        .replaceAll(MATCH_END, "</mark>"),
+      rank: row.rank,
+      blockNumber: row.block_number,
+      createdAt: row.created_at.toISOString(),
+    })),
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages: Math.ceil(total / pagination.limit),
+    },
+  };
+}
+
+// =============================================================================
+// Statistics
+// =============================================================================
+
+/**
+ * Get governance statistics
+ */
+export async function getStats(): Promise<GovernanceStats> {
+  const db = getDb();
+
+  const result = await db.query<{
+    total_proposals: string;
+    active_proposals: string;
+    total_votes: string;
+    unique_voters: string;
+    total_staked: string;
+    total_slashed: string;
+  }>(`
+    SELECT
+      (SELECT COUNT(*) FROM proposals WHERE NOT is_reorged) as total_proposals,
+      (SELECT COUNT(*) FROM proposals WHERE NOT is_reorged AND status = 'active') as active_proposals,
+      (SELECT COUNT(*) FROM votes WHERE NOT is_reorged) as total_votes,
+      (SELECT COUNT(DISTINCT voter) FROM votes WHERE NOT is_reorged) as unique_voters,
+      (SELECT COALESCE(SUM(stake_amount::NUMERIC), 0)::TEXT FROM proposals WHERE NOT is_reorged) as total_staked,
+      (SELECT COALESCE(SUM(slashed_amount::NUMERIC), 0)::TEXT FROM slashes WHERE NOT is_reorged) as total_slashed
+  `);
+
+  const row = result.rows[0]!;
+  const totalProposals = parseInt(row.total_proposals, 10);
+  const totalVotes = parseInt(row.total_votes, 10);
+
+  return {
+    totalProposals,
+    activeProposals: parseInt(row.active_proposals, 10),
+    totalVotes,
+    uniqueVoters: parseInt(row.unique_voters, 10),
+    totalStaked: row.total_staked,
+    totalSlashed: row.total_slashed,
+    participationRate: totalProposals > 0 ? totalVotes / totalProposals : 0,
+  };
+}
+
+// =============================================================================
+// Transaction Helper
+// =============================================================================
+
+/**
+ * Execute a function within a database transaction
+ *
+ * Checks out a dedicated connection for the duration of the transaction.
+ * Nested calls join the outer transaction.
+ */
+export async function withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+  if (transactionScope.getStore()) {
+    return fn();
+  }
+  if (!pool) {
+    throw new Error("Database not initialized. Call initDb() first.");
+  }
+
+  const session = await pool.connect();
+  try {
+    await session.query("BEGIN");
+    const result = await transactionScope.run(session, fn);
+    await session.query("COMMIT");
+    session.release();
+    return result;
+  } catch (error) {
+    try {
+      await session.query("ROLLBACK");
+      session.release();
+    } catch (rollbackError) {
+      // Connection is in an unknown state; destroy it rather than reuse it
+      session.release(rollbackError as Error);
+    }
+    throw error;
+  }
+}
+
+// =============================================================================
+// Futarchy Treasury Operations
+// =============================================================================
+
+export interface InsertFutarchyProposalParams {
+  id: string;
+  proposer: string;
+  descriptionHash: string;
+  /** Text behind descriptionHash; left pending for the backfill when omitted */
+  description?: string;
+  amount: string;
+  recipient: string;
+  passMarketId: string;
+  failMarketId: string;
+  marketEndTime: number;
+  resolutionTime: number;
+  txHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  blockHash: string;
+  blockTimestamp: number;
+}
+
+/**
+ * Insert futarchy proposal with idempotency (revives reorged rows, see insertProposal)
+ */
+export async function insertFutarchyProposal(
+  params: InsertFutarchyProposalParams
+): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO futarchy_proposals (
+      id, proposer, description_hash, amount, recipient,
+      pass_market_id, fail_market_id, market_end_time, resolution_time, status,
+      tx_hash, log_index, block_number, block_hash, block_timestamp, description,
+      description_status
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+    ON CONFLICT (id) DO UPDATE SET
+       proposer = EXCLUDED.proposer,
+       description_hash = EXCLUDED.description_hash,
+       description = EXCLUDED.description,
+       description_status = EXCLUDED.description_status,
+       description_attempts = 0,
+       description_error = NULL,
+       description_next_attempt_at = NOW(),
+       amount = EXCLUDED.amount,
+       recipient = EXCLUDED.recipient,
+       pass_market_id = EXCLUDED.pass_market_id,
+       fail_market_id = EXCLUDED.fail_market_id,
+       market_end_time = EXCLUDED.market_end_time,
+       resolution_time = EXCLUDED.resolution_time,
+       status = EXCLUDED.status,
+       yes_price = DEFAULT,
+       no_price = DEFAULT,
+       final_yes_price = NULL,
+       final_no_price = NULL,
+       passed = NULL,
+       total_yes_volume = '0',
+       total_no_volume = '0',
+       total_trades = 0,
+       resolved_at = NULL,
+       closing_pass_price = NULL,
+       closing_fail_price = NULL,
+       closed_at = NULL,
+       emergency_resolved = FALSE,
+       executed_at = NULL,
+       executed_target = NULL,
+       executed_amount = NULL,
+       rejected_at = NULL,
+       canceled_at = NULL,
+       stake_returned = NULL,
+       total_redeemed = '0',
+       tx_hash = EXCLUDED.tx_hash,
+       log_index = EXCLUDED.log_index,
+       block_number = EXCLUDED.block_number,
+       block_hash = EXCLUDED.block_hash,
+       block_timestamp = EXCLUDED.block_timestamp,
+       is_reorged = FALSE,
+       reorged_at = NULL
+     WHERE futarchy_proposals.is_reorged
+    RETURNING id`,
+    [
+      params.id,
+      params.proposer,
+      params.descriptionHash,
+      params.amount,
+      params.recipient,
+      params.passMarketId,
+      params.failMarketId,
+      params.marketEndTime,
+      params.resolutionTime,
+      "active" as FutarchyProposalStatus,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+      params.description ?? null,
+      (params.description !== undefined ? "fetched" : "pending") as FutarchyDescriptionStatus,
+    ]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Text already fetched for a description hash, so replays and proposals
+ * sharing a description do not go back to the gateway
+ */
+export async function getFetchedFutarchyDescription(
+  descriptionHash: string
+): Promise<string | null> {
+  const db = getDb();
+  const result = await db.query<{ description: string }>(
+    `SELECT description FROM futarchy_proposals
+     WHERE description_hash = $1 AND description_status = 'fetched'
+     LIMIT 1`,
+    [descriptionHash]
+  );
+  return result.rows[0]?.description ?? null;
+}
+
+export interface DueFutarchyDescription {
+  id: string;
+  descriptionHash: `0x${string}`;
+  attempts: number;
+}
+
+/**
+ * Futarchy proposals whose description is pending or failed and due for a
+ * fetch, oldest attempt first
+ */
+export async function getDueFutarchyDescriptions(
+  limit: number
+): Promise<DueFutarchyDescription[]> {
+  const db = getDb();
+  const result = await db.query<{
+    id: string;
+    description_hash: `0x${string}`;
+    description_attempts: number;
+  }>(
+    `SELECT id, description_hash, description_attempts
+     FROM futarchy_proposals
+     WHERE description_status <> 'fetched' AND NOT is_reorged
+       AND description_next_attempt_at <= NOW()
+     ORDER BY description_next_attempt_at, id
+     LIMIT $1`,
+    [limit]
+  );
+  return result.rows.map((row) => ({
+    id: row.id,
+    descriptionHash: row.description_hash,
+    attempts: row.description_attempts,
+  }));
+}
+
+/**
+ * Store a fetched description
+ *
+ * Matches on the hash too, so a row re-created by a reorg with another
+ * description is left alone.
+ */
+export async function setFutarchyDescription(
+  id: string,
+  descriptionHash: string,
+  description: string
+): Promise<void> {
+  const db = getDb();
+  await db.query(
+    `UPDATE futarchy_proposals
+     SET description = $3,
+         description_status = 'fetched',
+         description_attempts = description_attempts + 1,
+         description_error = NULL
+     WHERE id = $1 AND description_hash = $2 AND description_status <> 'fetched'`,
+    [id, descriptionHash, description]
+  );
+}
+
+/**
+ * Record a failed description fetch and schedule the next one
+ */
+export async function markFutarchyDescriptionFailed(
+  id: string,
+  descriptionHash: string,
+  error: string,
+  retryInMs: number
+): Promise<void> {
+  const db = getDb();
+  await db.query(
+    `UPDATE futarchy_proposals
+     SET description_status = 'failed',
+         description_attempts = description_attempts + 1,
+         description_error = $3,
+         description_next_attempt_at = NOW() + make_interval(secs => $4::INTEGER / 1000.0)
+     WHERE id = $1 AND description_hash = $2 AND description_status <> 'fetched'`,
+    [id, descriptionHash, error, retryInMs]
+  );
+}
+
+export interface InsertFutarchyTradeParams {
+  proposalId: string;
+  trader: string;
+  isYes: boolean;
+  /** Sells record tokens sold as amountIn and collateral received as amountOut */
+  isBuy: boolean;
+  amountIn: string;
+  amountOut: string;
+  newPrice: string;
+  txHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  blockHash: string;
+  blockTimestamp: number;
+}
+
+/**
+ * Insert futarchy trade with idempotency and update proposal prices/volumes
+ */
+export async function insertFutarchyTrade(
+  params: InsertFutarchyTradeParams
+): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO futarchy_trades (
+      proposal_id, trader, is_yes, is_buy, amount_in, amount_out, new_price,
+      tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.proposalId,
+      params.trader,
+      params.isYes,
+      params.isBuy,
+      params.amountIn,
+      params.amountOut,
+      params.newPrice,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+
+  if (result.rows.length > 0) {
+    // Update proposal price and volume (collateral traded in either direction)
+    const priceColumn = params.isYes ? "yes_price" : "no_price";
+    const volumeColumn = params.isYes ? "total_yes_volume" : "total_no_volume";
+    const collateral = params.isBuy ? params.amountIn : params.amountOut;
+
+    await db.query(
+      `UPDATE futarchy_proposals
+       SET ${priceColumn} = $2,
+           ${volumeColumn} = (${volumeColumn}::NUMERIC + $3::NUMERIC)::TEXT,
+           total_trades = total_trades + 1
+       WHERE id = $1 AND NOT is_reorged`,
+      [params.proposalId, params.newPrice, collateral]
+    );
+
+    for (const seconds of Object.values(CANDLE_INTERVALS)) {
+      await applyTradeToCandle(params, seconds, collateral);
+    }
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Fold a trade into its bucket of one candle interval
+ *
+ * Trades arrive in chain order, so the first trade of a bucket sets the open
+ * and each later one the close.
+ */
+async function applyTradeToCandle(
+  params: InsertFutarchyTradeParams,
+  seconds: number,
+  volume: string
+): Promise<void> {
+  const db = getDb();
+  await db.query(
+    `INSERT INTO futarchy_candles (
+      proposal_id, is_pass, interval_seconds, bucket_start,
+      open, high, low, close, volume, trades, updated_block
+    ) VALUES ($1, $2, $3, $4, $5, $5, $5, $5, $6, 1, $7)
+    ON CONFLICT (proposal_id, is_pass, interval_seconds, bucket_start) DO UPDATE SET
+      high = GREATEST(futarchy_candles.high::NUMERIC, EXCLUDED.high::NUMERIC)::VARCHAR(78),
+      low = LEAST(futarchy_candles.low::NUMERIC, EXCLUDED.low::NUMERIC)::VARCHAR(78),
+      close = EXCLUDED.close,
+      volume = (futarchy_candles.volume::NUMERIC + EXCLUDED.volume::NUMERIC)::VARCHAR(78),
+      trades = futarchy_candles.trades + 1,
+      updated_block = EXCLUDED.updated_block,
+      updated_at = NOW()`,
+    [
+      params.proposalId,
+      params.isYes,
+      seconds,
+      params.blockTimestamp - (params.blockTimestamp % seconds),
+      params.newPrice,
+      volume,
+      params.blockNumber.toString(),
+    ]
+  );
+}
+
+export interface InsertFutarchyResolutionParams {
+  proposalId: string;
+  passed: boolean;
+  /** Null for emergency resolutions, which fall back to the closing prices */
+  yesPrice: string | null;
+  noPrice: string | null;
+  /** Set for EmergencyResolution */
+  guardian?: string;
+  txHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  blockHash: string;
+  blockTimestamp: number;
+}
+
+/**
+ * Insert futarchy resolution (market or emergency) with idempotency and
+ * update proposal status
+ */
+export async function insertFutarchyResolution(
+  params: InsertFutarchyResolutionParams
+): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO futarchy_resolutions (
+      proposal_id, passed, yes_price, no_price, emergency, guardian,
+      tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.proposalId,
+      params.passed,
+      params.yesPrice,
+      params.noPrice,
+      params.guardian !== undefined,
+      params.guardian ?? null,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+
+  if (result.rows.length > 0) {
+    // Update proposal with resolution details
+    await db.query(
+      `UPDATE futarchy_proposals
+       SET status = 'resolved',
+           passed = $2,
+           final_yes_price = COALESCE($3, closing_pass_price),
+           final_no_price = COALESCE($4, closing_fail_price),
+           emergency_resolved = $5,
+           resolved_at = to_timestamp($6)
+       WHERE id = $1 AND NOT is_reorged`,
+      [
+        params.proposalId,
+        params.passed,
+        params.yesPrice,
+        params.noPrice,
+        params.guardian !== undefined,
+        params.blockTimestamp,
+      ]
+    );
+    return true;
+  }
+  return false;
+}
+
+export interface InsertFutarchyRedemptionParams {
+  proposalId: string;
+  user: string;
+  amount: string;
+  tokensRedeemed: string;
+  txHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  blockHash: string;
+  blockTimestamp: number;
+}
+
+/**
+ * Insert futarchy redemption with idempotency and update total redeemed
+ */
+export async function insertFutarchyRedemption(
+  params: InsertFutarchyRedemptionParams
+): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO futarchy_redemptions (
+      proposal_id, user_address, amount, tokens_redeemed,
+      tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.proposalId,
+      params.user,
+      params.amount,
+      params.tokensRedeemed,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+
+  if (result.rows.length > 0) {
+    await db.query(
+      `UPDATE futarchy_proposals
+       SET total_redeemed = (total_redeemed::NUMERIC + $2::NUMERIC)::TEXT
+       WHERE id = $1 AND NOT is_reorged`,
+      [params.proposalId, params.amount]
+    );
+    return true;
+  }
+  return false;
+}
+
+export interface InsertFutarchyClosureParams extends InsertEventParams {
+  passPrice: string;
+  failPrice: string;
+}
+
+/**
+ * Insert futarchy trading closure with idempotency and record closing prices
+ */
+export async function insertFutarchyClosure(
+  params: InsertFutarchyClosureParams
+): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO futarchy_trading_closures (
+      proposal_id, pass_price, fail_price,
+      tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.proposalId,
+      params.passPrice,
+      params.failPrice,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+
+  if (result.rows.length > 0) {
+    await db.query(
+      `UPDATE futarchy_proposals
+       SET status = 'closed',
+           closing_pass_price = $2,
+           closing_fail_price = $3,
+           closed_at = to_timestamp($4)
+       WHERE id = $1 AND NOT is_reorged`,
+      [params.proposalId, params.passPrice, params.failPrice, params.blockTimestamp]
+    );
+    return true;
+  }
+  return false;
+}
+
+export interface InsertFutarchyExecutionParams extends InsertEventParams {
+  target: string;
+  amount: string;
+}
+
+/**
+ * Insert futarchy execution with idempotency and record the transfer
+ */
+export async function insertFutarchyExecution(
+  params: InsertFutarchyExecutionParams
+): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO futarchy_executions (
+      proposal_id, target, amount,
+      tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.proposalId,
+      params.target,
+      params.amount,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+
+  if (result.rows.length > 0) {
+    await db.query(
+      `UPDATE futarchy_proposals
+       SET status = 'executed',
+           executed_target = $2,
+           executed_amount = $3,
+           executed_at = to_timestamp($4)
+       WHERE id = $1 AND NOT is_reorged`,
+      [params.proposalId, params.target, params.amount, params.blockTimestamp]
+    );
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Insert futarchy rejection (FAIL won) with idempotency
+ */
+export async function insertFutarchyRejection(params: InsertEventParams): Promise<boolean> {
+  return insertFutarchyStatusEvent(
+    "futarchy_rejections",
+    "rejected" as FutarchyProposalStatus,
+    "rejected_at",
+    params
+  );
+}
+
+/**
+ * Insert futarchy cancellation with idempotency
+ */
+export async function insertFutarchyCancellation(params: InsertEventParams): Promise<boolean> {
+  return insertFutarchyStatusEvent(
+    "futarchy_cancellations",
+    "canceled" as FutarchyProposalStatus,
+    "canceled_at",
+    params
+  );
+}
+
+/**
+ * Record an event that only moves a futarchy proposal to a terminal status
+ */
+async function insertFutarchyStatusEvent(
+  table: "futarchy_rejections" | "futarchy_cancellations",
+  status: FutarchyProposalStatus,
+  timestampColumn: "rejected_at" | "canceled_at",
+  params: InsertEventParams
+): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO ${table} (
+      proposal_id, tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.proposalId,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+
+  if (result.rows.length > 0) {
+    await db.query(
+      `UPDATE futarchy_proposals
+       SET status = $2, ${timestampColumn} = to_timestamp($3)
+       WHERE id = $1 AND NOT is_reorged`,
+      [params.proposalId, status, params.blockTimestamp]
+    );
+    return true;
+  }
+  return false;
+}
+
+export interface InsertFutarchyStakeReturnParams extends InsertEventParams {
+  proposer: string;
+  amount: string;
+}
+
+/**
+ * Insert futarchy proposer stake return with idempotency
+ */
+export async function insertFutarchyStakeReturn(
+  params: InsertFutarchyStakeReturnParams
+): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO futarchy_stake_returns (
+      proposal_id, proposer, amount,
+      tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.proposalId,
+      params.proposer,
+      params.amount,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+
+  if (result.rows.length > 0) {
+    await db.query(
+      `UPDATE futarchy_proposals SET stake_returned = $2 WHERE id = $1 AND NOT is_reorged`,
+      [params.proposalId, params.amount]
+    );
+    return true;
+  }
+  return false;
+}
+
+export type InsertTestModeChangeParams = Omit<InsertEventParams, "proposalId"> & {
+  enabled: boolean;
+};
+
+/**
+ * Insert FutarchyTreasury test mode toggle with idempotency
+ */
+export async function insertFutarchyTestModeChange(
+  params: InsertTestModeChangeParams
+): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO futarchy_test_mode_changes (
+      enabled, tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.enabled,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+  return result.rows.length > 0;
+}
+
+// =============================================================================
+// Futarchy Treasury Queries
+// =============================================================================
+
+/**
+ * Get futarchy proposals with pagination
+ */
+export async function getFutarchyProposals(
+  pagination: PaginationParams,
+  filters?: { status?: FutarchyProposalStatus; recipient?: string }
+): Promise<PaginatedResponse<FutarchyProposalListItem>> {
+  const db = getDb();
+  const conditions: string[] = ["NOT is_reorged"];
+  const params: unknown[] = [];
+
+  if (filters?.status) {
+    params.push(filters.status);
+    conditions.push(`status = $${params.length}`);
+  }
+  if (filters?.recipient) {
+    params.push(filters.recipient.toLowerCase());
+    conditions.push(`LOWER(recipient) = $${params.length}`);
+  }
+
+  const whereClause = conditions.join(" AND ");
+
+  // Get total count
+  const countResult = await db.query<{ count: string }>(
+    `SELECT COUNT(*) as count FROM futarchy_proposals WHERE ${whereClause}`,
+    params
+  );
+  const total = parseInt(countResult.rows[0]?.count ?? "0", 10);
+
+  // Get paginated results
+  const offset = (pagination.page - 1) * pagination.limit;
+  const dataResult = await db.query<{
+    id: string;
+    proposer: string;
+    description: string | null;
+    description_hash: string;
+    description_status: FutarchyDescriptionStatus;
+    amount: string;
+    recipient: string;
+    market_end_time: string;
+    status: FutarchyProposalStatus;
+    yes_price: string;
+    no_price: string;
+    total_trades: number;
+    created_at: Date;
+  }>(
+    `SELECT id, proposer, description, description_hash, description_status, amount,
+            recipient, market_end_time::TEXT, status, yes_price, no_price, total_trades, created_at
+     FROM futarchy_proposals
+     WHERE ${whereClause}
+     ORDER BY block_number DESC
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, pagination.limit, offset]
+  );
+
+  return {
+    data: dataResult.rows.map((row) => ({
+      id: row.id,
+      proposer: row.proposer,
+      description: row.description,
+      descriptionHash: row.description_hash,
+      descriptionStatus: row.description_status,
+      amount: row.amount,
+      recipient: row.recipient,
+      marketEndTime: parseInt(row.market_end_time, 10),
+      status: row.status,
+      yesPrice: row.yes_price,
+      noPrice: row.no_price,
+      totalTrades: row.total_trades,
+      createdAt: row.created_at.toISOString(),
+    })),
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages: Math.ceil(total / pagination.limit),
+    },
+  };
+}
+
+/**
+ * Get single futarchy proposal by ID
+ */
+export async function getFutarchyProposalById(
+  id: string
+): Promise<FutarchyProposalDetail | null> {
+  const [proposal] = await getFutarchyProposalsByIds([id]);
+  return proposal ?? null;
+}
+
+/**
+ * Get trades for a futarchy proposal
+ */
+export async function getFutarchyTradesByProposal(
+  proposalId: string,
+  pagination: PaginationParams
+): Promise<PaginatedResponse<FutarchyTradeListItem>> {
+  const db = getDb();
+
+  const countResult = await db.query<{ count: string }>(
+    `SELECT COUNT(*) as count FROM futarchy_trades
+     WHERE proposal_id = $1 AND NOT is_reorged`,
+    [proposalId]
+  );
+  const total = parseInt(countResult.rows[0]?.count ?? "0", 10);
+
+  const offset = (pagination.page - 1) * pagination.limit;
+  const dataResult = await db.query<{
+    proposal_id: string;
+    trader: string;
+    is_yes: boolean;
+    is_buy: boolean;
+    amount_in: string;
+    amount_out: string;
+    new_price: string;
+    tx_hash: string;
+    block_number: string;
+    created_at: Date;
+  }>(
+    `SELECT proposal_id, trader, is_yes, is_buy, amount_in, amount_out, new_price,
+            tx_hash, block_number::TEXT, created_at
+     FROM futarchy_trades
+     WHERE proposal_id = $1 AND NOT is_reorged
+     ORDER BY block_number DESC, log_index DESC
+     LIMIT $2 OFFSET $3`,
+    [proposalId, pagination.limit, offset]
+  );
+
+  return {
+    data: dataResult.rows.map((row) => ({
+      proposalId: row.proposal_id,
+      trader: row.trader,
+      isYes: row.is_yes,
+      isBuy: row.is_buy,
+      amountIn: row.amount_in,
+      amountOut: row.amount_out,
+      newPrice: row.new_price,
+      txHash: row.tx_hash,
+      blockNumber: row.block_number,
+      createdAt: row.created_at.toISOString(),
+    })),
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages: Math.ceil(total / pagination.limit),
+    },
+  };
+}
+
+/**
+ * Get current prices for a futarchy proposal
+ */
+export async function getFutarchyPrices(
+  proposalId: string
+): Promise<FutarchyPriceData | null> {
+  const db = getDb();
+
+  // Get proposal data
+  const proposalResult = await db.query<{
+    id: string;
+    yes_price: string;
+    no_price: string;
+    market_end_time: string;
+    status: FutarchyProposalStatus;
+  }>(
+    `SELECT id, yes_price, no_price, market_end_time::TEXT, status
+     FROM futarchy_proposals
+     WHERE id = $1 AND NOT is_reorged`,
+    [proposalId]
+  );
+
+  if (proposalResult.rows.length === 0) {
+    return null;
+  }
+
+  const proposal = proposalResult.rows[0]!;
+
+  // Get last trade timestamp
+  const lastTradeResult = await db.query<{ created_at: Date }>(
+    `SELECT created_at FROM futarchy_trades
+     WHERE proposal_id = $1 AND NOT is_reorged
+     ORDER BY block_number DESC, log_index DESC
+     LIMIT 1`,
+    [proposalId]
+  );
+
+  const yesPrice = BigInt(proposal.yes_price);
+  const impliedProbability = Number(yesPrice * 100n / BigInt("1000000000000000000"));
+  const marketEndTime = parseInt(proposal.market_end_time, 10);
+  const now = Math.floor(Date.now() / 1000);
+
+  return {
+    proposalId: proposal.id,
+    yesPrice: proposal.yes_price,
+    noPrice: proposal.no_price,
+    impliedProbability,
+    lastTradeAt: lastTradeResult.rows[0]?.created_at.toISOString() ?? null,
+    marketEndTime,
+    isActive: proposal.status === "active" && marketEndTime > now,
+  };
+}
+
+/**
+ * Get OHLCV candles of a futarchy proposal's PASS or FAIL market
+ *
+ * Buckets without trades are omitted. `from` / `to` select buckets that
+ * overlap the range.
+ *
+ * @returns null if the futarchy proposal does not exist
+ */
+export async function getFutarchyCandles(
+  proposalId: string,
+  market: "pass" | "fail",
+  interval: CandleInterval,
+  range: { from?: number; to?: number } = {}
+): Promise<FutarchyCandles | null> {
+  const db = getDb();
+  const exists = await db.query(
+    `SELECT 1 FROM futarchy_proposals WHERE id = $1 AND NOT is_reorged`,
+    [proposalId]
+  );
+  if (exists.rows.length === 0) {
+    return null;
+  }
+
+  const result = await db.query<{
+    bucket_start: string;
+    open: string;
+    high: string;
+    low: string;
+    close: string;
+    volume: string;
+    trades: number;
+  }>(
+    `SELECT bucket_start::TEXT, open, high, low, close, volume, trades
+     FROM futarchy_candles
+     WHERE proposal_id = $1 AND is_pass = $2 AND interval_seconds = $3
+       AND ($4::BIGINT IS NULL OR futarchy_candles.bucket_start + interval_seconds > $4::BIGINT)
+       AND ($5::BIGINT IS NULL OR futarchy_candles.bucket_start <= $5::BIGINT)
+     ORDER BY futarchy_candles.bucket_start`,
+    [
+      proposalId,
+      market === "pass",
+      CANDLE_INTERVALS[interval],
+      range.from ?? null,
+      range.to ?? null,
+    ]
+  );
+
+  return {
+    proposalId,
+    market,
+    interval,
+    candles: result.rows.map((row) => ({
+      timestamp: parseInt(row.bucket_start, 10),
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+      volume: row.volume,
+      trades: row.trades,
+    })),
+  };
+}
+
+/**
+ * Get treasury statistics
+ */
+export async function getTreasuryStats(): Promise<TreasuryStats> {
+  const db = getDb();
+
+  const result = await db.query<{
+    total_proposals: string;
+    active_proposals: string;
+    total_volume: string;
+    total_trades: string;
+    proposals_passed: string;
+    proposals_failed: string;
+    total_allocated: string;
+    total_redeemed: string;
+    test_mode: boolean | null;
+  }>(`
+    SELECT
+      (SELECT COUNT(*) FROM futarchy_proposals WHERE NOT is_reorged) as total_proposals,
+      (SELECT COUNT(*) FROM futarchy_proposals WHERE NOT is_reorged AND status = 'active') as active_proposals,
+      (SELECT COALESCE(SUM(CASE WHEN is_buy THEN amount_in ELSE amount_out END::NUMERIC), 0)::TEXT
+       FROM futarchy_trades WHERE NOT is_reorged) as total_volume,
+      (SELECT COUNT(*) FROM futarchy_trades WHERE NOT is_reorged) as total_trades,
+      (SELECT COUNT(*) FROM futarchy_proposals WHERE NOT is_reorged AND passed = true) as proposals_passed,
+      (SELECT COUNT(*) FROM futarchy_proposals WHERE NOT is_reorged AND passed = false) as proposals_failed,
+      (SELECT COALESCE(SUM(executed_amount::NUMERIC), 0)::TEXT FROM futarchy_proposals WHERE NOT is_reorged AND status = 'executed') as total_allocated,
+      (SELECT COALESCE(SUM(total_redeemed::NUMERIC), 0)::TEXT FROM futarchy_proposals WHERE NOT is_reorged) as total_redeemed,
+      (SELECT enabled FROM futarchy_test_mode_changes WHERE NOT is_reorged
+       ORDER BY block_number DESC, log_index DESC LIMIT 1) as test_mode
+  `);
+
+  const row = result.rows[0]!;
+  return {
+    totalProposals: parseInt(row.total_proposals, 10),
+    activeProposals: parseInt(row.active_proposals, 10),
+    totalVolume: row.total_volume,
+    totalTrades: parseInt(row.total_trades, 10),
+    proposalsPassed: parseInt(row.proposals_passed, 10),
+    proposalsFailed: parseInt(row.proposals_failed, 10),
+    totalAllocated: row.total_allocated,
+    totalRedeemed: row.total_redeemed,
+    testMode: row.test_mode ?? false,
+  };
+}
+
+// =============================================================================
+// Futarchy AMM Operations
+// =============================================================================
+
+type AmmEventParams = Omit<InsertEventParams, "proposalId">;
+
+export type InsertAmmMarketParams = AmmEventParams & {
+  id: string;
+  proposalId: string;
+  isPass: boolean;
+  liquidity: string;
+};
+
+/**
+ * Insert AMM market with idempotency (revives reorged rows, see insertProposal)
+ */
+export async function insertAmmMarket(params: InsertAmmMarketParams): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO amm_markets (
+      id, proposal_id, is_pass, liquidity,
+      tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    ON CONFLICT (id) DO UPDATE SET
+       proposal_id = EXCLUDED.proposal_id,
+       is_pass = EXCLUDED.is_pass,
+       liquidity = EXCLUDED.liquidity,
+       tx_hash = EXCLUDED.tx_hash,
+       log_index = EXCLUDED.log_index,
+       block_number = EXCLUDED.block_number,
+       block_hash = EXCLUDED.block_hash,
+       block_timestamp = EXCLUDED.block_timestamp,
+       is_reorged = FALSE,
+       reorged_at = NULL
+     WHERE amm_markets.is_reorged
+    RETURNING id`,
+    [
+      params.id,
+      params.proposalId,
+      params.isPass,
+      params.liquidity,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+  return result.rows.length > 0;
+}
+
+export type InsertAmmTradeParams = AmmEventParams & {
+  marketId: string;
+  isBuy: boolean;
+  isYes: boolean;
+  tokens: string;
+  collateral: string;
+};
+
+/**
+ * Insert AMM trade (TokensBought / TokensSold) with idempotency
+ */
+export async function insertAmmTrade(params: InsertAmmTradeParams): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO amm_trades (
+      market_id, is_buy, is_yes, tokens, collateral,
+      tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.marketId,
+      params.isBuy,
+      params.isYes,
+      params.tokens,
+      params.collateral,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+  return result.rows.length > 0;
+}
+
+export type InsertAmmMarketClosureParams = AmmEventParams & {
+  marketId: string;
+  finalYesPrice: string;
+  finalNoPrice: string;
+};
+
+/**
+ * Insert AMM market closure with idempotency
+ */
+export async function insertAmmMarketClosure(
+  params: InsertAmmMarketClosureParams
+): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO amm_market_closures (
+      market_id, final_yes_price, final_no_price,
+      tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.marketId,
+      params.finalYesPrice,
+      params.finalNoPrice,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Rebuild the PASS and FAIL market TWAPs of a futarchy proposal
+ *
+ * Each market is evaluated at `from`, at every trade or close within the
+ * range, and at `to`. Defaults: `from` is the earliest market creation, `to`
+ * the latest indexed block.
+ *
+ * @returns null if the futarchy proposal does not exist
+ */
+export async function getFutarchyTwap(
+  proposalId: string,
+  range: { from?: number; to?: number } = {}
+): Promise<FutarchyTwapSeries | null> {
+  const db = getDb();
+  const proposal = await db.query<{ pass_market_id: string; fail_market_id: string }>(
+    `SELECT pass_market_id, fail_market_id
+     FROM futarchy_proposals
+     WHERE id = $1 AND NOT is_reorged`,
+    [proposalId]
+  );
+  const ids = proposal.rows[0];
+  if (!ids) {
+    return null;
+  }
+
+  const markets = await db.query<{
+    id: string;
+    is_pass: boolean;
+    liquidity: string;
+    block_timestamp: string;
+    final_yes_price: string | null;
+    final_no_price: string | null;
+    closed_at: string | null;
+  }>(
+    `SELECT m.id, m.is_pass, m.liquidity, m.block_timestamp::TEXT,
+            c.final_yes_price, c.final_no_price, c.block_timestamp::TEXT AS closed_at
+     FROM amm_markets m
+     LEFT JOIN LATERAL (
+       SELECT final_yes_price, final_no_price, block_timestamp
+       FROM amm_market_closures
+       WHERE market_id = m.id AND NOT is_reorged
+       ORDER BY block_number, log_index
+       LIMIT 1
+     ) c ON TRUE
+     WHERE m.id IN ($1, $2) AND m.proposal_id = $3 AND NOT m.is_reorged`,
+    [ids.pass_market_id, ids.fail_market_id, proposalId]
+  );
+
+  const events = await db.query<{
+    market_id: string;
+    is_buy: boolean | null;
+    is_yes: boolean | null;
+    tokens: string | null;
+    block_timestamp: string;
+  }>(
+    `SELECT market_id, is_buy, is_yes, tokens, block_timestamp::TEXT
+     FROM (
+       SELECT market_id, is_buy, is_yes, tokens, block_number, log_index, block_timestamp
+       FROM amm_trades
+       WHERE market_id IN ($1, $2) AND NOT is_reorged
+       UNION ALL
+       SELECT market_id, NULL, NULL, NULL, block_number, log_index, block_timestamp
+       FROM amm_market_closures
+       WHERE market_id IN ($1, $2) AND NOT is_reorged
+     ) market_events
+     ORDER BY market_events.block_number, market_events.log_index`,
+    [ids.pass_market_id, ids.fail_market_id]
+  );
+
+  let to = range.to;
+  if (to === undefined) {
+    const latest = await db.query<{ block_timestamp: string | null }>(
+      `SELECT MAX(block_timestamp)::TEXT AS block_timestamp FROM indexed_blocks`
+    );
+    to = parseInt(latest.rows[0]?.block_timestamp ?? "0", 10);
+  }
+  const from =
+    range.from ??
+    Math.min(to, ...markets.rows.map((m) => parseInt(m.block_timestamp, 10)));
+
+  const series = (marketId: string): AmmMarketTwap | null => {
+    const market = markets.rows.find((m) => m.id === marketId);
+    if (!market) return null;
+
+    const marketEvents: AmmMarketEvent[] = events.rows
+      .filter((e) => e.market_id === marketId)
+      .map((e) => {
+        const delta = e.tokens === null ? 0n : BigInt(e.tokens) * (e.is_buy ? 1n : -1n);
+        return {
+          timestamp: BigInt(e.block_timestamp),
+          deltaYes: e.is_yes ? delta : 0n,
+          deltaNo: e.is_yes ? 0n : delta,
+        };
+      });
+    const timestamps =
+      from > to
+        ? []
+        : [
+            ...new Set([
+              from,
+              ...marketEvents
+                .map((e) => Number(e.timestamp))
+                .filter((t) => t > from && t < to),
+              to,
+            ]),
+          ].map(BigInt);
+
+    return {
+      marketId: market.id,
+      isPass: market.is_pass,
+      liquidity: market.liquidity,
+      createdAt: parseInt(market.block_timestamp, 10),
+      closedAt: market.closed_at === null ? null : parseInt(market.closed_at, 10),
+      finalYesPrice: market.final_yes_price,
+      finalNoPrice: market.final_no_price,
+      points: buildTwapSeries(
+        BigInt(market.liquidity),
+        BigInt(market.block_timestamp),
+        marketEvents,
+        timestamps
+      ),
+    };
+  };
+
+  return {
+    proposalId,
+    from,
+    to,
+    windowSeconds: Number(DEFAULT_TWAP_WINDOW),
+    pass: series(ids.pass_market_id),
+    fail: series(ids.fail_market_id),
+  };
+}
+
+// =============================================================================
+// KLED Token Operations
+// =============================================================================
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+type TokenEventParams = Omit<InsertEventParams, "proposalId">;
+
+export type InsertTokenTransferParams = TokenEventParams & {
+  from: string;
+  to: string;
+  value: string;
+};
+
+/**
+ * Insert KLED transfer with idempotency
+ *
+ * Also checkpoints the resulting balance of both parties; the zero address
+ * (mint source, burn sink) is not tracked as a holder.
+ */
+export async function insertTokenTransfer(params: InsertTokenTransferParams): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO token_transfers (
+      from_address, to_address, value,
+      tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.from,
+      params.to,
+      params.value,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+
+  if (result.rows.length > 0) {
+    // A self-transfer nets to zero but still checkpoints once
+    const deltas = new Map<string, bigint>();
+    const value = BigInt(params.value);
+    if (params.from !== ZERO_ADDRESS) {
+      deltas.set(params.from, -value);
+    }
+    if (params.to !== ZERO_ADDRESS) {
+      deltas.set(params.to, (deltas.get(params.to) ?? 0n) + value);
+    }
+
+    for (const [address, delta] of deltas) {
+      await applyBalanceChange(address, delta, params);
+    }
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Add a transfer's delta to a holder and checkpoint the new balance
+ */
+async function applyBalanceChange(
+  address: string,
+  delta: bigint,
+  params: TokenEventParams
+): Promise<void> {
+  const db = getDb();
+  const holder = await db.query<{ balance: string }>(
+    `INSERT INTO token_holders (address, balance, updated_block)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (address) DO UPDATE SET
+       balance = (token_holders.balance::NUMERIC + EXCLUDED.balance::NUMERIC)::VARCHAR(78),
+       updated_block = EXCLUDED.updated_block,
+       updated_at = NOW()
+     RETURNING balance`,
+    [address, delta.toString(), params.blockNumber.toString()]
+  );
+
+  await db.query(
+    `INSERT INTO token_balance_checkpoints (
+      address, balance, tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      address,
+      holder.rows[0]!.balance,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+}
+
+export type InsertDelegationParams = TokenEventParams & {
+  delegator: string;
+  fromDelegate: string;
+  toDelegate: string;
+};
+
+/**
+ * Insert KLED delegation change with idempotency
+ */
+export async function insertDelegation(params: InsertDelegationParams): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO token_delegations (
+      delegator, from_delegate, to_delegate,
+      tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.delegator,
+      params.fromDelegate,
+      params.toDelegate,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+
+  if (result.rows.length > 0) {
+    await db.query(
+      `INSERT INTO token_holders (address, delegate, updated_block)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (address) DO UPDATE SET
+         delegate = EXCLUDED.delegate,
+         updated_block = EXCLUDED.updated_block,
+         updated_at = NOW()`,
+      [params.delegator, params.toDelegate, params.blockNumber.toString()]
+    );
+    return true;
+  }
+  return false;
+}
+
+export type InsertVotingPowerCheckpointParams = TokenEventParams & {
+  delegate: string;
+  previousVotes: string;
+  newVotes: string;
+};
+
+/**
+ * Insert KLED voting power checkpoint (DelegateVotesChanged) with idempotency
+ */
+export async function insertVotingPowerCheckpoint(
+  params: InsertVotingPowerCheckpointParams
+): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO voting_power_checkpoints (
+      delegate, previous_votes, new_votes,
+      tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.delegate,
+      params.previousVotes,
+      params.newVotes,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+
+  if (result.rows.length > 0) {
+    await db.query(
+      `INSERT INTO token_delegates (address, voting_power, updated_block)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (address) DO UPDATE SET
+         voting_power = EXCLUDED.voting_power,
+         updated_block = EXCLUDED.updated_block,
+         updated_at = NOW()`,
+      [params.delegate, params.newVotes, params.blockNumber.toString()]
+    );
+    return true;
+  }
+  return false;
+}
+
+export type InsertTokenMintParams = TokenEventParams & {
+  to: string;
+  amount: string;
+};
+
+/**
+ * Insert KLED owner mint with idempotency
+ *
+ * Balances come from the accompanying Transfer; this only records the mint.
+ */
+export async function insertTokenMint(params: InsertTokenMintParams): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO token_mints (
+      to_address, amount, tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.to,
+      params.amount,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+  return result.rows.length > 0;
+}
+
+export type InsertMintingLockParams = TokenEventParams & {
+  locker: string;
+  totalSupplyAtLock: string;
+};
+
+/**
+ * Insert KLED minting lock with idempotency
+ */
+export async function insertMintingLock(params: InsertMintingLockParams): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO token_minting_locks (
+      locker, total_supply_at_lock, tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.locker,
+      params.totalSupplyAtLock,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+  return result.rows.length > 0;
+}
+
+// =============================================================================
+// KLED Token Queries
+// =============================================================================
+
+/**
+ * Get KLED holders by balance, either current or as of a past timestamp
+ *
+ * @param at - Unix timestamp; balances and delegates from the last
+ *   checkpoints at or before it. Omit for the latest indexed state.
+ */
+export async function getTokenHolders(
+  pagination: PaginationParams,
+  at?: number
+): Promise<PaginatedResponse<TokenHolderListItem>> {
+  const db = getDb();
+  const params: unknown[] = [];
+
+  let source = `SELECT address, balance, delegate FROM token_holders`;
+  if (at !== undefined) {
+    params.push(at);
+    source = `
+      SELECT b.address, b.balance, (
+        SELECT d.to_delegate FROM token_delegations d
+        WHERE d.delegator = b.address AND NOT d.is_reorged AND d.block_timestamp <= $1
+        ORDER BY d.block_number DESC, d.log_index DESC
+        LIMIT 1
+      ) as delegate
+      FROM (
+        SELECT DISTINCT ON (address) address, balance
+        FROM token_balance_checkpoints
+        WHERE NOT is_reorged AND block_timestamp <= $1
+        ORDER BY address, block_number DESC, log_index DESC
+      ) b`;
+  }
+
+  const countResult = await db.query<{ count: string }>(
+    `SELECT COUNT(*) as count FROM (${source}) h WHERE h.balance::NUMERIC > 0`,
+    params
+  );
+  const total = parseInt(countResult.rows[0]?.count ?? "0", 10);
+
+  const offset = (pagination.page - 1) * pagination.limit;
+  const dataResult = await db.query<{
+    address: string;
+    balance: string;
+    delegate: string | null;
+  }>(
+    `SELECT h.address, h.balance, h.delegate
+     FROM (${source}) h
+     WHERE h.balance::NUMERIC > 0
+     ORDER BY h.balance::NUMERIC DESC, h.address
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, pagination.limit, offset]
+  );
+
+  return {
+    data: dataResult.rows.map((row) => ({
+      address: row.address,
+      balance: row.balance,
+      delegate: row.delegate,
+    })),
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages: Math.ceil(total / pagination.limit),
+    },
+  };
+}
+
+/**
+ * Get an account's balance, delegate and voting power, either current or as
+ * of a past timestamp (what balanceOf/delegates/getPastVotes returned then)
+ */
+export async function getTokenAccount(
+  address: string,
+  at?: number
+): Promise<TokenAccountSnapshot> {
+  const db = getDb();
+  const result = await db.query<{
+    balance: string | null;
+    delegate: string | null;
+    voting_power: string | null;
+  }>(
+    `SELECT
+      (SELECT balance FROM token_balance_checkpoints
+       WHERE LOWER(address) = $1 AND NOT is_reorged
+         AND ($2::BIGINT IS NULL OR block_timestamp <= $2::BIGINT)
+       ORDER BY block_number DESC, log_index DESC LIMIT 1) as balance,
+      (SELECT to_delegate FROM token_delegations
+       WHERE LOWER(delegator) = $1 AND NOT is_reorged
+         AND ($2::BIGINT IS NULL OR block_timestamp <= $2::BIGINT)
+       ORDER BY block_number DESC, log_index DESC LIMIT 1) as delegate,
+      (SELECT new_votes FROM voting_power_checkpoints
+       WHERE LOWER(delegate) = $1 AND NOT is_reorged
+         AND ($2::BIGINT IS NULL OR block_timestamp <= $2::BIGINT)
+       ORDER BY block_number DESC, log_index DESC LIMIT 1) as voting_power`,
+    [address.toLowerCase(), at ?? null]
+  );
+
+  const row = result.rows[0];
+  return {
+    address,
+    timestamp: at ?? null,
+    balance: row?.balance ?? "0",
+    delegate: row?.delegate ?? null,
+    votingPower: row?.voting_power ?? "0",
+  };
+}
+
+/**
+ * Get KLED supply and minting statistics
+ */
+export async function getTokenStats(): Promise<TokenStats> {
+  const db = getDb();
+  const result = await db.query<{
+    total_supply: string;
+    holders: string;
+    total_minted: string;
+    supply_at_lock: string | null;
+    locked_at: string | null;
+  }>(`
+    SELECT
+      (SELECT COALESCE(SUM(balance::NUMERIC), 0)::TEXT FROM token_holders) as total_supply,
+      (SELECT COUNT(*) FROM token_holders WHERE balance::NUMERIC > 0) as holders,
+      (SELECT COALESCE(SUM(amount::NUMERIC), 0)::TEXT FROM token_mints WHERE NOT is_reorged) as total_minted,
+      ml.total_supply_at_lock as supply_at_lock,
+      ml.block_timestamp::TEXT as locked_at
+    FROM (SELECT 1) one
+    LEFT JOIN (
+      SELECT total_supply_at_lock, block_timestamp FROM token_minting_locks
+      WHERE NOT is_reorged
+      ORDER BY block_number, log_index
+      LIMIT 1
+    ) ml ON TRUE
+  `);
+
+  const row = result.rows[0]!;
+  return {
+    totalSupply: row.total_supply,
+    holders: parseInt(row.holders, 10),
+    totalMinted: row.total_minted,
+    mintingLocked: row.locked_at !== null,
+    supplyAtLock: row.supply_at_lock,
+    lockedAt: row.locked_at ? new Date(parseInt(row.locked_at, 10) * 1000).toISOString() : null,
+  };
+}
+
+// =============================================================================
+// Outcome Token Operations
+// =============================================================================
+
+type OutcomeTokenEventParams = Omit<InsertEventParams, "proposalId">;
+
+export type InsertOutcomeTokenMintParams = OutcomeTokenEventParams & {
+  proposalId: string;
+  to: string;
+  isPass: boolean;
+  tokenId: string;
+  amount: string;
+};
+
+/**
+ * Insert OutcomeTokensMinted with idempotency
+ *
+ * Balances move with the ERC-1155 transfer of the same mint; this row maps
+ * the token id to its proposal and outcome.
+ */
+export async function insertOutcomeTokenMint(
+  params: InsertOutcomeTokenMintParams
+): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO outcome_token_mints (
+      proposal_id, to_address, is_pass, token_id, amount,
+      tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.proposalId,
+      params.to,
+      params.isPass,
+      params.tokenId,
+      params.amount,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+  return result.rows.length > 0;
+}
+
+export type InsertOutcomeTokenBurnParams = OutcomeTokenEventParams & {
+  proposalId: string;
+  from: string;
+  isPass: boolean;
+  tokenId: string;
+  amount: string;
+};
+
+/**
+ * Insert OutcomeTokensBurned with idempotency
+ */
+export async function insertOutcomeTokenBurn(
+  params: InsertOutcomeTokenBurnParams
+): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO outcome_token_burns (
+      proposal_id, from_address, is_pass, token_id, amount,
+      tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.proposalId,
+      params.from,
+      params.isPass,
+      params.tokenId,
+      params.amount,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+  return result.rows.length > 0;
+}
+
+export type InsertOutcomeTokenTransferParams = OutcomeTokenEventParams & {
+  operator: string;
+  from: string;
+  to: string;
+  tokenId: string;
+  value: string;
+  batchIndex: number; // Position within a TransferBatch, 0 for TransferSingle
+};
+
+/**
+ * Insert one ERC-1155 outcome token transfer with idempotency
+ *
+ * Also moves the balance of both positions; the zero address (mint source,
+ * burn sink) is not tracked.
+ */
+export async function insertOutcomeTokenTransfer(
+  params: InsertOutcomeTokenTransferParams
+): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO outcome_token_transfers (
+      operator, from_address, to_address, token_id, value, batch_index,
+      tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    ON CONFLICT (tx_hash, log_index, batch_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.operator,
+      params.from,
+      params.to,
+      params.tokenId,
+      params.value,
+      params.batchIndex,
+      params.txHash,
+      params.logIndex,
+      params.blockNumber.toString(),
+      params.blockHash,
+      params.blockTimestamp,
+    ]
+  );
+
+  if (result.rows.length === 0) {
+    return false;
+  }
+
+  // A self-transfer nets to zero
+  const deltas = new Map<string, bigint>();
+  const value = BigInt(params.value);
+  if (params.from !== ZERO_ADDRESS) {
+    deltas.set(params.from, -value);
+  }
+  if (params.to !== ZERO_ADDRESS) {
+    deltas.set(params.to, (deltas.get(params.to) ?? 0n) + value);
+  }
+
+  for (const [account, delta] of deltas) {
+    await db.query(
+      `INSERT INTO outcome_positions (account, token_id, balance, updated_block)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (account, token_id) DO UPDATE SET
+         balance = (outcome_positions.balance::NUMERIC + EXCLUDED.balance::NUMERIC)::VARCHAR(78),
+         updated_block = EXCLUDED.updated_block,
+         updated_at = NOW()`,
+      [account, params.tokenId, delta.toString(), params.blockNumber.toString()]
+    );
+  }
+  return true;
+}
+
+// =============================================================================
+// Outcome Position Queries
+// =============================================================================
+
+/** Open positions of $1 joined with the proposal and side of their token */
+const POSITIONS_FROM = `outcome_positions op
+     JOIN LATERAL (
+       SELECT proposal_id, is_pass FROM outcome_token_mints
+       WHERE token_id = op.token_id AND NOT is_reorged
+       LIMIT 1
+     ) m ON TRUE`;
+
+const POSITIONS_WHERE = `LOWER(op.account) = LOWER($1) AND op.balance::NUMERIC > 0`;
+
+/**
+ * Open outcome positions of an account with their average entry price
+ *
+ * Entry prices come from the same average-cost replay as the account's PnL,
+ * run over the page's proposals only.
+ */
+export async function getAccountPositions(
+  address: string,
+  pagination: PaginationParams = { page: 1, limit: 20 }
+): Promise<AccountPositions> {
+  const db = getDb();
+  const offset = (pagination.page - 1) * pagination.limit;
+
+  const countResult = await db.query<{ count: string }>(
+    `SELECT COUNT(*) as count FROM ${POSITIONS_FROM} WHERE ${POSITIONS_WHERE}`,
+    [address]
+  );
+  const total = parseInt(countResult.rows[0]?.count ?? "0", 10);
+
+  const result = await db.query<{
+    proposal_id: string;
+    is_pass: boolean;
+    token_id: string;
+    balance: string;
+  }>(
+    `SELECT m.proposal_id, m.is_pass, op.token_id, op.balance
+     FROM ${POSITIONS_FROM}
+     WHERE ${POSITIONS_WHERE}
+     ORDER BY m.proposal_id::NUMERIC DESC, m.is_pass DESC
+     LIMIT $2 OFFSET $3`,
+    [address, pagination.limit, offset]
+  );
+
+  const { events, marks } = await loadPnlEvents({
+    traders: [address],
+    proposalIds: [...new Set(result.rows.map((row) => row.proposal_id))],
+  });
+  const entries = entryPrices(computePnl(events, marks));
+
+  return {
+    address,
+    positions: result.rows.map((row) => ({
+      proposalId: row.proposal_id,
+      isPass: row.is_pass,
+      tokenId: row.token_id,
+      balance: row.balance,
+      ...(entries.get(`${address.toLowerCase()}:${row.proposal_id}:${row.is_pass}`) ??
+        NO_ENTRY),
+    })),
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages: Math.ceil(total / pagination.limit),
+    },
+  };
+}
+
+/**
+ * Holders of a futarchy proposal's PASS and FAIL tokens by balance
+ *
+ * @returns null if the futarchy proposal does not exist
+ */
+export async function getOutcomeHolders(
+  proposalId: string,
+  pagination: PaginationParams
+): Promise<PaginatedResponse<OutcomeHolderListItem> | null> {
+  const db = getDb();
+  const exists = await db.query(
+    `SELECT 1 FROM futarchy_proposals WHERE id = $1 AND NOT is_reorged`,
+    [proposalId]
+  );
+  if (exists.rows.length === 0) {
+    return null;
+  }
+
+  const passTokenId = outcomeTokenId(BigInt(proposalId), true);
+  const failTokenId = outcomeTokenId(BigInt(proposalId), false);
+
+  const countResult = await db.query<{ count: string }>(
+    `SELECT COUNT(*) as count FROM outcome_positions
+     WHERE token_id IN ($1, $2) AND balance::NUMERIC > 0`,
+    [passTokenId, failTokenId]
+  );
+  const total = parseInt(countResult.rows[0]?.count ?? "0", 10);
+
+  const offset = (pagination.page - 1) * pagination.limit;
+  const dataResult = await db.query<{
+    account: string;
+    token_id: string;
+    balance: string;
+  }>(
+    `SELECT op.account, op.token_id, op.balance
+     FROM outcome_positions op
+     WHERE op.token_id IN ($1, $2) AND op.balance::NUMERIC > 0
+     ORDER BY op.balance::NUMERIC DESC, op.account, op.token_id
+     LIMIT $3 OFFSET $4`,
+    [passTokenId, failTokenId, pagination.limit, offset]
+  );
+
+  const { events, marks } = await loadPnlEvents({
+    traders: dataResult.rows.map((row) => row.account),
+    proposalIds: [proposalId],
+  });
+  const entries = entryPrices(computePnl(events, marks));
+
+  return {
+    data: dataResult.rows.map((row) => {
+      const isPass = row.token_id === passTokenId;
+      return {
+        address: row.account,
+        isPass,
+        tokenId: row.token_id,
+        balance: row.balance,
+        ...(entries.get(`${row.account.toLowerCase()}:${proposalId}:${isPass}`) ?? NO_ENTRY),
+      };
+    }),
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages: Math.ceil(total / pagination.limit),
+    },
+  };
+}
+
+// =============================================================================
+// Futarchy PnL Queries
+// =============================================================================
+
+/**
+ * Load trades and redemptions in chain order with their proposals' marks
+ *
+ * Redemptions pay out the winning outcome, so their side is the proposal's
+ * resolution. Either filter may be omitted.
+ */
+async function loadPnlEvents(filter: {
+  traders?: string[];
+  proposalIds?: string[];
+}): Promise<{ events: PnlEvent[]; marks: Map<string, PnlMark> }> {
+  const db = getDb();
+  const result = await db.query<{
+    kind: PnlEvent["kind"];
+    trader: string;
+    proposal_id: string;
+    is_pass: boolean;
+    tokens: string;
+    kled: string;
+    yes_price: string;
+    no_price: string;
+    passed: boolean | null;
+  }>(
+    `SELECT e.kind, e.trader, e.proposal_id, COALESCE(e.is_pass, fp.passed) as is_pass,
+            e.tokens, e.kled, fp.yes_price, fp.no_price, fp.passed
+     FROM (
+       SELECT CASE WHEN is_buy THEN 'buy' ELSE 'sell' END as kind,
+              trader, proposal_id, is_yes as is_pass,
+              CASE WHEN is_buy THEN amount_out ELSE amount_in END as tokens,
+              CASE WHEN is_buy THEN amount_in ELSE amount_out END as kled,
+              block_number, log_index
+       FROM futarchy_trades
+       WHERE NOT is_reorged
+       UNION ALL
+       SELECT 'redeem', user_address, proposal_id, NULL,
+              tokens_redeemed, amount, block_number, log_index
+       FROM futarchy_redemptions
+       WHERE NOT is_reorged
+     ) e
+     JOIN futarchy_proposals fp ON fp.id = e.proposal_id AND NOT fp.is_reorged
+     WHERE ($1::TEXT[] IS NULL OR LOWER(e.trader) = ANY($1::TEXT[]))
+       AND ($2::TEXT[] IS NULL OR e.proposal_id = ANY($2::TEXT[]))
+       AND COALESCE(e.is_pass, fp.passed) IS NOT NULL
+     ORDER BY e.block_number, e.log_index`,
+    [
+      filter.traders?.map((trader) => trader.toLowerCase()) ?? null,
+      filter.proposalIds ?? null,
+    ]
+  );
+
+  const marks = new Map<string, PnlMark>();
+  const events = result.rows.map((row): PnlEvent => {
+    marks.set(row.proposal_id, {
+      passPrice: BigInt(row.yes_price),
+      failPrice: BigInt(row.no_price),
+      passed: row.passed,
+    });
+    return {
+      kind: row.kind,
+      trader: row.trader,
+      proposalId: row.proposal_id,
+      isPass: row.is_pass,
+      tokens: BigInt(row.tokens),
+      kled: BigInt(row.kled),
+    };
+  });
+  return { events, marks };
+}
+
+type PositionEntry = Pick<OutcomePosition, "tokensBought" | "costBasis" | "avgEntryPrice">;
+
+/** Entry fields of a position the account never traded */
+const NO_ENTRY: PositionEntry = { tokensBought: "0", costBasis: "0", avgEntryPrice: null };
+
+/**
+ * Entry fields of replayed positions by "trader:proposalId:isPass"
+ */
+function entryPrices(pnl: Map<string, PnlPosition[]>): Map<string, PositionEntry> {
+  const entries = new Map<string, PositionEntry>();
+  for (const [trader, positions] of pnl) {
+    for (const position of positions) {
+      entries.set(`${trader}:${position.proposalId}:${position.isPass}`, {
+        tokensBought: position.tokensBought,
+        costBasis: position.costBasis,
+        avgEntryPrice: position.avgEntryPrice,
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Realized and unrealized PnL of an account across futarchy proposals
+ */
+export async function getAccountPnl(address: string): Promise<AccountPnl> {
+  const { events, marks } = await loadPnlEvents({ traders: [address] });
+  const positions = computePnl(events, marks).get(address.toLowerCase()) ?? [];
+  return { address, ...sumPnl(positions), positions };
+}
+
+/**
+ * Traders of a futarchy proposal ranked by total PnL
+ *
+ * @returns null if the futarchy proposal does not exist
+ */
+export async function getProposalPnlLeaderboard(
+  proposalId: string,
+  pagination: PaginationParams
+): Promise<PaginatedResponse<PnlLeaderboardItem> | null> {
+  const db = getDb();
+  const exists = await db.query(
+    `SELECT 1 FROM futarchy_proposals WHERE id = $1 AND NOT is_reorged`,
+    [proposalId]
+  );
+  if (exists.rows.length === 0) {
+    return null;
+  }
+
+  const { events, marks } = await loadPnlEvents({ proposalIds: [proposalId] });
+  const ranked = [...computePnl(events, marks)]
+    .map(([address, positions]) => ({ address, ...sumPnl(positions), positions }))
+    .sort((a, b) => {
+      const diff = BigInt(b.totalPnl) - BigInt(a.totalPnl);
+      if (diff !== 0n) return diff > 0n ? 1 : -1;
+      return a.address < b.address ? -1 : 1;
+    });
+
+  const offset = (pagination.page - 1) * pagination.limit;
+  return {
+    data: ranked.slice(offset, offset + pagination.limit),
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total: ranked.length,
+      totalPages: Math.ceil(ranked.length / pagination.limit),
+    },
+  };
+}
+
+// =============================================================================
+// Account Queries
+// =============================================================================
+
+/**
+ * Everything indexed for an address: authored proposals, votes, edit
+ * suggestions and their votes, futarchy trades, open positions, redemptions
+ * and current token state
+ *
+ * All sections are read in one REPEATABLE READ transaction, so they reflect
+ * the same indexer checkpoint even while a batch is being committed. Votes,
+ * suggestion votes, trades, positions and redemptions hold their first
+ * `limit` rows, with the cursor or page count to read the rest.
+ */
+export async function getAccountPortfolio(
+  address: string,
+  limit = 20
+): Promise<AccountPortfolio> {
+  return withTransaction(async () => {
+    const db = getDb();
+    await db.query(`SET TRANSACTION ISOLATION LEVEL REPEATABLE READ, READ ONLY`);
+
+    const checkpoint = await getCheckpoint();
+    const token = await getTokenAccount(address);
+
+    const proposals = await db.query<{
+      id: string;
+      proposer: string;
+      title: string;
+      status: ProposalStatus;
+      start_time: string;
+      end_time: string;
+      for_votes: string;
+      against_votes: string;
+      abstain_votes: string;
+      stake_amount: string;
+      slashed_amount: string | null;
+      created_at: Date;
+    }>(
+      `SELECT id, proposer, title, status, start_time::TEXT, end_time::TEXT,
+              for_votes, against_votes, abstain_votes, stake_amount, slashed_amount,
+              created_at
+       FROM proposals
+       WHERE LOWER(proposer) = LOWER($1) AND NOT is_reorged
+       ORDER BY block_number DESC`,
+      [address]
+    );
+
+    const suggestions = await db.query<{
+      id: string;
+      proposal_id: string;
+      suggester: string;
+      proposed_text: string;
+      status: SuggestionStatus;
+      for_votes: string;
+      against_votes: string;
+      vote_window_end: string;
+      finalized_at: Date | null;
+      stake_returned: string | null;
+      stake_slashed: boolean | null;
+      created_at: Date;
+    }>(
+      `SELECT id, proposal_id, suggester, proposed_text, status,
+              for_votes, against_votes, vote_window_end::TEXT,
+              finalized_at, stake_returned, stake_slashed, created_at
+       FROM edit_suggestions
+       WHERE LOWER(suggester) = LOWER($1) AND NOT is_reorged
+       ORDER BY block_number DESC, log_index DESC`,
+      [address]
+    );
+
+    const first = { limit };
+    const votes = await getVotesByVoterAfter(address, first);
+    const suggestionVotes = await getSuggestionVotesByVoterAfter(address, first);
+    const futarchyTrades = await getFutarchyTradesByTraderAfter(address, first);
+    const positions = await getAccountPositions(address, { page: 1, limit });
+    const redemptions = await getFutarchyRedemptionsByUserAfter(address, first);
+
+    return {
+      address,
+      indexedBlock: checkpoint?.lastIndexedBlock ?? null,
+      balance: token.balance,
+      delegate: token.delegate,
+      votingPower: token.votingPower,
+      proposals: proposals.rows.map((row) => ({
+        id: row.id,
+        proposer: row.proposer,
+        title: row.title,
+        status: row.status,
+        startTime: parseInt(row.start_time, 10),
+        endTime: parseInt(row.end_time, 10),
+        forVotes: row.for_votes,
+        againstVotes: row.against_votes,
+        abstainVotes: row.abstain_votes,
+        stakeAmount: row.stake_amount,
+        slashedAmount: row.slashed_amount,
+        createdAt: row.created_at.toISOString(),
+      })),
+      votes,
+      suggestions: suggestions.rows.map((s) => ({
+        id: s.id,
+        proposalId: s.proposal_id,
+        suggester: s.suggester,
+        proposedText: s.proposed_text,
+        status: s.status,
+        forVotes: s.for_votes,
+        againstVotes: s.against_votes,
+        voteWindowEnd: parseInt(s.vote_window_end, 10),
+        finalizedAt: s.finalized_at?.toISOString() ?? null,
+        stakeReturned: s.stake_returned,
+        stakeSlashed: s.stake_slashed,
+        createdAt: s.created_at.toISOString(),
+      })),
+      suggestionVotes,
+      futarchyTrades,
+      positions: { data: positions.positions, pagination: positions.pagination },
+      redemptions,
+    };
+  });
+}
+
+// =============================================================================
+// Delegate Queries
+// =============================================================================
+
+/**
+ * Per-delegate aggregates over token_delegates
+ *
+ * Participation is the share of eligible proposals the delegate voted on.
+ * A proposal is eligible once it has started and its snapshot is no earlier
+ * than the delegate's first voting power checkpoint (or the delegate voted
+ * on it anyway).
+ */
+const DELEGATE_STATS_SQL = `
+  SELECT s.*,
+         CASE WHEN s.eligible_proposals > 0
+              THEN s.votes_cast::NUMERIC / s.eligible_proposals
+              ELSE 0 END as participation
+  FROM (
+    SELECT d.address, d.voting_power,
+      (SELECT COUNT(*) FROM token_holders h WHERE h.delegate = d.address) as delegator_count,
+      (SELECT COUNT(DISTINCT v.proposal_id) FROM votes v
+       WHERE LOWER(v.voter) = LOWER(d.address) AND NOT v.is_reorged) as votes_cast,
+      (SELECT COUNT(*) FROM proposals p
+       WHERE NOT p.is_reorged AND p.status <> 'pending' AND (
+         p.snapshot_timestamp >= (
+           SELECT MIN(c.block_timestamp) FROM voting_power_checkpoints c
+           WHERE c.delegate = d.address AND NOT c.is_reorged
+         )
+         OR EXISTS (
+           SELECT 1 FROM votes v
+           WHERE v.proposal_id = p.id AND LOWER(v.voter) = LOWER(d.address) AND NOT v.is_reorged
+         )
+       )) as eligible_proposals
+    FROM token_delegates d
+  ) s`;
+
+interface DelegateStatsRow {
+  address: string;
+  voting_power: string;
+  delegator_count: string;
+  votes_cast: string;
+  participation: string;
+}
+
+const DELEGATE_SORT_COLUMNS: Record<DelegateSortField, string> = {
+  votingPower: "voting_power::NUMERIC",
+  delegators: "delegator_count",
+  votesCast: "votes_cast",
+  participation: "participation",
+};
+
+function mapDelegateStats(row: DelegateStatsRow): DelegateListItem {
+  return {
+    address: row.address,
+    votingPower: row.voting_power,
+    delegatorCount: parseInt(row.delegator_count, 10),
+    votesCast: parseInt(row.votes_cast, 10),
+    // Percentage, two decimals
+    participationRate: Math.round(parseFloat(row.participation) * 10_000) / 100,
+  };
+}
+
+/**
+ * Get delegates with voting power, sorted descending by the given field
+ */
+export async function getDelegates(
+  pagination: PaginationParams,
+  sort: DelegateSortField = "votingPower"
+): Promise<PaginatedResponse<DelegateListItem>> {
+  const db = getDb();
+
+  const countResult = await db.query<{ count: string }>(
+    `SELECT COUNT(*) as count FROM token_delegates WHERE voting_power::NUMERIC > 0`
+  );
+  const total = parseInt(countResult.rows[0]?.count ?? "0", 10);
+
+  const offset = (pagination.page - 1) * pagination.limit;
+  const dataResult = await db.query<DelegateStatsRow>(
+    `SELECT address, voting_power, delegator_count, votes_cast, participation::TEXT
+     FROM (${DELEGATE_STATS_SQL}) stats
+     WHERE voting_power::NUMERIC > 0
+     ORDER BY ${DELEGATE_SORT_COLUMNS[sort]} DESC, voting_power::NUMERIC DESC, address
+     LIMIT $1 OFFSET $2`,
+    [pagination.limit, offset]
+  );
+
+  return {
+    data: dataResult.rows.map(mapDelegateStats),
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages: Math.ceil(total / pagination.limit),
+    },
+  };
+}
+
+/**
+ * Get a delegate with voting power history, delegators and votes
+ */
+export async function getDelegateByAddress(address: string): Promise<DelegateDetail | null> {
+  const db = getDb();
+  const statsResult = await db.query<DelegateStatsRow>(
+    `SELECT address, voting_power, delegator_count, votes_cast, participation::TEXT
+     FROM (${DELEGATE_STATS_SQL}) stats
+     WHERE LOWER(address) = LOWER($1)`,
+    [address]
+  );
+
+  const stats = statsResult.rows[0];
+  if (!stats) {
+    return null;
+  }
+
+  const [historyResult, delegatorsResult, votesResult] = await Promise.all([
+    db.query<{
+      previous_votes: string;
+      new_votes: string;
+      tx_hash: string;
+      block_number: string;
+      block_timestamp: string;
+    }>(
+      `SELECT previous_votes, new_votes, tx_hash, block_number::TEXT, block_timestamp::TEXT
+       FROM voting_power_checkpoints
+       WHERE delegate = $1 AND NOT is_reorged
+       ORDER BY voting_power_checkpoints.block_number, log_index`,
+      [stats.address]
+    ),
+    db.query<{ address: string; balance: string; since: string | null }>(
+      `SELECT h.address, h.balance, (
+         SELECT td.block_timestamp::TEXT FROM token_delegations td
+         WHERE td.delegator = h.address AND NOT td.is_reorged
+         ORDER BY td.block_number DESC, td.log_index DESC
+         LIMIT 1
+       ) as since
+       FROM token_holders h
+       WHERE h.delegate = $1
+       ORDER BY h.balance::NUMERIC DESC, h.address`,
+      [stats.address]
+    ),
+    db.query<{
+      proposal_id: string;
+      title: string;
+      support: number;
+      weight: string;
+      reason: string;
+      tx_hash: string;
+      block_number: string;
+      created_at: Date;
+    }>(
+      `SELECT v.proposal_id, p.title, v.support, v.weight, v.reason, v.tx_hash,
+              v.block_number::TEXT, v.created_at
+       FROM votes v
+       JOIN proposals p ON p.id = v.proposal_id AND NOT p.is_reorged
+       WHERE LOWER(v.voter) = LOWER($1) AND NOT v.is_reorged
+       ORDER BY v.block_number DESC, v.log_index DESC`,
+      [stats.address]
+    ),
+  ]);
+
+  return {
+    ...mapDelegateStats(stats),
+    votingPowerHistory: historyResult.rows.map((row) => ({
+      previousVotes: row.previous_votes,
+      newVotes: row.new_votes,
+      txHash: row.tx_hash,
+      blockNumber: row.block_number,
+      timestamp: parseInt(row.block_timestamp, 10),
+    })),
+    delegators: delegatorsResult.rows.map((row) => ({
+      address: row.address,
+      balance: row.balance,
+      delegatedAt: row.since ? parseInt(row.since, 10) : null,
+    })),
+    votes: votesResult.rows.map((row) => ({
+      proposalId: row.proposal_id,
+      proposalTitle: row.title,
+      support: row.support as VoteSupport,
+      weight: row.weight,
+      reason: row.reason,
+      txHash: row.tx_hash,
+      blockNumber: row.block_number,
+      createdAt: row.created_at.toISOString(),
+    })),
+  };
+}
+
+// =============================================================================
+// Governance Parameter Operations
+// =============================================================================
+
+export type InsertGovernanceParameterChangeParams = Omit<InsertEventParams, "proposalId"> & {
+  parameter: GovernanceParameter;
+  previousValue: string | null;
+  newValue: string;
+  updatedBy?: string;
+};
+
+/**
+ * Insert StreetGovernor parameter change with idempotency
+ */
+export async function insertGovernanceParameterChange(
+  params: InsertGovernanceParameterChangeParams
+): Promise<boolean> {
+  const db = getDb();
+  const result = await db.query(
+    `INSERT INTO governance_parameters (
+      parameter, previous_value, new_value, updated_by,
+      tx_hash, log_index, block_number, block_hash, block_timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    ON CONFLICT (tx_hash, log_index) DO NOTHING
+    RETURNING id`,
+    [
+      params.parameter,
+      params.previousValue,
+      params.newValue,
+      params.updatedBy ?? null,
+      params.txHash,
       params.logIndex,
       params.blockNumber.toString(),
       params.blockHash,
@@ -1137,97 +4768,469 @@ export async function insertFutarchyRedemption(
   return result.rows.length > 0;
 }
 
+/**
+ * Get current governance parameters and their change log
+ */
+export async function getGovernanceParams(): Promise<GovernanceParams> {
+  const db = getDb();
+  const result = await db.query<{
+    parameter: GovernanceParameter;
+    previous_value: string | null;
+    new_value: string;
+    updated_by: string | null;
+    tx_hash: string;
+    block_number: string;
+    block_timestamp: string;
+  }>(
+    `SELECT parameter, previous_value, new_value, updated_by, tx_hash,
+            block_number::TEXT, block_timestamp::TEXT
+     FROM governance_parameters
+     WHERE NOT is_reorged
+     ORDER BY governance_parameters.block_number DESC, log_index DESC`
+  );
+
+  const history = result.rows.map((row) => ({
+    parameter: row.parameter,
+    previousValue: row.previous_value,
+    newValue: row.new_value,
+    updatedBy: row.updated_by,
+    txHash: row.tx_hash,
+    blockNumber: row.block_number,
+    timestamp: parseInt(row.block_timestamp, 10),
+  }));
+
+  const unknown: GovernanceParameterValue = { value: null, updatedAt: null, txHash: null };
+  const current = Object.fromEntries(
+    Object.values(GovernanceParameter).map((parameter) => {
+      const latest = history.find((change) => change.parameter === parameter);
+      return [
+        parameter,
+        latest
+          ? { value: latest.newValue, updatedAt: latest.timestamp, txHash: latest.txHash }
+          : unknown,
+      ];
+    })
+  ) as GovernanceParams["current"];
+
+  return { current, history };
+}
+
 // =============================================================================
-// Futarchy Treasury Queries
+// Batch Lookups
 // =============================================================================
 
+/*
+ * Keyed lookups behind the GraphQL loaders: each answers every key requested
+ * in one tick with a single query. Per-parent lists are capped with
+ * ROW_NUMBER so one busy parent cannot crowd out the others. Address keys
+ * are matched case-insensitively.
+ */
+
+const PROPOSAL_COLUMNS = `id, proposer, title, description, targets, values, calldatas,
+  status, snapshot_timestamp::TEXT, start_time::TEXT, end_time::TEXT, stake_amount,
+  for_votes, against_votes, abstain_votes,
+  executed_at, canceled_at, slashed_amount, quorum_votes, threshold_bps, created_at`;
+
+interface ProposalRow {
+  id: string;
+  proposer: string;
+  title: string;
+  description: string;
+  targets: string[];
+  values: string[];
+  calldatas: string[];
+  status: ProposalStatus;
+  snapshot_timestamp: string;
+  start_time: string;
+  end_time: string;
+  stake_amount: string;
+  for_votes: string;
+  against_votes: string;
+  abstain_votes: string;
+  executed_at: Date | null;
+  canceled_at: Date | null;
+  slashed_amount: string | null;
+  quorum_votes: string | null;
+  threshold_bps: string | null;
+  created_at: Date;
+}
+
+function mapProposal(row: ProposalRow): Omit<ProposalDetail, "suggestions"> {
+  return {
+    id: row.id,
+    proposer: row.proposer,
+    title: row.title,
+    description: row.description,
+    // JSONB columns arrive already parsed from the driver
+    targets: row.targets,
+    values: row.values,
+    calldatas: row.calldatas,
+    status: row.status,
+    startTime: parseInt(row.start_time, 10),
+    endTime: parseInt(row.end_time, 10),
+    snapshotTimestamp: parseInt(row.snapshot_timestamp, 10),
+    stakeAmount: row.stake_amount,
+    forVotes: row.for_votes,
+    againstVotes: row.against_votes,
+    abstainVotes: row.abstain_votes,
+    executedAt: row.executed_at?.toISOString() ?? null,
+    canceledAt: row.canceled_at?.toISOString() ?? null,
+    slashedAmount: row.slashed_amount,
+    quorumVotes: row.quorum_votes,
+    thresholdBps: row.threshold_bps,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+const VOTE_COLUMNS = `proposal_id, voter, support, weight, reason, tx_hash,
+  block_number::TEXT, created_at`;
+
+interface VoteRow {
+  proposal_id: string;
+  voter: string;
+  support: number;
+  weight: string;
+  reason: string;
+  tx_hash: string;
+  block_number: string;
+  created_at: Date;
+}
+
+function mapVote(row: VoteRow): VoteListItem {
+  return {
+    proposalId: row.proposal_id,
+    voter: row.voter,
+    support: row.support as VoteSupport,
+    weight: row.weight,
+    reason: row.reason,
+    txHash: row.tx_hash,
+    blockNumber: row.block_number,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+const SUGGESTION_COLUMNS = `id, proposal_id, suggester, proposed_text, status,
+  for_votes, against_votes, vote_window_end::TEXT,
+  finalized_at, stake_returned, stake_slashed, created_at`;
+
+interface SuggestionRow {
+  id: string;
+  proposal_id: string;
+  suggester: string;
+  proposed_text: string;
+  status: SuggestionStatus;
+  for_votes: string;
+  against_votes: string;
+  vote_window_end: string;
+  finalized_at: Date | null;
+  stake_returned: string | null;
+  stake_slashed: boolean | null;
+  created_at: Date;
+}
+
+function mapSuggestion(row: SuggestionRow): EditSuggestionListItem {
+  return {
+    id: row.id,
+    proposalId: row.proposal_id,
+    suggester: row.suggester,
+    proposedText: row.proposed_text,
+    status: row.status,
+    forVotes: row.for_votes,
+    againstVotes: row.against_votes,
+    voteWindowEnd: parseInt(row.vote_window_end, 10),
+    finalizedAt: row.finalized_at?.toISOString() ?? null,
+    stakeReturned: row.stake_returned,
+    stakeSlashed: row.stake_slashed,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+const SLASH_COLUMNS = `proposal_id, proposer, slashed_amount, returned_amount, tx_hash,
+  block_number::TEXT, created_at`;
+
+interface SlashRow {
+  proposal_id: string;
+  proposer: string;
+  slashed_amount: string;
+  returned_amount: string;
+  tx_hash: string;
+  block_number: string;
+  created_at: Date;
+}
+
+function mapSlash(row: SlashRow): SlashListItem {
+  return {
+    proposalId: row.proposal_id,
+    proposer: row.proposer,
+    slashedAmount: row.slashed_amount,
+    returnedAmount: row.returned_amount,
+    txHash: row.tx_hash,
+    blockNumber: row.block_number,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+const TRADE_COLUMNS = `proposal_id, trader, is_yes, is_buy, amount_in, amount_out, new_price,
+  tx_hash, block_number::TEXT, created_at`;
+
+interface TradeRow {
+  proposal_id: string;
+  trader: string;
+  is_yes: boolean;
+  is_buy: boolean;
+  amount_in: string;
+  amount_out: string;
+  new_price: string;
+  tx_hash: string;
+  block_number: string;
+  created_at: Date;
+}
+
+function mapTrade(row: TradeRow): FutarchyTradeListItem {
+  return {
+    proposalId: row.proposal_id,
+    trader: row.trader,
+    isYes: row.is_yes,
+    isBuy: row.is_buy,
+    amountIn: row.amount_in,
+    amountOut: row.amount_out,
+    newPrice: row.new_price,
+    txHash: row.tx_hash,
+    blockNumber: row.block_number,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+/** Suggestion votes joined with their suggestion's proposal id */
+const SUGGESTION_VOTES_FROM = `(SELECT sv.*, s.proposal_id FROM suggestion_votes sv
+  JOIN edit_suggestions s ON s.id = sv.suggestion_id)`;
+
+const SUGGESTION_VOTE_COLUMNS = `suggestion_id, proposal_id, voter, support, weight, tx_hash,
+  block_number::TEXT, created_at`;
+
+interface SuggestionVoteRow {
+  suggestion_id: string;
+  proposal_id: string;
+  voter: string;
+  support: boolean;
+  weight: string;
+  tx_hash: string;
+  block_number: string;
+  created_at: Date;
+}
+
+function mapSuggestionVote(row: SuggestionVoteRow): SuggestionVoteItem {
+  return {
+    suggestionId: row.suggestion_id,
+    proposalId: row.proposal_id,
+    voter: row.voter,
+    support: row.support,
+    weight: row.weight,
+    txHash: row.tx_hash,
+    blockNumber: row.block_number,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+const REDEMPTION_COLUMNS = `proposal_id, tokens_redeemed, amount, tx_hash, block_number::TEXT,
+  created_at`;
+
+interface RedemptionRow {
+  proposal_id: string;
+  tokens_redeemed: string;
+  amount: string;
+  tx_hash: string;
+  block_number: string;
+  created_at: Date;
+}
+
+function mapRedemption(row: RedemptionRow): FutarchyRedemptionListItem {
+  return {
+    proposalId: row.proposal_id,
+    tokensRedeemed: row.tokens_redeemed,
+    kledReceived: row.amount,
+    txHash: row.tx_hash,
+    blockNumber: row.block_number,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
 /**
- * Get futarchy proposals with pagination
+ * Newest rows of `table` for each key, at most `limit` per key
  */
-export async function getFutarchyProposals(
-  pagination: PaginationParams,
-  filters?: { status?: FutarchyProposalStatus; recipient?: string }
-): Promise<PaginatedResponse<FutarchyProposalListItem>> {
+async function selectLatestPerKey<T extends object>(
+  table: string,
+  columns: string,
+  keyColumn: string,
+  keys: string[],
+  limit: number,
+  order = "block_number DESC, log_index DESC"
+): Promise<T[]> {
   const db = getDb();
-  const conditions: string[] = ["NOT is_reorged"];
-  const params: unknown[] = [];
+  const result = await db.query<T>(
+    `SELECT ${columns}
+     FROM (
+       SELECT *, ROW_NUMBER() OVER (PARTITION BY ${keyColumn} ORDER BY ${order}) as row_rank
+       FROM ${table}
+       WHERE ${keyColumn} = ANY($1::TEXT[]) AND NOT is_reorged
+     ) ranked
+     WHERE row_rank <= $2
+     ORDER BY row_rank`,
+    [keys, limit]
+  );
+  return result.rows;
+}
 
-  if (filters?.status) {
-    params.push(filters.status);
-    conditions.push(`status = $${params.length}`);
-  }
-  if (filters?.recipient) {
-    params.push(filters.recipient.toLowerCase());
-    conditions.push(`LOWER(recipient) = $${params.length}`);
-  }
+export async function getProposalsByIds(
+  ids: string[]
+): Promise<Omit<ProposalDetail, "suggestions">[]> {
+  const db = getDb();
+  const result = await db.query<ProposalRow>(
+    `SELECT ${PROPOSAL_COLUMNS}
+     FROM proposals
+     WHERE id = ANY($1::TEXT[]) AND NOT is_reorged`,
+    [ids]
+  );
+  return result.rows.map(mapProposal);
+}
 
-  const whereClause = conditions.join(" AND ");
+export async function getProposalsByProposers(
+  addresses: string[],
+  limit: number
+): Promise<Omit<ProposalDetail, "suggestions">[]> {
+  const rows = await selectLatestPerKey<ProposalRow>(
+    "proposals",
+    PROPOSAL_COLUMNS,
+    "LOWER(proposer)",
+    addresses.map((a) => a.toLowerCase()),
+    limit
+  );
+  return rows.map(mapProposal);
+}
 
-  // Get total count
-  const countResult = await db.query<{ count: string }>(
-    `SELECT COUNT(*) as count FROM futarchy_proposals WHERE ${whereClause}`,
-    params
+export async function getVotesByProposals(
+  proposalIds: string[],
+  limit: number
+): Promise<VoteListItem[]> {
+  const rows = await selectLatestPerKey<VoteRow>(
+    "votes",
+    VOTE_COLUMNS,
+    "proposal_id",
+    proposalIds,
+    limit
+  );
+  return rows.map(mapVote);
+}
+
+export async function getVotesByVoters(
+  addresses: string[],
+  limit: number
+): Promise<VoteListItem[]> {
+  const rows = await selectLatestPerKey<VoteRow>(
+    "votes",
+    VOTE_COLUMNS,
+    "LOWER(voter)",
+    addresses.map((a) => a.toLowerCase()),
+    limit
+  );
+  return rows.map(mapVote);
+}
+
+export async function getSuggestionsByIds(ids: string[]): Promise<EditSuggestionListItem[]> {
+  const db = getDb();
+  const result = await db.query<SuggestionRow>(
+    `SELECT ${SUGGESTION_COLUMNS}
+     FROM edit_suggestions
+     WHERE id = ANY($1::TEXT[]) AND NOT is_reorged`,
+    [ids]
+  );
+  return result.rows.map(mapSuggestion);
+}
+
+export async function getSuggestionsByProposals(
+  proposalIds: string[],
+  limit: number
+): Promise<EditSuggestionListItem[]> {
+  const rows = await selectLatestPerKey<SuggestionRow>(
+    "edit_suggestions",
+    SUGGESTION_COLUMNS,
+    "proposal_id",
+    proposalIds,
+    limit
+  );
+  return rows.map(mapSuggestion);
+}
+
+export async function getSuggestionsBySuggesters(
+  addresses: string[],
+  limit: number
+): Promise<EditSuggestionListItem[]> {
+  const rows = await selectLatestPerKey<SuggestionRow>(
+    "edit_suggestions",
+    SUGGESTION_COLUMNS,
+    "LOWER(suggester)",
+    addresses.map((a) => a.toLowerCase()),
+    limit
+  );
+  return rows.map(mapSuggestion);
+}
+
+export async function getSuggestionVotesBySuggestions(
+  suggestionIds: string[],
+  limit: number
+): Promise<SuggestionVoteItem[]> {
+  const rows = await selectLatestPerKey<SuggestionVoteRow>(
+    `${SUGGESTION_VOTES_FROM} suggestion_votes`,
+    SUGGESTION_VOTE_COLUMNS,
+    "suggestion_id",
+    suggestionIds,
+    limit
   );
-  const total = parseInt(countResult.rows[0]?.count ?? "0", 10);
+  return rows.map(mapSuggestionVote);
+}
 
-  // Get paginated results
-  const offset = (pagination.page - 1) * pagination.limit;
-  const dataResult = await db.query<{
-    id: string;
-    description: string;
-    amount: string;
-    recipient: string;
-    market_end_time: string;
-    status: FutarchyProposalStatus;
-    yes_price: string;
-    no_price: string;
-    total_trades: number;
-    created_at: Date;
-  }>(
-    `SELECT id, description, amount, recipient, market_end_time::TEXT,
-            status, yes_price, no_price, total_trades, created_at
-     FROM futarchy_proposals
-     WHERE ${whereClause}
-     ORDER BY block_number DESC
-     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
-    [...params, pagination.limit, offset]
+export async function getSlashesByProposals(proposalIds: string[]): Promise<SlashListItem[]> {
+  const db = getDb();
+  const result = await db.query<SlashRow>(
+    `SELECT ${SLASH_COLUMNS}
+     FROM slashes
+     WHERE proposal_id = ANY($1::TEXT[]) AND NOT is_reorged
+     ORDER BY slashes.block_number DESC, log_index DESC`,
+    [proposalIds]
   );
+  return result.rows.map(mapSlash);
+}
 
-  return {
-    data: dataResult.rows.map((row) => ({
-      id: row.id,
-      description: row.description,
-      amount: row.amount,
-      recipient: row.recipient,
-      marketEndTime: parseInt(row.market_end_time, 10),
-      status: row.status,
-      yesPrice: row.yes_price,
-      noPrice: row.no_price,
-      totalTrades: row.total_trades,
-      createdAt: row.created_at.toISOString(),
-    })),
-    pagination: {
-      page: pagination.page,
-      limit: pagination.limit,
-      total,
-      totalPages: Math.ceil(total / pagination.limit),
-    },
-  };
+export async function getSlashesByProposers(
+  addresses: string[],
+  limit: number
+): Promise<SlashListItem[]> {
+  const rows = await selectLatestPerKey<SlashRow>(
+    "slashes",
+    SLASH_COLUMNS,
+    "LOWER(proposer)",
+    addresses.map((a) => a.toLowerCase()),
+    limit
+  );
+  return rows.map(mapSlash);
 }
 
-/**
- * Get single futarchy proposal by ID
- */
-export async function getFutarchyProposalById(
-  id: string
-): Promise<FutarchyProposalDetail | null> {
+export async function getFutarchyProposalsByIds(
+  ids: string[]
+): Promise<FutarchyProposalDetail[]> {
   const db = getDb();
   const result = await db.query<{
     id: string;
-    description: string;
+    proposer: string;
+    description: string | null;
+    description_hash: string;
+    description_status: FutarchyDescriptionStatus;
     amount: string;
     recipient: string;
+    pass_market_id: string;
+    fail_market_id: string;
     market_end_time: string;
+    resolution_time: string;
     status: FutarchyProposalStatus;
     yes_price: string;
     no_price: string;
@@ -1238,28 +5241,43 @@ export async function getFutarchyProposalById(
     final_no_price: string | null;
     passed: boolean | null;
     resolved_at: Date | null;
+    closing_pass_price: string | null;
+    closing_fail_price: string | null;
+    closed_at: Date | null;
+    emergency_resolved: boolean;
+    executed_at: Date | null;
+    executed_target: string | null;
+    executed_amount: string | null;
+    rejected_at: Date | null;
+    canceled_at: Date | null;
+    stake_returned: string | null;
+    total_redeemed: string;
     created_at: Date;
   }>(
-    `SELECT id, description, amount, recipient, market_end_time::TEXT,
+    `SELECT id, proposer, description, description_hash, description_status, amount,
+            recipient, pass_market_id, fail_market_id, market_end_time::TEXT, resolution_time::TEXT,
             status, yes_price, no_price, total_yes_volume, total_no_volume,
             total_trades, final_yes_price, final_no_price, passed,
-            resolved_at, created_at
+            resolved_at, closing_pass_price, closing_fail_price, closed_at,
+            emergency_resolved, executed_at, executed_target, executed_amount,
+            rejected_at, canceled_at, stake_returned, total_redeemed, created_at
      FROM futarchy_proposals
-     WHERE id = $1 AND NOT is_reorged`,
-    [id]
+     WHERE id = ANY($1::TEXT[]) AND NOT is_reorged`,
+    [ids]
   );
 
-  if (result.rows.length === 0) {
-    return null;
-  }
-
-  const row = result.rows[0]!;
-  return {
+  return result.rows.map((row) => ({
     id: row.id,
+    proposer: row.proposer,
     description: row.description,
+    descriptionHash: row.description_hash,
+    descriptionStatus: row.description_status,
     amount: row.amount,
     recipient: row.recipient,
+    passMarketId: row.pass_market_id,
+    failMarketId: row.fail_market_id,
     marketEndTime: parseInt(row.market_end_time, 10),
+    resolutionTime: parseInt(row.resolution_time, 10),
     status: row.status,
     yesPrice: row.yes_price,
     noPrice: row.no_price,
@@ -1270,154 +5288,400 @@ export async function getFutarchyProposalById(
     finalNoPrice: row.final_no_price,
     passed: row.passed,
     resolvedAt: row.resolved_at?.toISOString() ?? null,
+    closingPassPrice: row.closing_pass_price,
+    closingFailPrice: row.closing_fail_price,
+    closedAt: row.closed_at?.toISOString() ?? null,
+    emergencyResolved: row.emergency_resolved,
+    executedAt: row.executed_at?.toISOString() ?? null,
+    executedTarget: row.executed_target,
+    executedAmount: row.executed_amount,
+    rejectedAt: row.rejected_at?.toISOString() ?? null,
+    canceledAt: row.canceled_at?.toISOString() ?? null,
+    stakeReturned: row.stake_returned,
+    totalRedeemed: row.total_redeemed,
     createdAt: row.created_at.toISOString(),
-  };
+  }));
+}
+
+export async function getFutarchyTradesByProposals(
+  proposalIds: string[],
+  limit: number
+): Promise<FutarchyTradeListItem[]> {
+  const rows = await selectLatestPerKey<TradeRow>(
+    "futarchy_trades",
+    TRADE_COLUMNS,
+    "proposal_id",
+    proposalIds,
+    limit
+  );
+  return rows.map(mapTrade);
+}
+
+export async function getFutarchyTradesByTraders(
+  addresses: string[],
+  limit: number
+): Promise<FutarchyTradeListItem[]> {
+  const rows = await selectLatestPerKey<TradeRow>(
+    "futarchy_trades",
+    TRADE_COLUMNS,
+    "LOWER(trader)",
+    addresses.map((a) => a.toLowerCase()),
+    limit
+  );
+  return rows.map(mapTrade);
 }
 
 /**
- * Get trades for a futarchy proposal
+ * Current token state of each address (zero balance if never seen)
  */
-export async function getFutarchyTradesByProposal(
-  proposalId: string,
-  pagination: PaginationParams
-): Promise<PaginatedResponse<FutarchyTradeListItem>> {
+export async function getTokenAccounts(addresses: string[]): Promise<TokenAccountSnapshot[]> {
   const db = getDb();
+  const keys = addresses.map((a) => a.toLowerCase());
+  const result = await db.query<{
+    address: string;
+    balance: string | null;
+    delegate: string | null;
+    voting_power: string | null;
+  }>(
+    `SELECT k.address, h.balance, h.delegate, d.voting_power
+     FROM UNNEST($1::TEXT[]) AS k(address)
+     LEFT JOIN token_holders h ON LOWER(h.address) = k.address
+     LEFT JOIN token_delegates d ON LOWER(d.address) = k.address`,
+    [keys]
+  );
 
-  const countResult = await db.query<{ count: string }>(
-    `SELECT COUNT(*) as count FROM futarchy_trades
-     WHERE proposal_id = $1 AND NOT is_reorged`,
-    [proposalId]
+  const byAddress = new Map(result.rows.map((row) => [row.address, row]));
+  return addresses.map((address) => {
+    const row = byAddress.get(address.toLowerCase());
+    return {
+      address,
+      timestamp: null,
+      balance: row?.balance ?? "0",
+      delegate: row?.delegate ?? null,
+      votingPower: row?.voting_power ?? "0",
+    };
+  });
+}
+
+/**
+ * Delegate stats of the addresses that have ever held voting power
+ */
+export async function getDelegatesByAddresses(addresses: string[]): Promise<DelegateListItem[]> {
+  const db = getDb();
+  const result = await db.query<DelegateStatsRow>(
+    `SELECT address, voting_power, delegator_count, votes_cast, participation::TEXT
+     FROM (${DELEGATE_STATS_SQL}) stats
+     WHERE LOWER(address) = ANY($1::TEXT[])`,
+    [addresses.map((a) => a.toLowerCase())]
   );
-  const total = parseInt(countResult.rows[0]?.count ?? "0", 10);
+  return result.rows.map(mapDelegateStats);
+}
 
-  const offset = (pagination.page - 1) * pagination.limit;
-  const dataResult = await db.query<{
-    proposal_id: string;
-    trader: string;
-    is_yes: boolean;
-    amount_in: string;
-    amount_out: string;
-    new_price: string;
-    tx_hash: string;
-    block_number: string;
-    created_at: Date;
-  }>(
-    `SELECT proposal_id, trader, is_yes, amount_in, amount_out, new_price,
-            tx_hash, block_number::TEXT, created_at
-     FROM futarchy_trades
-     WHERE proposal_id = $1 AND NOT is_reorged
-     ORDER BY block_number DESC, log_index DESC
-     LIMIT $2 OFFSET $3`,
-    [proposalId, pagination.limit, offset]
+// =============================================================================
+// Keyset Pagination
+// =============================================================================
+
+/*
+ * Newest-first event lists paged by (block_number, log_index) instead of
+ * OFFSET: each page starts strictly below the last row of the previous one,
+ * so rows indexed meanwhile (always at newer blocks) cannot shift it, and no
+ * COUNT(*) runs. Cursors are opaque to clients.
+ */
+
+/**
+ * Encode an event position as an opaque cursor
+ */
+export function encodeCursor(position: EventPosition): string {
+  return Buffer.from(`${position.blockNumber}:${position.logIndex}`).toString("base64url");
+}
+
+/**
+ * Decode a cursor from encodeCursor
+ *
+ * @returns null if the cursor is malformed
+ */
+export function decodeCursor(cursor: string): EventPosition | null {
+  const match = /^(\d{1,19}):(\d{1,9})$/.exec(Buffer.from(cursor, "base64url").toString());
+  if (!match) {
+    return null;
+  }
+  return { blockNumber: match[1]!, logIndex: parseInt(match[2]!, 10) };
+}
+
+/**
+ * One newest-first page of `from` (aliased t) matching `where`
+ *
+ * Reads one row past the limit to tell whether another page exists.
+ */
+async function selectKeysetPage<Row extends { block_number: string; log_index: number }, T>(
+  from: string,
+  columns: string,
+  where: string,
+  params: unknown[],
+  cursor: CursorParams,
+  map: (row: Row) => T
+): Promise<CursorPage<T>> {
+  const db = getDb();
+  const conditions = [where, "NOT t.is_reorged"];
+  const values = [...params];
+
+  if (cursor.after) {
+    values.push(cursor.after.blockNumber, cursor.after.logIndex);
+    conditions.push(
+      `(t.block_number, t.log_index) < ($${values.length - 1}::BIGINT, $${values.length}::INTEGER)`
+    );
+  }
+  values.push(cursor.limit + 1);
+
+  const result = await db.query<Row>(
+    `SELECT ${columns}, log_index
+     FROM ${from} t
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY t.block_number DESC, t.log_index DESC
+     LIMIT $${values.length}`,
+    values
   );
 
+  const rows = result.rows.slice(0, cursor.limit);
+  const last = rows[rows.length - 1];
   return {
-    data: dataResult.rows.map((row) => ({
-      proposalId: row.proposal_id,
-      trader: row.trader,
-      isYes: row.is_yes,
-      amountIn: row.amount_in,
-      amountOut: row.amount_out,
-      newPrice: row.new_price,
-      txHash: row.tx_hash,
-      blockNumber: row.block_number,
-      createdAt: row.created_at.toISOString(),
-    })),
+    data: rows.map(map),
     pagination: {
-      page: pagination.page,
-      limit: pagination.limit,
-      total,
-      totalPages: Math.ceil(total / pagination.limit),
+      limit: cursor.limit,
+      nextCursor:
+        result.rows.length > cursor.limit && last
+          ? encodeCursor({ blockNumber: last.block_number, logIndex: last.log_index })
+          : null,
     },
   };
 }
 
-/**
- * Get current prices for a futarchy proposal
- */
-export async function getFutarchyPrices(
-  proposalId: string
-): Promise<FutarchyPriceData | null> {
-  const db = getDb();
+export async function getVotesByProposalAfter(
+  proposalId: string,
+  cursor: CursorParams
+): Promise<CursorPage<VoteListItem>> {
+  return selectKeysetPage<VoteRow & { log_index: number }, VoteListItem>(
+    "votes",
+    VOTE_COLUMNS,
+    "proposal_id = $1",
+    [proposalId],
+    cursor,
+    mapVote
+  );
+}
 
-  // Get proposal data
-  const proposalResult = await db.query<{
-    id: string;
-    yes_price: string;
-    no_price: string;
-    market_end_time: string;
-    status: FutarchyProposalStatus;
-  }>(
-    `SELECT id, yes_price, no_price, market_end_time::TEXT, status
-     FROM futarchy_proposals
-     WHERE id = $1 AND NOT is_reorged`,
-    [proposalId]
+export async function getVotesByVoterAfter(
+  voter: string,
+  cursor: CursorParams
+): Promise<CursorPage<VoteListItem>> {
+  return selectKeysetPage<VoteRow & { log_index: number }, VoteListItem>(
+    "votes",
+    VOTE_COLUMNS,
+    "LOWER(voter) = LOWER($1)",
+    [voter],
+    cursor,
+    mapVote
   );
+}
 
-  if (proposalResult.rows.length === 0) {
-    return null;
-  }
+export async function getFutarchyTradesByProposalAfter(
+  proposalId: string,
+  cursor: CursorParams
+): Promise<CursorPage<FutarchyTradeListItem>> {
+  return selectKeysetPage<TradeRow & { log_index: number }, FutarchyTradeListItem>(
+    "futarchy_trades",
+    TRADE_COLUMNS,
+    "proposal_id = $1",
+    [proposalId],
+    cursor,
+    mapTrade
+  );
+}
 
-  const proposal = proposalResult.rows[0]!;
+export async function getFutarchyTradesByTraderAfter(
+  trader: string,
+  cursor: CursorParams
+): Promise<CursorPage<FutarchyTradeListItem>> {
+  return selectKeysetPage<TradeRow & { log_index: number }, FutarchyTradeListItem>(
+    "futarchy_trades",
+    TRADE_COLUMNS,
+    "LOWER(trader) = LOWER($1)",
+    [trader],
+    cursor,
+    mapTrade
+  );
+}
 
-  // Get last trade timestamp
-  const lastTradeResult = await db.query<{ created_at: Date }>(
-    `SELECT created_at FROM futarchy_trades
-     WHERE proposal_id = $1 AND NOT is_reorged
-     ORDER BY block_number DESC, log_index DESC
-     LIMIT 1`,
-    [proposalId]
+export async function getSuggestionVotesAfter(
+  suggestionId: string,
+  cursor: CursorParams
+): Promise<CursorPage<SuggestionVoteItem>> {
+  return selectKeysetPage<SuggestionVoteRow & { log_index: number }, SuggestionVoteItem>(
+    SUGGESTION_VOTES_FROM,
+    SUGGESTION_VOTE_COLUMNS,
+    "suggestion_id = $1",
+    [suggestionId],
+    cursor,
+    mapSuggestionVote
   );
+}
 
-  const yesPrice = BigInt(proposal.yes_price);
-  const impliedProbability = Number(yesPrice * 100n / BigInt("1000000000000000000"));
-  const marketEndTime = parseInt(proposal.market_end_time, 10);
-  const now = Math.floor(Date.now() / 1000);
+export async function getSuggestionVotesByVoterAfter(
+  voter: string,
+  cursor: CursorParams
+): Promise<CursorPage<SuggestionVoteItem>> {
+  return selectKeysetPage<SuggestionVoteRow & { log_index: number }, SuggestionVoteItem>(
+    SUGGESTION_VOTES_FROM,
+    SUGGESTION_VOTE_COLUMNS,
+    "LOWER(voter) = LOWER($1)",
+    [voter],
+    cursor,
+    mapSuggestionVote
+  );
+}
 
-  return {
-    proposalId: proposal.id,
-    yesPrice: proposal.yes_price,
-    noPrice: proposal.no_price,
-    impliedProbability,
-    lastTradeAt: lastTradeResult.rows[0]?.created_at.toISOString() ?? null,
-    marketEndTime,
-    isActive: proposal.status === "active" && marketEndTime > now,
-  };
+export async function getFutarchyRedemptionsByUserAfter(
+  user: string,
+  cursor: CursorParams
+): Promise<CursorPage<FutarchyRedemptionListItem>> {
+  return selectKeysetPage<RedemptionRow & { log_index: number }, FutarchyRedemptionListItem>(
+    "futarchy_redemptions",
+    REDEMPTION_COLUMNS,
+    "LOWER(user_address) = LOWER($1)",
+    [user],
+    cursor,
+    mapRedemption
+  );
 }
 
+// =============================================================================
+// Exports
+// =============================================================================
+
+const PROVENANCE_COLUMNS = [
+  "tx_hash",
+  "log_index",
+  "block_number",
+  "block_hash",
+  "block_timestamp",
+  "is_reorged",
+];
+
 /**
- * Get treasury statistics
+ * Source of each export dataset: `from` aliases the event table as t, and
+ * `proposal` is the column filtered by proposalId
  */
-export async function getTreasuryStats(): Promise<TreasuryStats> {
+const EXPORT_SOURCES: Record<
+  ExportDataset,
+  { from: string; columns: string[]; proposal: string }
+> = {
+  votes: {
+    from: "votes t",
+    columns: ["t.proposal_id", "t.voter", "t.support", "t.weight", "t.reason"],
+    proposal: "t.proposal_id",
+  },
+  "suggestion-votes": {
+    from: "suggestion_votes t JOIN edit_suggestions s ON s.id = t.suggestion_id",
+    columns: ["t.suggestion_id", "s.proposal_id", "t.voter", "t.support", "t.weight"],
+    proposal: "s.proposal_id",
+  },
+  trades: {
+    from: "futarchy_trades t",
+    columns: [
+      "t.proposal_id",
+      "t.trader",
+      "t.is_yes",
+      "t.is_buy",
+      "t.amount_in",
+      "t.amount_out",
+      "t.new_price",
+    ],
+    proposal: "t.proposal_id",
+  },
+  redemptions: {
+    from: "futarchy_redemptions t",
+    columns: ["t.proposal_id", "t.user_address", "t.amount", "t.tokens_redeemed"],
+    proposal: "t.proposal_id",
+  },
+  slashes: {
+    from: "slashes t",
+    columns: ["t.proposal_id", "t.proposer", "t.slashed_amount", "t.returned_amount"],
+    proposal: "t.proposal_id",
+  },
+};
+
+/**
+ * Column names of an export dataset, in output order
+ */
+export function getExportColumns(dataset: ExportDataset): string[] {
+  return [
+    ...EXPORT_SOURCES[dataset].columns.map((column) => column.slice(column.indexOf(".") + 1)),
+    ...PROVENANCE_COLUMNS,
+  ];
+}
+
+/**
+ * Next batch of an export in chain order, strictly after `after`
+ *
+ * Callers page by the returned cursor until a batch comes back short, so
+ * memory stays bounded by the batch size. Rows are ordered by
+ * (block_number, log_index, id): with reorged rows included, a position can
+ * repeat and the id keeps batch boundaries from skipping rows.
+ */
+export async function getExportBatch(
+  dataset: ExportDataset,
+  filter: ExportFilter,
+  after: ExportCursor | undefined,
+  limit: number
+): Promise<ExportBatch> {
   const db = getDb();
+  const source = EXPORT_SOURCES[dataset];
+  const conditions: string[] = [];
+  const values: unknown[] = [];
 
-  const result = await db.query<{
-    total_proposals: string;
-    active_proposals: string;
-    total_volume: string;
-    total_trades: string;
-    proposals_passed: string;
-    proposals_failed: string;
-    total_allocated: string;
-  }>(`
-    SELECT
-      (SELECT COUNT(*) FROM futarchy_proposals WHERE NOT is_reorged) as total_proposals,
-      (SELECT COUNT(*) FROM futarchy_proposals WHERE NOT is_reorged AND status = 'active') as active_proposals,
-      (SELECT COALESCE(SUM(amount_in::NUMERIC), 0)::TEXT FROM futarchy_trades WHERE NOT is_reorged) as total_volume,
-      (SELECT COUNT(*) FROM futarchy_trades WHERE NOT is_reorged) as total_trades,
-      (SELECT COUNT(*) FROM futarchy_proposals WHERE NOT is_reorged AND passed = true) as proposals_passed,
-      (SELECT COUNT(*) FROM futarchy_proposals WHERE NOT is_reorged AND passed = false) as proposals_failed,
-      (SELECT COALESCE(SUM(amount::NUMERIC), 0)::TEXT FROM futarchy_proposals WHERE NOT is_reorged AND passed = true) as total_allocated
-  `);
+  if (!filter.includeReorged) {
+    conditions.push("NOT t.is_reorged");
+  }
+  if (filter.proposalId !== undefined) {
+    values.push(filter.proposalId);
+    conditions.push(`${source.proposal} = $${values.length}`);
+  }
+  if (filter.from !== undefined) {
+    values.push(filter.from);
+    conditions.push(`t.block_timestamp >= $${values.length}`);
+  }
+  if (filter.to !== undefined) {
+    values.push(filter.to);
+    conditions.push(`t.block_timestamp <= $${values.length}`);
+  }
+  if (after) {
+    values.push(after.blockNumber, after.logIndex, after.id);
+    conditions.push(
+      `(t.block_number, t.log_index, t.id) > ` +
+        `($${values.length - 2}::BIGINT, $${values.length - 1}::INTEGER, $${values.length}::INTEGER)`
+    );
+  }
+  values.push(limit);
 
-  const row = result.rows[0]!;
-  return {
-    totalProposals: parseInt(row.total_proposals, 10),
-    activeProposals: parseInt(row.active_proposals, 10),
-    totalVolume: row.total_volume,
-    totalTrades: parseInt(row.total_trades, 10),
-    proposalsPassed: parseInt(row.proposals_passed, 10),
-    proposalsFailed: parseInt(row.proposals_failed, 10),
-    totalAllocated: row.total_allocated,
+  const result = await db.query<ExportRow>(
+    `SELECT ${source.columns.join(", ")},
+            t.tx_hash, t.log_index, t.block_number::TEXT, t.block_hash,
+            t.block_timestamp::TEXT, t.is_reorged, t.id as export_id
+     FROM ${source.from}
+     ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+     ORDER BY t.block_number, t.log_index, t.id
+     LIMIT $${values.length}`,
+    values
+  );
+
+  const last = result.rows[result.rows.length - 1];
+  const cursor = last && {
+    blockNumber: String(last.block_number),
+    logIndex: Number(last.log_index),
+    id: Number(last.export_id),
   };
+  for (const row of result.rows) {
+    delete row.export_id;
+  }
+  return { rows: result.rows, cursor };
 }
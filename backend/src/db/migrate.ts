@@ -0,0 +1,226 @@
+/**
+ * Schema Migrations - Street Governance
+ *
+ * Ordered, checksummed SQL migrations tracked in `schema_migrations`:
+ * - Files live in ./migrations as NNNN_description.sql
+ * - Each migration runs in its own transaction
+ * - Applied migrations are verified by SHA-256 checksum, so editing a file
+ *   after it shipped is caught instead of silently diverging
+ * - A Postgres advisory lock serializes concurrent runners
+ */
+
+import { createHash } from "node:crypto";
+import { readdir, readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import type { DbClient } from "./index.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Migration {
+  version: number;
+  name: string;
+  checksum: string;
+  sql: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: "applied" | "pending" | "checksum_mismatch" | "missing";
+  appliedAt: Date | null;
+}
+
+const MIGRATIONS_DIR = fileURLToPath(new URL("./migrations/", import.meta.url));
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.sql$/;
+
+/** Arbitrary key for pg_advisory_lock, shared by every migration runner */
+const MIGRATION_LOCK_KEY = 727_001;
+
+const CREATE_MIGRATIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name VARCHAR(200) NOT NULL,
+    checksum VARCHAR(64) NOT NULL,
+    applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  )`;
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+export function formatMigration(m: { version: number; name: string }): string {
+  return `${String(m.version).padStart(4, "0")}_${m.name}`;
+}
+
+let cachedMigrations: Migration[] | null = null;
+
+/**
+ * Read migration files in version order
+ */
+export async function loadMigrations(): Promise<Migration[]> {
+  if (cachedMigrations) {
+    return cachedMigrations;
+  }
+
+  const files = (await readdir(MIGRATIONS_DIR)).filter((f) => f.endsWith(".sql"));
+  const migrations: Migration[] = [];
+
+  for (const file of files) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) {
+      throw new Error(`Invalid migration file name: ${file} (expected NNNN_name.sql)`);
+    }
+    const sql = await readFile(MIGRATIONS_DIR + file, "utf8");
+    migrations.push({
+      version: parseInt(match[1]!, 10),
+      name: match[2]!,
+      checksum: createHash("sha256").update(sql).digest("hex"),
+      sql,
+    });
+  }
+
+  migrations.sort((a, b) => a.version - b.version);
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i]!.version === migrations[i - 1]!.version) {
+      throw new Error(`Duplicate migration version ${migrations[i]!.version}`);
+    }
+  }
+
+  cachedMigrations = migrations;
+  return migrations;
+}
+
+/**
+ * Schema version this build of the code expects (latest migration)
+ */
+export async function getExpectedSchemaVersion(): Promise<number> {
+  const migrations = await loadMigrations();
+  return migrations[migrations.length - 1]?.version ?? 0;
+}
+
+// =============================================================================
+// Status
+// =============================================================================
+
+async function getAppliedMigrations(
+  db: Pick<DbClient, "query">
+): Promise<Map<number, { name: string; checksum: string; applied_at: Date }>> {
+  const exists = await db.query<{ exists: boolean }>(
+    `SELECT to_regclass('schema_migrations') IS NOT NULL AS exists`
+  );
+  if (!exists.rows[0]?.exists) {
+    return new Map();
+  }
+
+  const result = await db.query<{
+    version: number;
+    name: string;
+    checksum: string;
+    applied_at: Date;
+  }>(`SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version`);
+
+  return new Map(result.rows.map((row) => [row.version, row]));
+}
+
+/**
+ * Highest applied migration version (0 for an unmigrated database)
+ */
+export async function getAppliedSchemaVersion(db: Pick<DbClient, "query">): Promise<number> {
+  const applied = await getAppliedMigrations(db);
+  return Math.max(0, ...applied.keys());
+}
+
+/**
+ * Compare migration files against what the database has applied
+ */
+export async function getMigrationStatus(
+  db: Pick<DbClient, "query">
+): Promise<MigrationStatus[]> {
+  const migrations = await loadMigrations();
+  const applied = await getAppliedMigrations(db);
+
+  const status: MigrationStatus[] = migrations.map((m) => {
+    const row = applied.get(m.version);
+    return {
+      version: m.version,
+      name: m.name,
+      state: !row ? "pending" : row.checksum === m.checksum ? "applied" : "checksum_mismatch",
+      appliedAt: row?.applied_at ?? null,
+    };
+  });
+
+  // Applied in the database but no longer shipped with the code
+  for (const [version, row] of applied) {
+    if (!migrations.some((m) => m.version === version)) {
+      status.push({ version, name: row.name, state: "missing", appliedAt: row.applied_at });
+    }
+  }
+
+  return status.sort((a, b) => a.version - b.version);
+}
+
+// =============================================================================
+// Apply
+// =============================================================================
+
+/**
+ * Apply all pending migrations in order
+ *
+ * @returns Migrations applied by this run
+ */
+export async function migrateUp(db: DbClient): Promise<Migration[]> {
+  const session = await db.connect();
+  const applied: Migration[] = [];
+
+  try {
+    await session.query(`SELECT pg_advisory_lock($1)`, [MIGRATION_LOCK_KEY]);
+    await session.query(CREATE_MIGRATIONS_TABLE);
+
+    // Re-read under the lock; another runner may have just finished
+    const status = await getMigrationStatus(session);
+    const broken = status.filter(
+      (s) => s.state === "checksum_mismatch" || s.state === "missing"
+    );
+    if (broken.length > 0) {
+      throw new Error(
+        `Refusing to migrate: ${broken
+          .map((s) => `${formatMigration(s)} (${s.state})`)
+          .join(", ")}`
+      );
+    }
+
+    const pendingVersions = new Set(
+      status.filter((s) => s.state === "pending").map((s) => s.version)
+    );
+    for (const migration of await loadMigrations()) {
+      if (!pendingVersions.has(migration.version)) continue;
+
+      console.log(`[DB] Applying migration ${formatMigration(migration)}`);
+      await session.query("BEGIN");
+      try {
+        await session.exec(migration.sql);
+        await session.query(
+          `INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)`,
+          [migration.version, migration.name, migration.checksum]
+        );
+        await session.query("COMMIT");
+      } catch (error) {
+        await session.query("ROLLBACK");
+        throw new Error(
+          `Migration ${formatMigration(migration)} failed: ` +
+            (error instanceof Error ? error.message : String(error))
+        );
+      }
+      applied.push(migration);
+    }
+  } finally {
+    await session
+      .query(`SELECT pg_advisory_unlock($1)`, [MIGRATION_LOCK_KEY])
+      .catch(() => undefined);
+    session.release();
+  }
+
+  return applied;
+}
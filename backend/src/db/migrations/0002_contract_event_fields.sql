@@ -0,0 +1,58 @@
+-- Align stored event fields with the deployed contract ABIs
+--
+-- StreetGovernor.ProposalCreated carries timestamps (snapshot, start, end)
+-- rather than block numbers. FutarchyTreasury.FutarchyProposalCreated carries
+-- the proposer, an IPFS description hash and the PASS/FAIL market ids instead
+-- of a plain-text description.
+
+-- =============================================================================
+-- Proposals: block numbers -> timestamps
+-- =============================================================================
+
+DROP VIEW IF EXISTS proposal_summaries;
+
+ALTER TABLE proposals RENAME COLUMN start_block TO start_time;
+ALTER TABLE proposals RENAME COLUMN end_block TO end_time;
+ALTER TABLE proposals ADD COLUMN snapshot_timestamp BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE proposals ALTER COLUMN snapshot_timestamp DROP DEFAULT;
+
+ALTER INDEX idx_proposals_start_block RENAME TO idx_proposals_start_time;
+ALTER INDEX idx_proposals_end_block RENAME TO idx_proposals_end_time;
+
+CREATE OR REPLACE VIEW proposal_summaries AS
+SELECT
+    p.id,
+    p.proposer,
+    p.title,
+    p.status,
+    p.start_time,
+    p.end_time,
+    p.for_votes,
+    p.against_votes,
+    p.abstain_votes,
+    p.stake_amount,
+    p.created_at,
+    COUNT(DISTINCT v.voter) as unique_voters
+FROM proposals p
+LEFT JOIN votes v ON v.proposal_id = p.id AND NOT v.is_reorged
+WHERE NOT p.is_reorged
+GROUP BY p.id;
+
+-- =============================================================================
+-- Futarchy proposals: on-chain fields from FutarchyProposalCreated
+-- =============================================================================
+
+ALTER TABLE futarchy_proposals ALTER COLUMN description SET DEFAULT ''; -- off-chain, see description_hash
+ALTER TABLE futarchy_proposals ADD COLUMN proposer VARCHAR(42) NOT NULL DEFAULT '';
+ALTER TABLE futarchy_proposals ADD COLUMN description_hash VARCHAR(66) NOT NULL DEFAULT '';
+ALTER TABLE futarchy_proposals ADD COLUMN pass_market_id VARCHAR(78) NOT NULL DEFAULT '0';
+ALTER TABLE futarchy_proposals ADD COLUMN fail_market_id VARCHAR(78) NOT NULL DEFAULT '0';
+ALTER TABLE futarchy_proposals ADD COLUMN resolution_time BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE futarchy_proposals
+    ALTER COLUMN proposer DROP DEFAULT,
+    ALTER COLUMN description_hash DROP DEFAULT,
+    ALTER COLUMN pass_market_id DROP DEFAULT,
+    ALTER COLUMN fail_market_id DROP DEFAULT,
+    ALTER COLUMN resolution_time DROP DEFAULT;
+
+CREATE INDEX IF NOT EXISTS idx_futarchy_proposals_proposer ON futarchy_proposals(proposer) WHERE NOT is_reorged;
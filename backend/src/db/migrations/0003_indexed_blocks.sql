@@ -0,0 +1,13 @@
+-- Indexed block headers
+--
+-- Every block the indexer processes is recorded here, whether or not it
+-- contained events, so reorg detection does not depend on which event types
+-- happened to land in a block.
+
+CREATE TABLE IF NOT EXISTS indexed_blocks (
+    block_number BIGINT PRIMARY KEY,
+    block_hash VARCHAR(66) NOT NULL,
+    parent_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+    indexed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
@@ -0,0 +1,164 @@
+-- Rebuild derived state after a reorg rollback
+--
+-- Aggregates (vote totals, trade volumes, prices) and event-driven statuses
+-- are maintained incrementally as events arrive. Once events are marked
+-- reorged those values are stale, so every surviving parent row touched by
+-- a rollback is recomputed from its remaining non-reorged events.
+
+-- =============================================================================
+-- Per-entity recalculation
+-- =============================================================================
+
+-- Recalculate vote totals, execution/cancellation status and slash amount
+CREATE OR REPLACE FUNCTION recalculate_proposal_state(p_id VARCHAR(78))
+RETURNS VOID AS $$
+DECLARE
+    executed_ts BIGINT;
+    canceled_ts BIGINT;
+BEGIN
+    PERFORM recalculate_proposal_votes(p_id);
+
+    SELECT block_timestamp INTO executed_ts
+    FROM proposal_executions
+    WHERE proposal_id = p_id AND NOT is_reorged
+    ORDER BY block_number, log_index
+    LIMIT 1;
+
+    SELECT block_timestamp INTO canceled_ts
+    FROM proposal_cancellations
+    WHERE proposal_id = p_id AND NOT is_reorged
+    ORDER BY block_number, log_index
+    LIMIT 1;
+
+    UPDATE proposals SET
+        status = CASE
+            WHEN executed_ts IS NOT NULL THEN 'executed'
+            WHEN canceled_ts IS NOT NULL THEN 'canceled'
+            WHEN status IN ('executed', 'canceled') THEN 'pending'
+            ELSE status
+        END,
+        executed_at = to_timestamp(executed_ts),
+        canceled_at = to_timestamp(canceled_ts),
+        slashed_amount = (
+            SELECT slashed_amount
+            FROM slashes
+            WHERE proposal_id = p_id AND NOT is_reorged
+            ORDER BY block_number DESC, log_index DESC
+            LIMIT 1
+        )
+    WHERE id = p_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recalculate vote totals for an edit suggestion
+CREATE OR REPLACE FUNCTION recalculate_suggestion_votes(s_id VARCHAR(78))
+RETURNS VOID AS $$
+BEGIN
+    UPDATE edit_suggestions SET
+        for_votes = COALESCE((
+            SELECT SUM(weight::NUMERIC)::VARCHAR(78)
+            FROM suggestion_votes
+            WHERE suggestion_id = s_id AND support AND NOT is_reorged
+        ), '0'),
+        against_votes = COALESCE((
+            SELECT SUM(weight::NUMERIC)::VARCHAR(78)
+            FROM suggestion_votes
+            WHERE suggestion_id = s_id AND NOT support AND NOT is_reorged
+        ), '0')
+    WHERE id = s_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recalculate volumes, prices and resolution for a futarchy proposal
+CREATE OR REPLACE FUNCTION recalculate_futarchy_state(fp_id VARCHAR(78))
+RETURNS VOID AS $$
+DECLARE
+    resolution RECORD;
+BEGIN
+    PERFORM recalculate_futarchy_volumes(fp_id);
+
+    SELECT passed, yes_price, no_price, block_timestamp INTO resolution
+    FROM futarchy_resolutions
+    WHERE proposal_id = fp_id AND NOT is_reorged
+    ORDER BY block_number, log_index
+    LIMIT 1;
+
+    IF FOUND THEN
+        UPDATE futarchy_proposals SET
+            status = 'resolved',
+            passed = resolution.passed,
+            final_yes_price = resolution.yes_price,
+            final_no_price = resolution.no_price,
+            resolved_at = to_timestamp(resolution.block_timestamp)
+        WHERE id = fp_id;
+    ELSE
+        UPDATE futarchy_proposals SET
+            status = CASE WHEN status = 'resolved' THEN 'active' ELSE status END,
+            passed = NULL,
+            final_yes_price = NULL,
+            final_no_price = NULL,
+            resolved_at = NULL
+        WHERE id = fp_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- Rollback entry point
+-- =============================================================================
+
+-- Recalculate every surviving parent row with events reorged from a block.
+-- Call after mark_reorged_from_block, in the same transaction.
+CREATE OR REPLACE FUNCTION recalculate_from_block(from_block BIGINT)
+RETURNS TABLE(
+    proposals_recalculated BIGINT,
+    suggestions_recalculated BIGINT,
+    futarchy_proposals_recalculated BIGINT
+) AS $$
+DECLARE
+    p_count BIGINT := 0;
+    s_count BIGINT := 0;
+    fp_count BIGINT := 0;
+    entity_id VARCHAR(78);
+BEGIN
+    FOR entity_id IN
+        SELECT p.id FROM proposals p
+        WHERE NOT p.is_reorged AND p.id IN (
+            SELECT proposal_id FROM votes WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM proposal_executions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM proposal_cancellations WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM slashes WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_proposal_state(entity_id);
+        p_count := p_count + 1;
+    END LOOP;
+
+    FOR entity_id IN
+        SELECT s.id FROM edit_suggestions s
+        WHERE NOT s.is_reorged AND s.id IN (
+            SELECT suggestion_id FROM suggestion_votes WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_suggestion_votes(entity_id);
+        s_count := s_count + 1;
+    END LOOP;
+
+    FOR entity_id IN
+        SELECT fp.id FROM futarchy_proposals fp
+        WHERE NOT fp.is_reorged AND fp.id IN (
+            SELECT proposal_id FROM futarchy_trades WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_resolutions WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_futarchy_state(entity_id);
+        fp_count := fp_count + 1;
+    END LOOP;
+
+    RETURN QUERY SELECT p_count, s_count, fp_count;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,490 @@
+-- Full FutarchyTreasury proposal lifecycle
+--
+-- Tracks sells alongside buys and every state transition of
+-- FutarchyTreasury.ProposalState: Active -> Closed (TradingClosed) ->
+-- Resolved (MarketResolved / EmergencyResolution) -> Executed or Rejected,
+-- plus Canceled from Active or Closed. Stake returns, redemptions and
+-- test mode toggles are recorded for accounting.
+
+-- =============================================================================
+-- Trades: buys and sells
+-- =============================================================================
+
+-- For sells amount_in is outcome tokens sold and amount_out collateral received
+ALTER TABLE futarchy_trades ADD COLUMN is_buy BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE futarchy_trades ALTER COLUMN is_buy DROP DEFAULT;
+
+-- =============================================================================
+-- Resolutions: guardian emergency resolutions carry no prices
+-- =============================================================================
+
+ALTER TABLE futarchy_resolutions ALTER COLUMN yes_price DROP NOT NULL;
+ALTER TABLE futarchy_resolutions ALTER COLUMN no_price DROP NOT NULL;
+ALTER TABLE futarchy_resolutions ADD COLUMN emergency BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE futarchy_resolutions ADD COLUMN guardian VARCHAR(42);
+
+-- =============================================================================
+-- Redemptions: outcome tokens burned
+-- =============================================================================
+
+ALTER TABLE futarchy_redemptions ADD COLUMN tokens_redeemed VARCHAR(78) NOT NULL DEFAULT '0';
+ALTER TABLE futarchy_redemptions ALTER COLUMN tokens_redeemed DROP DEFAULT;
+
+-- =============================================================================
+-- Futarchy proposals: lifecycle fields
+-- =============================================================================
+
+ALTER TABLE futarchy_proposals
+    ADD COLUMN closing_pass_price VARCHAR(78), -- Set on TradingClosed
+    ADD COLUMN closing_fail_price VARCHAR(78),
+    ADD COLUMN closed_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN emergency_resolved BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN executed_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN executed_target VARCHAR(42), -- Recipient of the executed transfer
+    ADD COLUMN executed_amount VARCHAR(78), -- KLED moved from the treasury
+    ADD COLUMN rejected_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN canceled_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN stake_returned VARCHAR(78), -- Proposer stake paid back
+    ADD COLUMN total_redeemed VARCHAR(78) NOT NULL DEFAULT '0'; -- KLED paid to winners
+
+-- =============================================================================
+-- Lifecycle event tables
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS futarchy_trading_closures (
+    id SERIAL PRIMARY KEY,
+    proposal_id VARCHAR(78) NOT NULL REFERENCES futarchy_proposals(id),
+    pass_price VARCHAR(78) NOT NULL,
+    fail_price VARCHAR(78) NOT NULL,
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT futarchy_trading_closures_unique_event UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_futarchy_trading_closures_proposal ON futarchy_trading_closures(proposal_id) WHERE NOT is_reorged;
+
+CREATE TABLE IF NOT EXISTS futarchy_executions (
+    id SERIAL PRIMARY KEY,
+    proposal_id VARCHAR(78) NOT NULL REFERENCES futarchy_proposals(id),
+    target VARCHAR(42) NOT NULL,
+    amount VARCHAR(78) NOT NULL,
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT futarchy_executions_unique_event UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_futarchy_executions_proposal ON futarchy_executions(proposal_id) WHERE NOT is_reorged;
+
+CREATE TABLE IF NOT EXISTS futarchy_rejections (
+    id SERIAL PRIMARY KEY,
+    proposal_id VARCHAR(78) NOT NULL REFERENCES futarchy_proposals(id),
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT futarchy_rejections_unique_event UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_futarchy_rejections_proposal ON futarchy_rejections(proposal_id) WHERE NOT is_reorged;
+
+CREATE TABLE IF NOT EXISTS futarchy_cancellations (
+    id SERIAL PRIMARY KEY,
+    proposal_id VARCHAR(78) NOT NULL REFERENCES futarchy_proposals(id),
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT futarchy_cancellations_unique_event UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_futarchy_cancellations_proposal ON futarchy_cancellations(proposal_id) WHERE NOT is_reorged;
+
+CREATE TABLE IF NOT EXISTS futarchy_stake_returns (
+    id SERIAL PRIMARY KEY,
+    proposal_id VARCHAR(78) NOT NULL REFERENCES futarchy_proposals(id),
+    proposer VARCHAR(42) NOT NULL,
+    amount VARCHAR(78) NOT NULL,
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT futarchy_stake_returns_unique_event UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_futarchy_stake_returns_proposal ON futarchy_stake_returns(proposal_id) WHERE NOT is_reorged;
+
+-- Contract-wide, not tied to a proposal
+CREATE TABLE IF NOT EXISTS futarchy_test_mode_changes (
+    id SERIAL PRIMARY KEY,
+    enabled BOOLEAN NOT NULL,
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT futarchy_test_mode_changes_unique_event UNIQUE (tx_hash, log_index)
+);
+
+-- =============================================================================
+-- Reorg handling: soft-delete the new tables too
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION mark_reorged_from_block(from_block BIGINT)
+RETURNS TABLE(
+    proposals_affected BIGINT,
+    votes_affected BIGINT,
+    suggestions_affected BIGINT,
+    suggestion_votes_affected BIGINT,
+    slashes_affected BIGINT,
+    futarchy_proposals_affected BIGINT,
+    futarchy_trades_affected BIGINT
+) AS $$
+DECLARE
+    p_count BIGINT;
+    v_count BIGINT;
+    s_count BIGINT;
+    sv_count BIGINT;
+    sl_count BIGINT;
+    fp_count BIGINT;
+    ft_count BIGINT;
+BEGIN
+    UPDATE proposals
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS p_count = ROW_COUNT;
+
+    UPDATE votes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    UPDATE edit_suggestions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS s_count = ROW_COUNT;
+
+    UPDATE suggestion_votes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS sv_count = ROW_COUNT;
+
+    UPDATE slashes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS sl_count = ROW_COUNT;
+
+    UPDATE proposal_executions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE proposal_cancellations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    -- Futarchy tables
+    UPDATE futarchy_proposals
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS fp_count = ROW_COUNT;
+
+    UPDATE futarchy_trades
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS ft_count = ROW_COUNT;
+
+    UPDATE futarchy_resolutions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_redemptions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_trading_closures
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_executions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_rejections
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_cancellations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_stake_returns
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_test_mode_changes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    RETURN QUERY SELECT p_count, v_count, s_count, sv_count, sl_count, fp_count, ft_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- Recalculation: sells and the full lifecycle
+-- =============================================================================
+
+-- Volume is collateral traded: spent on buys, received on sells
+CREATE OR REPLACE FUNCTION recalculate_futarchy_volumes(fp_id VARCHAR(78))
+RETURNS VOID AS $$
+DECLARE
+    latest_yes_price VARCHAR(78);
+    latest_no_price VARCHAR(78);
+BEGIN
+    -- Get latest prices from most recent trades
+    SELECT new_price INTO latest_yes_price
+    FROM futarchy_trades
+    WHERE proposal_id = fp_id AND is_yes = true AND NOT is_reorged
+    ORDER BY block_number DESC, log_index DESC
+    LIMIT 1;
+
+    SELECT new_price INTO latest_no_price
+    FROM futarchy_trades
+    WHERE proposal_id = fp_id AND is_yes = false AND NOT is_reorged
+    ORDER BY block_number DESC, log_index DESC
+    LIMIT 1;
+
+    UPDATE futarchy_proposals SET
+        total_yes_volume = COALESCE((
+            SELECT SUM(CASE WHEN is_buy THEN amount_in ELSE amount_out END::NUMERIC)::VARCHAR(78)
+            FROM futarchy_trades
+            WHERE proposal_id = fp_id AND is_yes = true AND NOT is_reorged
+        ), '0'),
+        total_no_volume = COALESCE((
+            SELECT SUM(CASE WHEN is_buy THEN amount_in ELSE amount_out END::NUMERIC)::VARCHAR(78)
+            FROM futarchy_trades
+            WHERE proposal_id = fp_id AND is_yes = false AND NOT is_reorged
+        ), '0'),
+        total_trades = COALESCE((
+            SELECT COUNT(*)
+            FROM futarchy_trades
+            WHERE proposal_id = fp_id AND NOT is_reorged
+        ), 0),
+        yes_price = COALESCE(latest_yes_price, '500000000000000000'),
+        no_price = COALESCE(latest_no_price, '500000000000000000')
+    WHERE id = fp_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rebuild lifecycle status, prices and amounts from surviving events
+CREATE OR REPLACE FUNCTION recalculate_futarchy_state(fp_id VARCHAR(78))
+RETURNS VOID AS $$
+DECLARE
+    closure RECORD;
+    resolution RECORD;
+    execution RECORD;
+    rejected_ts BIGINT;
+    canceled_ts BIGINT;
+BEGIN
+    PERFORM recalculate_futarchy_volumes(fp_id);
+
+    SELECT pass_price, fail_price, block_timestamp INTO closure
+    FROM futarchy_trading_closures
+    WHERE proposal_id = fp_id AND NOT is_reorged
+    ORDER BY block_number, log_index
+    LIMIT 1;
+
+    SELECT passed, yes_price, no_price, emergency, block_timestamp INTO resolution
+    FROM futarchy_resolutions
+    WHERE proposal_id = fp_id AND NOT is_reorged
+    ORDER BY block_number, log_index
+    LIMIT 1;
+
+    SELECT target, amount, block_timestamp INTO execution
+    FROM futarchy_executions
+    WHERE proposal_id = fp_id AND NOT is_reorged
+    ORDER BY block_number, log_index
+    LIMIT 1;
+
+    SELECT block_timestamp INTO rejected_ts
+    FROM futarchy_rejections
+    WHERE proposal_id = fp_id AND NOT is_reorged
+    ORDER BY block_number, log_index
+    LIMIT 1;
+
+    SELECT block_timestamp INTO canceled_ts
+    FROM futarchy_cancellations
+    WHERE proposal_id = fp_id AND NOT is_reorged
+    ORDER BY block_number, log_index
+    LIMIT 1;
+
+    UPDATE futarchy_proposals SET
+        status = CASE
+            WHEN canceled_ts IS NOT NULL THEN 'canceled'
+            WHEN execution.block_timestamp IS NOT NULL THEN 'executed'
+            WHEN rejected_ts IS NOT NULL THEN 'rejected'
+            WHEN resolution.block_timestamp IS NOT NULL THEN 'resolved'
+            WHEN closure.block_timestamp IS NOT NULL THEN 'closed'
+            ELSE 'active'
+        END,
+        closing_pass_price = closure.pass_price,
+        closing_fail_price = closure.fail_price,
+        closed_at = to_timestamp(closure.block_timestamp),
+        passed = resolution.passed,
+        final_yes_price = CASE
+            WHEN resolution.block_timestamp IS NOT NULL
+            THEN COALESCE(resolution.yes_price, closure.pass_price)
+        END,
+        final_no_price = CASE
+            WHEN resolution.block_timestamp IS NOT NULL
+            THEN COALESCE(resolution.no_price, closure.fail_price)
+        END,
+        emergency_resolved = COALESCE(resolution.emergency, FALSE),
+        resolved_at = to_timestamp(resolution.block_timestamp),
+        executed_at = to_timestamp(execution.block_timestamp),
+        executed_target = execution.target,
+        executed_amount = execution.amount,
+        rejected_at = to_timestamp(rejected_ts),
+        canceled_at = to_timestamp(canceled_ts),
+        stake_returned = (
+            SELECT amount
+            FROM futarchy_stake_returns
+            WHERE proposal_id = fp_id AND NOT is_reorged
+            ORDER BY block_number DESC, log_index DESC
+            LIMIT 1
+        ),
+        total_redeemed = COALESCE((
+            SELECT SUM(amount::NUMERIC)::VARCHAR(78)
+            FROM futarchy_redemptions
+            WHERE proposal_id = fp_id AND NOT is_reorged
+        ), '0')
+    WHERE id = fp_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION recalculate_from_block(from_block BIGINT)
+RETURNS TABLE(
+    proposals_recalculated BIGINT,
+    suggestions_recalculated BIGINT,
+    futarchy_proposals_recalculated BIGINT
+) AS $$
+DECLARE
+    p_count BIGINT := 0;
+    s_count BIGINT := 0;
+    fp_count BIGINT := 0;
+    entity_id VARCHAR(78);
+BEGIN
+    FOR entity_id IN
+        SELECT p.id FROM proposals p
+        WHERE NOT p.is_reorged AND p.id IN (
+            SELECT proposal_id FROM votes WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM proposal_executions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM proposal_cancellations WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM slashes WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_proposal_state(entity_id);
+        p_count := p_count + 1;
+    END LOOP;
+
+    FOR entity_id IN
+        SELECT s.id FROM edit_suggestions s
+        WHERE NOT s.is_reorged AND s.id IN (
+            SELECT suggestion_id FROM suggestion_votes WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_suggestion_votes(entity_id);
+        s_count := s_count + 1;
+    END LOOP;
+
+    FOR entity_id IN
+        SELECT fp.id FROM futarchy_proposals fp
+        WHERE NOT fp.is_reorged AND fp.id IN (
+            SELECT proposal_id FROM futarchy_trades WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_resolutions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_redemptions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_trading_closures WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_executions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_rejections WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_cancellations WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_stake_returns WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_futarchy_state(entity_id);
+        fp_count := fp_count + 1;
+    END LOOP;
+
+    RETURN QUERY SELECT p_count, s_count, fp_count;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,427 @@
+-- KLEDToken balances, delegation and voting power
+--
+-- Transfer, DelegateChanged and DelegateVotesChanged are stored with full
+-- history, so balances, delegates and voting power at any past timestamp
+-- can be answered from the database instead of balanceOf/getPastVotes.
+-- token_holders and token_delegates cache the latest values.
+
+-- =============================================================================
+-- Event tables
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS token_transfers (
+    id SERIAL PRIMARY KEY,
+    from_address VARCHAR(42) NOT NULL, -- Zero address for mints
+    to_address VARCHAR(42) NOT NULL, -- Zero address for burns
+    value VARCHAR(78) NOT NULL,
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT token_transfers_unique_event UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_transfers_from ON token_transfers(from_address) WHERE NOT is_reorged;
+CREATE INDEX IF NOT EXISTS idx_token_transfers_to ON token_transfers(to_address) WHERE NOT is_reorged;
+CREATE INDEX IF NOT EXISTS idx_token_transfers_block ON token_transfers(block_number);
+
+-- Balance of each party after a transfer; one row per non-zero address
+CREATE TABLE IF NOT EXISTS token_balance_checkpoints (
+    id SERIAL PRIMARY KEY,
+    address VARCHAR(42) NOT NULL,
+    balance VARCHAR(78) NOT NULL,
+
+    -- Event provenance (of the Transfer)
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT token_balance_checkpoints_unique_event UNIQUE (tx_hash, log_index, address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_balance_checkpoints_address ON token_balance_checkpoints(address, block_timestamp) WHERE NOT is_reorged;
+CREATE INDEX IF NOT EXISTS idx_token_balance_checkpoints_block ON token_balance_checkpoints(block_number);
+
+CREATE TABLE IF NOT EXISTS token_delegations (
+    id SERIAL PRIMARY KEY,
+    delegator VARCHAR(42) NOT NULL,
+    from_delegate VARCHAR(42) NOT NULL,
+    to_delegate VARCHAR(42) NOT NULL,
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT token_delegations_unique_event UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_delegations_delegator ON token_delegations(delegator, block_timestamp) WHERE NOT is_reorged;
+CREATE INDEX IF NOT EXISTS idx_token_delegations_to ON token_delegations(to_delegate) WHERE NOT is_reorged;
+CREATE INDEX IF NOT EXISTS idx_token_delegations_block ON token_delegations(block_number);
+
+-- DelegateVotesChanged: ERC20Votes checkpoints
+CREATE TABLE IF NOT EXISTS voting_power_checkpoints (
+    id SERIAL PRIMARY KEY,
+    delegate VARCHAR(42) NOT NULL,
+    previous_votes VARCHAR(78) NOT NULL,
+    new_votes VARCHAR(78) NOT NULL,
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT voting_power_checkpoints_unique_event UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_voting_power_checkpoints_delegate ON voting_power_checkpoints(delegate, block_timestamp) WHERE NOT is_reorged;
+CREATE INDEX IF NOT EXISTS idx_voting_power_checkpoints_block ON voting_power_checkpoints(block_number);
+
+CREATE TABLE IF NOT EXISTS token_mints (
+    id SERIAL PRIMARY KEY,
+    to_address VARCHAR(42) NOT NULL,
+    amount VARCHAR(78) NOT NULL,
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT token_mints_unique_event UNIQUE (tx_hash, log_index)
+);
+
+-- Emitted at most once per token
+CREATE TABLE IF NOT EXISTS token_minting_locks (
+    id SERIAL PRIMARY KEY,
+    locker VARCHAR(42) NOT NULL,
+    total_supply_at_lock VARCHAR(78) NOT NULL,
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT token_minting_locks_unique_event UNIQUE (tx_hash, log_index)
+);
+
+-- =============================================================================
+-- Current state (derived from the event tables above)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS token_holders (
+    address VARCHAR(42) PRIMARY KEY,
+    balance VARCHAR(78) NOT NULL DEFAULT '0',
+    delegate VARCHAR(42), -- NULL until the holder delegates
+    updated_block BIGINT NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_holders_delegate ON token_holders(delegate);
+
+CREATE TABLE IF NOT EXISTS token_delegates (
+    address VARCHAR(42) PRIMARY KEY,
+    voting_power VARCHAR(78) NOT NULL DEFAULT '0',
+    updated_block BIGINT NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- =============================================================================
+-- Reorg handling: soft-delete the token tables too
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION mark_reorged_from_block(from_block BIGINT)
+RETURNS TABLE(
+    proposals_affected BIGINT,
+    votes_affected BIGINT,
+    suggestions_affected BIGINT,
+    suggestion_votes_affected BIGINT,
+    slashes_affected BIGINT,
+    futarchy_proposals_affected BIGINT,
+    futarchy_trades_affected BIGINT
+) AS $$
+DECLARE
+    p_count BIGINT;
+    v_count BIGINT;
+    s_count BIGINT;
+    sv_count BIGINT;
+    sl_count BIGINT;
+    fp_count BIGINT;
+    ft_count BIGINT;
+BEGIN
+    UPDATE proposals
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS p_count = ROW_COUNT;
+
+    UPDATE votes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    UPDATE edit_suggestions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS s_count = ROW_COUNT;
+
+    UPDATE suggestion_votes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS sv_count = ROW_COUNT;
+
+    UPDATE slashes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS sl_count = ROW_COUNT;
+
+    UPDATE proposal_executions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE proposal_cancellations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    -- Futarchy tables
+    UPDATE futarchy_proposals
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS fp_count = ROW_COUNT;
+
+    UPDATE futarchy_trades
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS ft_count = ROW_COUNT;
+
+    UPDATE futarchy_resolutions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_redemptions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_trading_closures
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_executions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_rejections
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_cancellations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_stake_returns
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_test_mode_changes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    -- Token tables
+    UPDATE token_transfers
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_balance_checkpoints
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_delegations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE voting_power_checkpoints
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_mints
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_minting_locks
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    RETURN QUERY SELECT p_count, v_count, s_count, sv_count, sl_count, fp_count, ft_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- Recalculation: token accounts
+-- =============================================================================
+
+-- Reset an account's balance, delegate and voting power to its latest
+-- surviving checkpoints
+CREATE OR REPLACE FUNCTION recalculate_token_account(account VARCHAR(42))
+RETURNS VOID AS $$
+BEGIN
+    UPDATE token_holders SET
+        balance = COALESCE((
+            SELECT balance
+            FROM token_balance_checkpoints
+            WHERE address = account AND NOT is_reorged
+            ORDER BY block_number DESC, log_index DESC
+            LIMIT 1
+        ), '0'),
+        delegate = (
+            SELECT to_delegate
+            FROM token_delegations
+            WHERE delegator = account AND NOT is_reorged
+            ORDER BY block_number DESC, log_index DESC
+            LIMIT 1
+        ),
+        updated_at = NOW()
+    WHERE address = account;
+
+    UPDATE token_delegates SET
+        voting_power = COALESCE((
+            SELECT new_votes
+            FROM voting_power_checkpoints
+            WHERE delegate = account AND NOT is_reorged
+            ORDER BY block_number DESC, log_index DESC
+            LIMIT 1
+        ), '0'),
+        updated_at = NOW()
+    WHERE address = account;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The result columns change, so the function is dropped and recreated
+DROP FUNCTION IF EXISTS recalculate_from_block(BIGINT);
+
+CREATE FUNCTION recalculate_from_block(from_block BIGINT)
+RETURNS TABLE(
+    proposals_recalculated BIGINT,
+    suggestions_recalculated BIGINT,
+    futarchy_proposals_recalculated BIGINT,
+    token_accounts_recalculated BIGINT
+) AS $$
+DECLARE
+    p_count BIGINT := 0;
+    s_count BIGINT := 0;
+    fp_count BIGINT := 0;
+    ta_count BIGINT := 0;
+    entity_id VARCHAR(78);
+BEGIN
+    FOR entity_id IN
+        SELECT p.id FROM proposals p
+        WHERE NOT p.is_reorged AND p.id IN (
+            SELECT proposal_id FROM votes WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM proposal_executions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM proposal_cancellations WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM slashes WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_proposal_state(entity_id);
+        p_count := p_count + 1;
+    END LOOP;
+
+    FOR entity_id IN
+        SELECT s.id FROM edit_suggestions s
+        WHERE NOT s.is_reorged AND s.id IN (
+            SELECT suggestion_id FROM suggestion_votes WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_suggestion_votes(entity_id);
+        s_count := s_count + 1;
+    END LOOP;
+
+    FOR entity_id IN
+        SELECT fp.id FROM futarchy_proposals fp
+        WHERE NOT fp.is_reorged AND fp.id IN (
+            SELECT proposal_id FROM futarchy_trades WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_resolutions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_redemptions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_trading_closures WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_executions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_rejections WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_cancellations WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_stake_returns WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_futarchy_state(entity_id);
+        fp_count := fp_count + 1;
+    END LOOP;
+
+    FOR entity_id IN
+        SELECT address FROM token_balance_checkpoints WHERE is_reorged AND block_number >= from_block
+        UNION
+        SELECT delegator FROM token_delegations WHERE is_reorged AND block_number >= from_block
+        UNION
+        SELECT delegate FROM voting_power_checkpoints WHERE is_reorged AND block_number >= from_block
+    LOOP
+        PERFORM recalculate_token_account(entity_id);
+        ta_count := ta_count + 1;
+    END LOOP;
+
+    RETURN QUERY SELECT p_count, s_count, fp_count, ta_count;
+END;
+$$ LANGUAGE plpgsql;
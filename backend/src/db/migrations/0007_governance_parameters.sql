@@ -0,0 +1,180 @@
+-- Governance parameter history
+--
+-- StreetGovernor admin events (QuorumUpdated, ThresholdUpdated,
+-- VotingDelayUpdated, VotingPeriodUpdated, Paused/Unpaused, GuardianUpdated,
+-- TreasuryUpdated) are kept as a change log; current values are the latest
+-- surviving change per parameter. The constructor only emits GuardianUpdated
+-- and TreasuryUpdated, so the other parameters are unknown until first changed.
+--
+-- Proposals also record the quorum and threshold their outcome was decided
+-- with, read from the governor at the deciding block.
+
+-- =============================================================================
+-- Parameter changes
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS governance_parameters (
+    id SERIAL PRIMARY KEY,
+    parameter VARCHAR(32) NOT NULL, -- quorumBps, thresholdBps, votingDelay, votingPeriod, paused, guardian, treasury
+    previous_value VARCHAR(78), -- NULL for paused (Paused/Unpaused carry no previous state)
+    new_value VARCHAR(78) NOT NULL, -- uint256 as decimal string, address, or 'true'/'false'
+    updated_by VARCHAR(42), -- Guardian for Paused/Unpaused
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT governance_parameters_unique_event UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_governance_parameters_parameter ON governance_parameters(parameter, block_number DESC) WHERE NOT is_reorged;
+CREATE INDEX IF NOT EXISTS idx_governance_parameters_block ON governance_parameters(block_number);
+
+-- =============================================================================
+-- Proposals: parameters the outcome was decided with
+-- =============================================================================
+
+ALTER TABLE proposals
+    ADD COLUMN quorum_votes VARCHAR(78), -- quorum(id) at the deciding block
+    ADD COLUMN threshold_bps VARCHAR(78); -- thresholdBps() at the deciding block
+
+-- =============================================================================
+-- Reorg handling: soft-delete parameter changes too
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION mark_reorged_from_block(from_block BIGINT)
+RETURNS TABLE(
+    proposals_affected BIGINT,
+    votes_affected BIGINT,
+    suggestions_affected BIGINT,
+    suggestion_votes_affected BIGINT,
+    slashes_affected BIGINT,
+    futarchy_proposals_affected BIGINT,
+    futarchy_trades_affected BIGINT
+) AS $$
+DECLARE
+    p_count BIGINT;
+    v_count BIGINT;
+    s_count BIGINT;
+    sv_count BIGINT;
+    sl_count BIGINT;
+    fp_count BIGINT;
+    ft_count BIGINT;
+BEGIN
+    UPDATE proposals
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS p_count = ROW_COUNT;
+
+    UPDATE votes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    UPDATE edit_suggestions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS s_count = ROW_COUNT;
+
+    UPDATE suggestion_votes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS sv_count = ROW_COUNT;
+
+    UPDATE slashes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS sl_count = ROW_COUNT;
+
+    UPDATE proposal_executions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE proposal_cancellations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    -- Futarchy tables
+    UPDATE futarchy_proposals
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS fp_count = ROW_COUNT;
+
+    UPDATE futarchy_trades
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS ft_count = ROW_COUNT;
+
+    UPDATE futarchy_resolutions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_redemptions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_trading_closures
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_executions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_rejections
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_cancellations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_stake_returns
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_test_mode_changes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    -- Token tables
+    UPDATE token_transfers
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_balance_checkpoints
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_delegations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE voting_power_checkpoints
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_mints
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_minting_locks
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE governance_parameters
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    RETURN QUERY SELECT p_count, v_count, s_count, sv_count, sl_count, fp_count, ft_count;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,376 @@
+-- Edit suggestion outcomes and proposal revisions
+--
+-- SuggestionFinalized moves a suggestion to accepted or rejected, and
+-- SuggestionStakeClaimed records whether its stake was returned or slashed.
+-- Every accepted suggestion becomes a new version of its proposal's
+-- description in proposal_revisions (version 0 is proposals.description).
+
+-- =============================================================================
+-- Event tables
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS suggestion_finalizations (
+    id SERIAL PRIMARY KEY,
+    suggestion_id VARCHAR(78) NOT NULL REFERENCES edit_suggestions(id),
+    accepted BOOLEAN NOT NULL,
+    for_votes VARCHAR(78) NOT NULL,
+    against_votes VARCHAR(78) NOT NULL,
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT suggestion_finalizations_unique_event UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_suggestion_finalizations_suggestion ON suggestion_finalizations(suggestion_id) WHERE NOT is_reorged;
+CREATE INDEX IF NOT EXISTS idx_suggestion_finalizations_block ON suggestion_finalizations(block_number);
+
+CREATE TABLE IF NOT EXISTS suggestion_stake_claims (
+    id SERIAL PRIMARY KEY,
+    suggestion_id VARCHAR(78) NOT NULL REFERENCES edit_suggestions(id),
+    suggester VARCHAR(42) NOT NULL,
+    amount VARCHAR(78) NOT NULL, -- Amount paid back to the suggester
+    slashed BOOLEAN NOT NULL,
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT suggestion_stake_claims_unique_event UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_suggestion_stake_claims_suggestion ON suggestion_stake_claims(suggestion_id) WHERE NOT is_reorged;
+CREATE INDEX IF NOT EXISTS idx_suggestion_stake_claims_block ON suggestion_stake_claims(block_number);
+
+-- =============================================================================
+-- Suggestions: outcome and stake
+-- =============================================================================
+
+ALTER TABLE edit_suggestions
+    ADD COLUMN finalized_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN stake_returned VARCHAR(78), -- NULL until the stake is claimed
+    ADD COLUMN stake_slashed BOOLEAN;
+
+-- =============================================================================
+-- Proposal revisions
+-- =============================================================================
+
+-- One row per accepted suggestion, written when its SuggestionFinalized
+-- event is indexed. Provenance is that of the finalization.
+CREATE TABLE IF NOT EXISTS proposal_revisions (
+    id SERIAL PRIMARY KEY,
+    proposal_id VARCHAR(78) NOT NULL REFERENCES proposals(id),
+    version INTEGER NOT NULL, -- 1 for the first accepted suggestion
+    suggestion_id VARCHAR(78) NOT NULL REFERENCES edit_suggestions(id),
+    description TEXT NOT NULL, -- Full description after this revision
+    replaced_text TEXT, -- Passage matching original_hash, NULL if not found
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT proposal_revisions_unique_event UNIQUE (tx_hash, log_index)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_proposal_revisions_version ON proposal_revisions(proposal_id, version) WHERE NOT is_reorged;
+CREATE INDEX IF NOT EXISTS idx_proposal_revisions_block ON proposal_revisions(block_number);
+
+-- =============================================================================
+-- Reorg handling
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION mark_reorged_from_block(from_block BIGINT)
+RETURNS TABLE(
+    proposals_affected BIGINT,
+    votes_affected BIGINT,
+    suggestions_affected BIGINT,
+    suggestion_votes_affected BIGINT,
+    slashes_affected BIGINT,
+    futarchy_proposals_affected BIGINT,
+    futarchy_trades_affected BIGINT
+) AS $$
+DECLARE
+    p_count BIGINT;
+    v_count BIGINT;
+    s_count BIGINT;
+    sv_count BIGINT;
+    sl_count BIGINT;
+    fp_count BIGINT;
+    ft_count BIGINT;
+BEGIN
+    UPDATE proposals
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS p_count = ROW_COUNT;
+
+    UPDATE votes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    UPDATE edit_suggestions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS s_count = ROW_COUNT;
+
+    UPDATE suggestion_votes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS sv_count = ROW_COUNT;
+
+    UPDATE slashes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS sl_count = ROW_COUNT;
+
+    UPDATE proposal_executions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE proposal_cancellations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    -- Futarchy tables
+    UPDATE futarchy_proposals
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS fp_count = ROW_COUNT;
+
+    UPDATE futarchy_trades
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS ft_count = ROW_COUNT;
+
+    UPDATE futarchy_resolutions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_redemptions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_trading_closures
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_executions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_rejections
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_cancellations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_stake_returns
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_test_mode_changes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    -- Token tables
+    UPDATE token_transfers
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_balance_checkpoints
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_delegations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE voting_power_checkpoints
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_mints
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_minting_locks
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE governance_parameters
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    -- Suggestion outcomes and revisions
+    UPDATE suggestion_finalizations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE suggestion_stake_claims
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE proposal_revisions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    RETURN QUERY SELECT p_count, v_count, s_count, sv_count, sl_count, fp_count, ft_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recalculate vote totals, outcome and stake claim for an edit suggestion.
+-- Without a surviving finalization the suggestion goes back to 'expired' and
+-- the status engine moves it to its window's status on the next batch.
+CREATE OR REPLACE FUNCTION recalculate_suggestion_state(s_id VARCHAR(78))
+RETURNS VOID AS $$
+DECLARE
+    finalization RECORD;
+    claim RECORD;
+BEGIN
+    PERFORM recalculate_suggestion_votes(s_id);
+
+    SELECT accepted, for_votes, against_votes, block_timestamp INTO finalization
+    FROM suggestion_finalizations
+    WHERE suggestion_id = s_id AND NOT is_reorged
+    ORDER BY block_number, log_index
+    LIMIT 1;
+
+    IF FOUND THEN
+        UPDATE edit_suggestions SET
+            status = CASE WHEN finalization.accepted THEN 'accepted' ELSE 'rejected' END,
+            for_votes = finalization.for_votes,
+            against_votes = finalization.against_votes,
+            finalized_at = to_timestamp(finalization.block_timestamp)
+        WHERE id = s_id;
+    ELSE
+        UPDATE edit_suggestions SET
+            status = CASE WHEN status IN ('accepted', 'rejected') THEN 'expired' ELSE status END,
+            finalized_at = NULL
+        WHERE id = s_id;
+    END IF;
+
+    SELECT amount, slashed INTO claim
+    FROM suggestion_stake_claims
+    WHERE suggestion_id = s_id AND NOT is_reorged
+    ORDER BY block_number, log_index
+    LIMIT 1;
+
+    UPDATE edit_suggestions SET
+        stake_returned = claim.amount,
+        stake_slashed = claim.slashed
+    WHERE id = s_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION recalculate_from_block(from_block BIGINT)
+RETURNS TABLE(
+    proposals_recalculated BIGINT,
+    suggestions_recalculated BIGINT,
+    futarchy_proposals_recalculated BIGINT,
+    token_accounts_recalculated BIGINT
+) AS $$
+DECLARE
+    p_count BIGINT := 0;
+    s_count BIGINT := 0;
+    fp_count BIGINT := 0;
+    ta_count BIGINT := 0;
+    entity_id VARCHAR(78);
+BEGIN
+    FOR entity_id IN
+        SELECT p.id FROM proposals p
+        WHERE NOT p.is_reorged AND p.id IN (
+            SELECT proposal_id FROM votes WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM proposal_executions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM proposal_cancellations WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM slashes WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_proposal_state(entity_id);
+        p_count := p_count + 1;
+    END LOOP;
+
+    FOR entity_id IN
+        SELECT s.id FROM edit_suggestions s
+        WHERE NOT s.is_reorged AND s.id IN (
+            SELECT suggestion_id FROM suggestion_votes WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT suggestion_id FROM suggestion_finalizations WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT suggestion_id FROM suggestion_stake_claims WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_suggestion_state(entity_id);
+        s_count := s_count + 1;
+    END LOOP;
+
+    FOR entity_id IN
+        SELECT fp.id FROM futarchy_proposals fp
+        WHERE NOT fp.is_reorged AND fp.id IN (
+            SELECT proposal_id FROM futarchy_trades WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_resolutions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_redemptions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_trading_closures WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_executions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_rejections WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_cancellations WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_stake_returns WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_futarchy_state(entity_id);
+        fp_count := fp_count + 1;
+    END LOOP;
+
+    FOR entity_id IN
+        SELECT address FROM token_balance_checkpoints WHERE is_reorged AND block_number >= from_block
+        UNION
+        SELECT delegator FROM token_delegations WHERE is_reorged AND block_number >= from_block
+        UNION
+        SELECT delegate FROM voting_power_checkpoints WHERE is_reorged AND block_number >= from_block
+    LOOP
+        PERFORM recalculate_token_account(entity_id);
+        ta_count := ta_count + 1;
+    END LOOP;
+
+    RETURN QUERY SELECT p_count, s_count, fp_count, ta_count;
+END;
+$$ LANGUAGE plpgsql;
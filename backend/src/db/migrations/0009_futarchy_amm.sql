@@ -0,0 +1,251 @@
+-- FutarchyAMM markets
+--
+-- Each futarchy proposal trades in two LMSR markets on FutarchyAMM (PASS and
+-- FAIL). Only events are stored: outstanding tokens, prices and the TWAP
+-- accumulators are replayed from amm_trades on read, so a rollback needs no
+-- recalculation beyond soft-deleting events.
+
+-- =============================================================================
+-- Markets
+-- =============================================================================
+
+-- MarketCreated is emitted before FutarchyProposalCreated in the same
+-- transaction, so proposal_id has no foreign key.
+CREATE TABLE IF NOT EXISTS amm_markets (
+    id VARCHAR(78) PRIMARY KEY, -- marketId as decimal string
+    proposal_id VARCHAR(78) NOT NULL, -- futarchy_proposals.id
+    is_pass BOOLEAN NOT NULL,
+    liquidity VARCHAR(78) NOT NULL, -- LMSR b
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT amm_markets_unique_event UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_amm_markets_proposal ON amm_markets(proposal_id) WHERE NOT is_reorged;
+CREATE INDEX IF NOT EXISTS idx_amm_markets_block ON amm_markets(block_number);
+
+-- =============================================================================
+-- Trades and closures
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS amm_trades (
+    id SERIAL PRIMARY KEY,
+    market_id VARCHAR(78) NOT NULL REFERENCES amm_markets(id),
+    is_buy BOOLEAN NOT NULL,
+    is_yes BOOLEAN NOT NULL,
+    tokens VARCHAR(78) NOT NULL, -- Outcome tokens bought or sold
+    collateral VARCHAR(78) NOT NULL, -- KLED cost (buy) or returned (sell)
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT amm_trades_unique_event UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_amm_trades_market ON amm_trades(market_id, block_number, log_index) WHERE NOT is_reorged;
+CREATE INDEX IF NOT EXISTS idx_amm_trades_block ON amm_trades(block_number);
+
+CREATE TABLE IF NOT EXISTS amm_market_closures (
+    id SERIAL PRIMARY KEY,
+    market_id VARCHAR(78) NOT NULL REFERENCES amm_markets(id),
+    final_yes_price VARCHAR(78) NOT NULL, -- getTWAP(marketId, DEFAULT_TWAP_WINDOW)
+    final_no_price VARCHAR(78) NOT NULL,
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT amm_market_closures_unique_event UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_amm_market_closures_market ON amm_market_closures(market_id) WHERE NOT is_reorged;
+CREATE INDEX IF NOT EXISTS idx_amm_market_closures_block ON amm_market_closures(block_number);
+
+-- =============================================================================
+-- Reorg handling
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION mark_reorged_from_block(from_block BIGINT)
+RETURNS TABLE(
+    proposals_affected BIGINT,
+    votes_affected BIGINT,
+    suggestions_affected BIGINT,
+    suggestion_votes_affected BIGINT,
+    slashes_affected BIGINT,
+    futarchy_proposals_affected BIGINT,
+    futarchy_trades_affected BIGINT
+) AS $$
+DECLARE
+    p_count BIGINT;
+    v_count BIGINT;
+    s_count BIGINT;
+    sv_count BIGINT;
+    sl_count BIGINT;
+    fp_count BIGINT;
+    ft_count BIGINT;
+BEGIN
+    UPDATE proposals
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS p_count = ROW_COUNT;
+
+    UPDATE votes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    UPDATE edit_suggestions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS s_count = ROW_COUNT;
+
+    UPDATE suggestion_votes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS sv_count = ROW_COUNT;
+
+    UPDATE slashes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS sl_count = ROW_COUNT;
+
+    UPDATE proposal_executions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE proposal_cancellations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    -- Futarchy tables
+    UPDATE futarchy_proposals
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS fp_count = ROW_COUNT;
+
+    UPDATE futarchy_trades
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS ft_count = ROW_COUNT;
+
+    UPDATE futarchy_resolutions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_redemptions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_trading_closures
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_executions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_rejections
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_cancellations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_stake_returns
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_test_mode_changes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    -- Token tables
+    UPDATE token_transfers
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_balance_checkpoints
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_delegations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE voting_power_checkpoints
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_mints
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_minting_locks
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE governance_parameters
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    -- Suggestion outcomes and revisions
+    UPDATE suggestion_finalizations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE suggestion_stake_claims
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE proposal_revisions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    -- AMM tables
+    UPDATE amm_markets
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE amm_trades
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE amm_market_closures
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    RETURN QUERY SELECT p_count, v_count, s_count, sv_count, sl_count, fp_count, ft_count;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,405 @@
+-- ConditionalTokens outcome positions
+--
+-- PASS/FAIL outcome tokens are ERC-1155 ids,
+-- keccak256(abi.encodePacked(proposalId, isPass)). Balances follow the
+-- TransferSingle/TransferBatch events, which also cover mints (from the zero
+-- address) and burns (to the zero address). OutcomeTokensMinted/Burned carry
+-- the proposal and outcome of each id; outcome_positions caches balances.
+
+-- =============================================================================
+-- Event tables
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS outcome_token_mints (
+    id SERIAL PRIMARY KEY,
+    proposal_id VARCHAR(78) NOT NULL, -- futarchy_proposals.id
+    to_address VARCHAR(42) NOT NULL,
+    is_pass BOOLEAN NOT NULL,
+    token_id VARCHAR(78) NOT NULL,
+    amount VARCHAR(78) NOT NULL,
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT outcome_token_mints_unique_event UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_outcome_token_mints_proposal ON outcome_token_mints(proposal_id) WHERE NOT is_reorged;
+CREATE INDEX IF NOT EXISTS idx_outcome_token_mints_token ON outcome_token_mints(token_id) WHERE NOT is_reorged;
+CREATE INDEX IF NOT EXISTS idx_outcome_token_mints_block ON outcome_token_mints(block_number);
+
+CREATE TABLE IF NOT EXISTS outcome_token_burns (
+    id SERIAL PRIMARY KEY,
+    proposal_id VARCHAR(78) NOT NULL, -- futarchy_proposals.id
+    from_address VARCHAR(42) NOT NULL,
+    is_pass BOOLEAN NOT NULL,
+    token_id VARCHAR(78) NOT NULL,
+    amount VARCHAR(78) NOT NULL,
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT outcome_token_burns_unique_event UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_outcome_token_burns_proposal ON outcome_token_burns(proposal_id) WHERE NOT is_reorged;
+CREATE INDEX IF NOT EXISTS idx_outcome_token_burns_block ON outcome_token_burns(block_number);
+
+-- One row per id: TransferBatch is split into rows numbered by batch_index
+CREATE TABLE IF NOT EXISTS outcome_token_transfers (
+    id SERIAL PRIMARY KEY,
+    operator VARCHAR(42) NOT NULL,
+    from_address VARCHAR(42) NOT NULL, -- Zero address for mints
+    to_address VARCHAR(42) NOT NULL, -- Zero address for burns
+    token_id VARCHAR(78) NOT NULL,
+    value VARCHAR(78) NOT NULL,
+    batch_index INTEGER NOT NULL DEFAULT 0,
+
+    -- Event provenance
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    block_timestamp BIGINT NOT NULL,
+
+    -- Reorg handling
+    is_reorged BOOLEAN NOT NULL DEFAULT FALSE,
+    reorged_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT outcome_token_transfers_unique_event UNIQUE (tx_hash, log_index, batch_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_outcome_token_transfers_from ON outcome_token_transfers(from_address, token_id) WHERE NOT is_reorged;
+CREATE INDEX IF NOT EXISTS idx_outcome_token_transfers_to ON outcome_token_transfers(to_address, token_id) WHERE NOT is_reorged;
+CREATE INDEX IF NOT EXISTS idx_outcome_token_transfers_block ON outcome_token_transfers(block_number);
+
+-- =============================================================================
+-- Current state (derived from outcome_token_transfers)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS outcome_positions (
+    account VARCHAR(42) NOT NULL,
+    token_id VARCHAR(78) NOT NULL,
+    balance VARCHAR(78) NOT NULL DEFAULT '0',
+    updated_block BIGINT NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    PRIMARY KEY (account, token_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_outcome_positions_token ON outcome_positions(token_id);
+
+-- =============================================================================
+-- Reorg handling
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION mark_reorged_from_block(from_block BIGINT)
+RETURNS TABLE(
+    proposals_affected BIGINT,
+    votes_affected BIGINT,
+    suggestions_affected BIGINT,
+    suggestion_votes_affected BIGINT,
+    slashes_affected BIGINT,
+    futarchy_proposals_affected BIGINT,
+    futarchy_trades_affected BIGINT
+) AS $$
+DECLARE
+    p_count BIGINT;
+    v_count BIGINT;
+    s_count BIGINT;
+    sv_count BIGINT;
+    sl_count BIGINT;
+    fp_count BIGINT;
+    ft_count BIGINT;
+BEGIN
+    UPDATE proposals
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS p_count = ROW_COUNT;
+
+    UPDATE votes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    UPDATE edit_suggestions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS s_count = ROW_COUNT;
+
+    UPDATE suggestion_votes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS sv_count = ROW_COUNT;
+
+    UPDATE slashes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS sl_count = ROW_COUNT;
+
+    UPDATE proposal_executions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE proposal_cancellations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    -- Futarchy tables
+    UPDATE futarchy_proposals
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS fp_count = ROW_COUNT;
+
+    UPDATE futarchy_trades
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+    GET DIAGNOSTICS ft_count = ROW_COUNT;
+
+    UPDATE futarchy_resolutions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_redemptions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_trading_closures
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_executions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_rejections
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_cancellations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_stake_returns
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE futarchy_test_mode_changes
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    -- Token tables
+    UPDATE token_transfers
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_balance_checkpoints
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_delegations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE voting_power_checkpoints
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_mints
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE token_minting_locks
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE governance_parameters
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    -- Suggestion outcomes and revisions
+    UPDATE suggestion_finalizations
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE suggestion_stake_claims
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE proposal_revisions
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    -- AMM tables
+    UPDATE amm_markets
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE amm_trades
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE amm_market_closures
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    -- Outcome token tables
+    UPDATE outcome_token_mints
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE outcome_token_burns
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    UPDATE outcome_token_transfers
+    SET is_reorged = TRUE, reorged_at = NOW()
+    WHERE block_number >= from_block AND NOT is_reorged;
+
+    RETURN QUERY SELECT p_count, v_count, s_count, sv_count, sl_count, fp_count, ft_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reset a position to the sum of its surviving transfers
+CREATE OR REPLACE FUNCTION recalculate_outcome_position(p_account VARCHAR(42), p_token_id VARCHAR(78))
+RETURNS VOID AS $$
+BEGIN
+    UPDATE outcome_positions SET
+        balance = (
+            COALESCE((
+                SELECT SUM(value::NUMERIC) FROM outcome_token_transfers
+                WHERE to_address = p_account AND token_id = p_token_id AND NOT is_reorged
+            ), 0) - COALESCE((
+                SELECT SUM(value::NUMERIC) FROM outcome_token_transfers
+                WHERE from_address = p_account AND token_id = p_token_id AND NOT is_reorged
+            ), 0)
+        )::VARCHAR(78),
+        updated_at = NOW()
+    WHERE account = p_account AND token_id = p_token_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The result columns change, so the function is dropped and recreated
+DROP FUNCTION IF EXISTS recalculate_from_block(BIGINT);
+
+CREATE FUNCTION recalculate_from_block(from_block BIGINT)
+RETURNS TABLE(
+    proposals_recalculated BIGINT,
+    suggestions_recalculated BIGINT,
+    futarchy_proposals_recalculated BIGINT,
+    token_accounts_recalculated BIGINT,
+    outcome_positions_recalculated BIGINT
+) AS $$
+DECLARE
+    p_count BIGINT := 0;
+    s_count BIGINT := 0;
+    fp_count BIGINT := 0;
+    ta_count BIGINT := 0;
+    op_count BIGINT := 0;
+    entity_id VARCHAR(78);
+    pos RECORD;
+BEGIN
+    FOR entity_id IN
+        SELECT p.id FROM proposals p
+        WHERE NOT p.is_reorged AND p.id IN (
+            SELECT proposal_id FROM votes WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM proposal_executions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM proposal_cancellations WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM slashes WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_proposal_state(entity_id);
+        p_count := p_count + 1;
+    END LOOP;
+
+    FOR entity_id IN
+        SELECT s.id FROM edit_suggestions s
+        WHERE NOT s.is_reorged AND s.id IN (
+            SELECT suggestion_id FROM suggestion_votes WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT suggestion_id FROM suggestion_finalizations WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT suggestion_id FROM suggestion_stake_claims WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_suggestion_state(entity_id);
+        s_count := s_count + 1;
+    END LOOP;
+
+    FOR entity_id IN
+        SELECT fp.id FROM futarchy_proposals fp
+        WHERE NOT fp.is_reorged AND fp.id IN (
+            SELECT proposal_id FROM futarchy_trades WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_resolutions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_redemptions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_trading_closures WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_executions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_rejections WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_cancellations WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_stake_returns WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_futarchy_state(entity_id);
+        fp_count := fp_count + 1;
+    END LOOP;
+
+    FOR entity_id IN
+        SELECT address FROM token_balance_checkpoints WHERE is_reorged AND block_number >= from_block
+        UNION
+        SELECT delegator FROM token_delegations WHERE is_reorged AND block_number >= from_block
+        UNION
+        SELECT delegate FROM voting_power_checkpoints WHERE is_reorged AND block_number >= from_block
+    LOOP
+        PERFORM recalculate_token_account(entity_id);
+        ta_count := ta_count + 1;
+    END LOOP;
+
+    FOR pos IN
+        SELECT op.account, op.token_id FROM outcome_positions op
+        WHERE (op.account, op.token_id) IN (
+            SELECT from_address, token_id FROM outcome_token_transfers
+            WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT to_address, token_id FROM outcome_token_transfers
+            WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_outcome_position(pos.account, pos.token_id);
+        op_count := op_count + 1;
+    END LOOP;
+
+    RETURN QUERY SELECT p_count, s_count, fp_count, ta_count, op_count;
+END;
+$$ LANGUAGE plpgsql;
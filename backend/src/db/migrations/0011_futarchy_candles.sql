@@ -0,0 +1,182 @@
+-- OHLCV candles of futarchy PASS/FAIL markets
+--
+-- One row per market, interval and bucket, updated as each trade is indexed.
+-- Prices are the trade's new_price (the market's YES price after the trade);
+-- volume is KLED traded in either direction. After a reorg, the buckets from
+-- the earliest orphaned trade onward are rebuilt from the surviving trades.
+
+CREATE TABLE IF NOT EXISTS futarchy_candles (
+    proposal_id VARCHAR(78) NOT NULL REFERENCES futarchy_proposals(id),
+    is_pass BOOLEAN NOT NULL, -- futarchy_trades.is_yes
+    interval_seconds INTEGER NOT NULL,
+    bucket_start BIGINT NOT NULL, -- Unix seconds, a multiple of interval_seconds
+    open VARCHAR(78) NOT NULL,
+    high VARCHAR(78) NOT NULL,
+    low VARCHAR(78) NOT NULL,
+    close VARCHAR(78) NOT NULL,
+    volume VARCHAR(78) NOT NULL,
+    trades INTEGER NOT NULL,
+    updated_block BIGINT NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    PRIMARY KEY (proposal_id, is_pass, interval_seconds, bucket_start)
+);
+
+-- =============================================================================
+-- Rebuild from trades
+-- =============================================================================
+
+-- Recompute every bucket of a market that ends after from_timestamp.
+-- The intervals must match CANDLE_INTERVALS in src/types.
+CREATE OR REPLACE FUNCTION rebuild_futarchy_candles(
+    p_id VARCHAR(78),
+    p_is_pass BOOLEAN,
+    from_timestamp BIGINT
+)
+RETURNS VOID AS $$
+BEGIN
+    DELETE FROM futarchy_candles
+    WHERE proposal_id = p_id AND is_pass = p_is_pass
+      AND bucket_start + interval_seconds > from_timestamp;
+
+    INSERT INTO futarchy_candles (
+        proposal_id, is_pass, interval_seconds, bucket_start,
+        open, high, low, close, volume, trades, updated_block
+    )
+    SELECT
+        p_id,
+        p_is_pass,
+        i.seconds,
+        t.block_timestamp - t.block_timestamp % i.seconds AS bucket,
+        (ARRAY_AGG(t.new_price ORDER BY t.block_number, t.log_index))[1],
+        MAX(t.new_price::NUMERIC)::VARCHAR(78),
+        MIN(t.new_price::NUMERIC)::VARCHAR(78),
+        (ARRAY_AGG(t.new_price ORDER BY t.block_number DESC, t.log_index DESC))[1],
+        SUM(CASE WHEN t.is_buy THEN t.amount_in ELSE t.amount_out END::NUMERIC)::VARCHAR(78),
+        COUNT(*),
+        MAX(t.block_number)
+    FROM futarchy_trades t
+    CROSS JOIN (VALUES (60), (300), (3600), (86400)) AS i(seconds)
+    WHERE t.proposal_id = p_id AND t.is_yes = p_is_pass AND NOT t.is_reorged
+      AND t.block_timestamp - t.block_timestamp % i.seconds + i.seconds > from_timestamp
+    GROUP BY i.seconds, t.block_timestamp - t.block_timestamp % i.seconds;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Backfill markets traded before this migration
+SELECT rebuild_futarchy_candles(proposal_id, is_yes, 0)
+FROM (SELECT DISTINCT proposal_id, is_yes FROM futarchy_trades WHERE NOT is_reorged) markets;
+
+-- =============================================================================
+-- Reorg handling
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION recalculate_from_block(from_block BIGINT)
+RETURNS TABLE(
+    proposals_recalculated BIGINT,
+    suggestions_recalculated BIGINT,
+    futarchy_proposals_recalculated BIGINT,
+    token_accounts_recalculated BIGINT,
+    outcome_positions_recalculated BIGINT
+) AS $$
+DECLARE
+    p_count BIGINT := 0;
+    s_count BIGINT := 0;
+    fp_count BIGINT := 0;
+    ta_count BIGINT := 0;
+    op_count BIGINT := 0;
+    entity_id VARCHAR(78);
+    pos RECORD;
+    market RECORD;
+BEGIN
+    FOR entity_id IN
+        SELECT p.id FROM proposals p
+        WHERE NOT p.is_reorged AND p.id IN (
+            SELECT proposal_id FROM votes WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM proposal_executions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM proposal_cancellations WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM slashes WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_proposal_state(entity_id);
+        p_count := p_count + 1;
+    END LOOP;
+
+    FOR entity_id IN
+        SELECT s.id FROM edit_suggestions s
+        WHERE NOT s.is_reorged AND s.id IN (
+            SELECT suggestion_id FROM suggestion_votes WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT suggestion_id FROM suggestion_finalizations WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT suggestion_id FROM suggestion_stake_claims WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_suggestion_state(entity_id);
+        s_count := s_count + 1;
+    END LOOP;
+
+    FOR entity_id IN
+        SELECT fp.id FROM futarchy_proposals fp
+        WHERE NOT fp.is_reorged AND fp.id IN (
+            SELECT proposal_id FROM futarchy_trades WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_resolutions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_redemptions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_trading_closures WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_executions WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_rejections WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_cancellations WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT proposal_id FROM futarchy_stake_returns WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_futarchy_state(entity_id);
+        fp_count := fp_count + 1;
+    END LOOP;
+
+    FOR entity_id IN
+        SELECT address FROM token_balance_checkpoints WHERE is_reorged AND block_number >= from_block
+        UNION
+        SELECT delegator FROM token_delegations WHERE is_reorged AND block_number >= from_block
+        UNION
+        SELECT delegate FROM voting_power_checkpoints WHERE is_reorged AND block_number >= from_block
+    LOOP
+        PERFORM recalculate_token_account(entity_id);
+        ta_count := ta_count + 1;
+    END LOOP;
+
+    FOR pos IN
+        SELECT op.account, op.token_id FROM outcome_positions op
+        WHERE (op.account, op.token_id) IN (
+            SELECT from_address, token_id FROM outcome_token_transfers
+            WHERE is_reorged AND block_number >= from_block
+            UNION
+            SELECT to_address, token_id FROM outcome_token_transfers
+            WHERE is_reorged AND block_number >= from_block
+        )
+    LOOP
+        PERFORM recalculate_outcome_position(pos.account, pos.token_id);
+        op_count := op_count + 1;
+    END LOOP;
+
+    FOR market IN
+        SELECT proposal_id, is_yes, MIN(block_timestamp) AS from_timestamp
+        FROM futarchy_trades
+        WHERE is_reorged AND block_number >= from_block
+        GROUP BY proposal_id, is_yes
+    LOOP
+        PERFORM rebuild_futarchy_candles(market.proposal_id, market.is_yes, market.from_timestamp);
+    END LOOP;
+
+    RETURN QUERY SELECT p_count, s_count, fp_count, ta_count, op_count;
+END;
+$$ LANGUAGE plpgsql;
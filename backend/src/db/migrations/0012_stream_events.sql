@@ -0,0 +1,26 @@
+-- Live event stream log
+--
+-- Normalized events written in the same transaction as the batch that
+-- indexed them, so the id is a durable resume cursor for /api/stream.
+-- Reorgs do not delete rows: events from orphaned blocks are flagged
+-- retracted and a 'reorg' event listing their ids is appended.
+
+CREATE TABLE IF NOT EXISTS stream_events (
+    id BIGSERIAL PRIMARY KEY,
+    event_type VARCHAR(20) NOT NULL, -- proposal, vote, trade, price, status, reorg
+    source VARCHAR(32) NOT NULL, -- Contract name, or "Indexer" for derived events
+    proposal_id VARCHAR(78),
+    addresses TEXT[] NOT NULL DEFAULT '{}', -- Lowercased
+    payload JSONB NOT NULL,
+
+    -- Event provenance (null for derived status and reorg events)
+    block_number BIGINT NOT NULL,
+    tx_hash VARCHAR(66),
+    log_index INTEGER,
+
+    is_retracted BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stream_events_block ON stream_events(block_number) WHERE NOT is_retracted;
+CREATE INDEX IF NOT EXISTS idx_stream_events_proposal ON stream_events(proposal_id, id) WHERE NOT is_retracted;
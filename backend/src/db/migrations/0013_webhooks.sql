@@ -0,0 +1,49 @@
+-- Outbound webhooks
+--
+-- Subscriptions follow the stream_events log from their own cursor; each
+-- matching event becomes a delivery that is retried with exponential backoff
+-- and moved to webhook_dead_letters once attempts run out. A reorg cancels
+-- undelivered deliveries of retracted events and queues a 'retracted'
+-- delivery for each one already sent.
+
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+    id SERIAL PRIMARY KEY,
+    url TEXT NOT NULL,
+    secret VARCHAR(128) NOT NULL, -- HMAC-SHA256 key
+    event_types TEXT[] NOT NULL DEFAULT '{}', -- Empty matches every type
+    proposal_id VARCHAR(78),
+    address VARCHAR(42), -- Lowercased
+    last_event_id BIGINT NOT NULL, -- stream_events cursor already fanned out
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id BIGSERIAL PRIMARY KEY,
+    subscription_id INTEGER NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+    stream_event_id BIGINT NOT NULL REFERENCES stream_events(id),
+    event_type VARCHAR(32) NOT NULL, -- Webhook event type or 'retracted'
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, delivered, dead, canceled
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_status_code INTEGER,
+    last_error TEXT,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT webhook_deliveries_unique_event UNIQUE (subscription_id, stream_event_id, event_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+    id SERIAL PRIMARY KEY,
+    delivery_id BIGINT NOT NULL REFERENCES webhook_deliveries(id) ON DELETE CASCADE,
+    attempts INTEGER NOT NULL,
+    last_status_code INTEGER,
+    last_error TEXT,
+    failed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    redelivered_at TIMESTAMP WITH TIME ZONE -- Set when queued again
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_pending ON webhook_dead_letters(id) WHERE redelivered_at IS NULL;
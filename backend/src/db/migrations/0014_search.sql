@@ -0,0 +1,30 @@
+-- Full-text search
+--
+-- Stored tsvector columns over proposal titles and descriptions, edit
+-- suggestion text, vote reasons and futarchy descriptions. Postgres
+-- recomputes them whenever a row is inserted or its text changes, so the
+-- index follows the indexer batch by batch. Reorged rows keep their vectors
+-- but the partial indexes and the search query skip them.
+
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(description, '')), 'B')
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_proposals_search ON proposals USING GIN (search_vector) WHERE NOT is_reorged;
+
+ALTER TABLE edit_suggestions ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('english', COALESCE(proposed_text, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_edit_suggestions_search ON edit_suggestions USING GIN (search_vector) WHERE NOT is_reorged;
+
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('english', COALESCE(reason, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_votes_search ON votes USING GIN (search_vector) WHERE NOT is_reorged;
+
+ALTER TABLE futarchy_proposals ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('english', COALESCE(description, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_futarchy_proposals_search ON futarchy_proposals USING GIN (search_vector) WHERE NOT is_reorged;
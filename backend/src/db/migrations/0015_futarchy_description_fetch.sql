@@ -0,0 +1,22 @@
+-- Futarchy description fetch status
+--
+-- Futarchy descriptions live on IPFS and are fetched through a gateway that
+-- may be down or not configured. Instead of storing an empty description for
+-- good, the text stays NULL until it is fetched and the indexer retries
+-- pending and failed rows with exponential backoff.
+
+ALTER TABLE futarchy_proposals ALTER COLUMN description DROP NOT NULL;
+
+ALTER TABLE futarchy_proposals
+    ADD COLUMN IF NOT EXISTS description_status VARCHAR(10) NOT NULL DEFAULT 'pending', -- pending, fetched, failed
+    ADD COLUMN IF NOT EXISTS description_attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS description_error TEXT,
+    ADD COLUMN IF NOT EXISTS description_next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+-- Empty descriptions were written when a fetch failed; fetch them again
+UPDATE futarchy_proposals SET description = NULL WHERE description = '';
+UPDATE futarchy_proposals SET description_status = 'fetched' WHERE description IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_futarchy_proposals_description_due
+    ON futarchy_proposals(description_next_attempt_at)
+    WHERE description_status <> 'fetched' AND NOT is_reorged;
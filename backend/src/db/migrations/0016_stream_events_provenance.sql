@@ -0,0 +1,14 @@
+-- Stream event provenance
+--
+-- 0012 described the provenance columns as null for derived status and reorg
+-- events, but only tx_hash and log_index are. Every event keeps a block
+-- number, which is what a reorg retracts by: derived status events carry the
+-- block their status was evaluated at and reorg events the first orphaned
+-- block.
+
+COMMENT ON COLUMN stream_events.block_number IS
+    'Block of the event; the block a derived status was evaluated at, the first orphaned block for reorg events';
+COMMENT ON COLUMN stream_events.tx_hash IS
+    'Transaction of the event; null for derived status and reorg events';
+COMMENT ON COLUMN stream_events.log_index IS
+    'Log index of the event; null for derived status and reorg events';
@@ -0,0 +1,117 @@
+/**
+ * Export Module - Street Governance
+ *
+ * Raw event dumps behind /api/export for audits:
+ * - Votes, suggestion votes, futarchy trades, redemptions and slashes
+ * - Full provenance on every row (tx hash, log index, block, timestamp)
+ * - CSV or NDJSON, written batch by batch in chain order
+ *
+ * Rows are read in keyset batches and each batch waits for the client to
+ * drain the previous one, so memory use does not grow with the export.
+ */
+
+import type { Writable } from "node:stream";
+import { getExportBatch, getExportColumns } from "../db/index.js";
+import type {
+  ExportCursor,
+  ExportDataset,
+  ExportFilter,
+  ExportFormat,
+  ExportRow,
+} from "../types/index.js";
+
+/** Rows read per query */
+const BATCH_SIZE = 1000;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson",
+};
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/**
+ * Quote a CSV field when needed
+ *
+ * Text starting with a formula character is prefixed with an apostrophe so
+ * spreadsheets do not evaluate on-chain strings such as vote reasons.
+ */
+function csvField(value: string | number | boolean): string {
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatRow(row: ExportRow, columns: string[], format: ExportFormat): string {
+  if (format === "ndjson") {
+    return `${JSON.stringify(row)}\n`;
+  }
+  return `${columns.map((column) => csvField(row[column] ?? "")).join(",")}\r\n`;
+}
+
+// =============================================================================
+// Streaming
+// =============================================================================
+
+/**
+ * Resolve once `out` can take more data or has closed
+ */
+function drained(out: Writable): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      out.off("drain", done);
+      out.off("close", done);
+      resolve();
+    };
+    out.on("drain", done);
+    out.on("close", done);
+  });
+}
+
+/**
+ * Write an export to `out`, ending it when done
+ *
+ * Stops early without error if `out` is destroyed (client went away).
+ * Reorgs landing while an export runs are not reflected in rows already
+ * written.
+ *
+ * @returns Number of rows written
+ */
+export async function writeExport(
+  out: Writable,
+  dataset: ExportDataset,
+  format: ExportFormat,
+  filter: ExportFilter,
+  batchSize = BATCH_SIZE
+): Promise<number> {
+  const columns = getExportColumns(dataset);
+  let written = 0;
+  let rows = 0;
+  let after: ExportCursor | undefined;
+
+  if (format === "csv") {
+    out.write(`${columns.join(",")}\r\n`);
+  }
+
+  do {
+    const batch = await getExportBatch(dataset, filter, after, batchSize);
+    if (out.destroyed) return written;
+
+    const chunk = batch.rows.map((row) => formatRow(row, columns, format)).join("");
+    rows = batch.rows.length;
+    written += rows;
+    after = batch.cursor;
+
+    if (chunk.length > 0 && !out.write(chunk)) {
+      await drained(out);
+      if (out.destroyed) return written;
+    }
+  } while (rows === batchSize);
+
+  out.end();
+  return written;
+}
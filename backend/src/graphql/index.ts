@@ -0,0 +1,701 @@
+/**
+ * GraphQL Module - Street Governance
+ *
+ * Read-only GraphQL view of the indexed data, served at /graphql:
+ * - One schema over proposals, votes, suggestions, slashes, futarchy
+ *   proposals and trades, accounts and delegates
+ * - Per-request DataLoaders, so each nested level costs one query however
+ *   many parents it has
+ * - Depth and complexity limits checked before anything executes
+ *
+ * Amounts, ids and block numbers are decimal strings, as in the REST API.
+ */
+
+import DataLoader from "dataloader";
+import {
+  buildSchema,
+  execute,
+  getArgumentValues,
+  getNamedType,
+  getNullableType,
+  getOperationAST,
+  getVariableValues,
+  GraphQLError,
+  isListType,
+  isObjectType,
+  Kind,
+  parse,
+  validate,
+  type DocumentNode,
+  type ExecutionResult,
+  type FragmentDefinitionNode,
+  type GraphQLFieldResolver,
+  type GraphQLObjectType,
+  type SelectionSetNode,
+} from "graphql";
+import {
+  getProposals,
+  getFutarchyProposals,
+  getDelegates,
+  getProposalsByIds,
+  getProposalsByProposers,
+  getVotesByProposals,
+  getVotesByVoters,
+  getSuggestionsByIds,
+  getSuggestionsByProposals,
+  getSuggestionsBySuggesters,
+  getSuggestionVotesBySuggestions,
+  getSlashesByProposals,
+  getSlashesByProposers,
+  getFutarchyProposalsByIds,
+  getFutarchyTradesByProposals,
+  getFutarchyTradesByTraders,
+  getTokenAccounts,
+  getDelegatesByAddresses,
+} from "../db/index.js";
+import {
+  FutarchyDescriptionStatus,
+  FutarchyProposalStatus,
+  ProposalStatus,
+  SuggestionStatus,
+  type DelegateListItem,
+  type DelegateSortField,
+  type EditSuggestionListItem,
+  type FutarchyProposalDetail,
+  type FutarchyTradeListItem,
+  type ProposalDetail,
+  type SlashListItem,
+  type SuggestionVoteItem,
+  type TokenAccountSnapshot,
+  type VoteListItem,
+} from "../types/index.js";
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export interface GraphqlLimits {
+  /** Deepest field nesting allowed (default: 8) */
+  maxDepth?: number;
+  /** Highest estimated number of objects a query may resolve (default: 10000) */
+  maxComplexity?: number;
+}
+
+export interface GraphqlRequest {
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+}
+
+/** Default and maximum size of nested lists (`first`) and pages (`limit`) */
+const DEFAULT_LIST_SIZE = 20;
+const MAX_LIST_SIZE = 100;
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const enumValues = (values: object) => Object.values(values).join(" ");
+
+const typeDefs = `
+  enum ProposalStatus { ${enumValues(ProposalStatus)} }
+  enum SuggestionStatus { ${enumValues(SuggestionStatus)} }
+  enum FutarchyProposalStatus { ${enumValues(FutarchyProposalStatus)} }
+  enum FutarchyDescriptionStatus { ${enumValues(FutarchyDescriptionStatus)} }
+  enum DelegateSort { votingPower delegators votesCast participation }
+
+  type Query {
+    proposal(id: ID!): Proposal
+    proposals(
+      status: ProposalStatus
+      proposer: String
+      page: Int = 1
+      limit: Int = ${DEFAULT_LIST_SIZE}
+    ): [Proposal!]!
+    suggestion(id: ID!): Suggestion
+    futarchyProposal(id: ID!): FutarchyProposal
+    futarchyProposals(
+      status: FutarchyProposalStatus
+      recipient: String
+      page: Int = 1
+      limit: Int = ${DEFAULT_LIST_SIZE}
+    ): [FutarchyProposal!]!
+    account(address: String!): Account!
+    delegate(address: String!): Delegate
+    delegates(
+      sort: DelegateSort = votingPower
+      page: Int = 1
+      limit: Int = ${DEFAULT_LIST_SIZE}
+    ): [Delegate!]!
+  }
+
+  type Proposal {
+    id: ID!
+    proposer: String!
+    title: String!
+    description: String!
+    status: ProposalStatus!
+    targets: [String!]!
+    values: [String!]!
+    calldatas: [String!]!
+    snapshotTimestamp: Int!
+    startTime: Int!
+    endTime: Int!
+    stakeAmount: String!
+    forVotes: String!
+    againstVotes: String!
+    abstainVotes: String!
+    executedAt: String
+    canceledAt: String
+    slashedAmount: String
+    quorumVotes: String
+    thresholdBps: String
+    createdAt: String!
+    proposerAccount: Account!
+    votes(first: Int = ${DEFAULT_LIST_SIZE}): [Vote!]!
+    suggestions(first: Int = ${DEFAULT_LIST_SIZE}): [Suggestion!]!
+    slash: Slash
+  }
+
+  type Vote {
+    proposalId: ID!
+    voter: String!
+    "0 against, 1 for, 2 abstain"
+    support: Int!
+    weight: String!
+    reason: String!
+    txHash: String!
+    blockNumber: String!
+    createdAt: String!
+    proposal: Proposal
+    voterAccount: Account!
+  }
+
+  type Suggestion {
+    id: ID!
+    proposalId: ID!
+    suggester: String!
+    proposedText: String!
+    status: SuggestionStatus!
+    forVotes: String!
+    againstVotes: String!
+    voteWindowEnd: Int!
+    finalizedAt: String
+    stakeReturned: String
+    stakeSlashed: Boolean
+    createdAt: String!
+    proposal: Proposal
+    suggesterAccount: Account!
+    votes(first: Int = ${DEFAULT_LIST_SIZE}): [SuggestionVote!]!
+  }
+
+  type SuggestionVote {
+    suggestionId: ID!
+    proposalId: ID!
+    voter: String!
+    support: Boolean!
+    weight: String!
+    txHash: String!
+    blockNumber: String!
+    createdAt: String!
+    suggestion: Suggestion
+    voterAccount: Account!
+  }
+
+  type Slash {
+    proposalId: ID!
+    proposer: String!
+    slashedAmount: String!
+    returnedAmount: String!
+    txHash: String!
+    blockNumber: String!
+    createdAt: String!
+    proposal: Proposal
+  }
+
+  type FutarchyProposal {
+    id: ID!
+    proposer: String!
+    description: String
+    descriptionHash: String!
+    descriptionStatus: FutarchyDescriptionStatus!
+    amount: String!
+    recipient: String!
+    passMarketId: String!
+    failMarketId: String!
+    marketEndTime: Int!
+    resolutionTime: Int!
+    status: FutarchyProposalStatus!
+    yesPrice: String!
+    noPrice: String!
+    totalYesVolume: String!
+    totalNoVolume: String!
+    totalTrades: Int!
+    finalYesPrice: String
+    finalNoPrice: String
+    passed: Boolean
+    resolvedAt: String
+    closingPassPrice: String
+    closingFailPrice: String
+    closedAt: String
+    emergencyResolved: Boolean!
+    executedAt: String
+    executedTarget: String
+    executedAmount: String
+    rejectedAt: String
+    canceledAt: String
+    stakeReturned: String
+    totalRedeemed: String!
+    createdAt: String!
+    proposerAccount: Account!
+    trades(first: Int = ${DEFAULT_LIST_SIZE}): [Trade!]!
+  }
+
+  type Trade {
+    proposalId: ID!
+    trader: String!
+    isYes: Boolean!
+    isBuy: Boolean!
+    amountIn: String!
+    amountOut: String!
+    newPrice: String!
+    txHash: String!
+    blockNumber: String!
+    createdAt: String!
+    proposal: FutarchyProposal
+    traderAccount: Account!
+  }
+
+  type Account {
+    address: String!
+    balance: String!
+    delegate: String
+    votingPower: String!
+    delegateProfile: Delegate
+    proposals(first: Int = ${DEFAULT_LIST_SIZE}): [Proposal!]!
+    votes(first: Int = ${DEFAULT_LIST_SIZE}): [Vote!]!
+    suggestions(first: Int = ${DEFAULT_LIST_SIZE}): [Suggestion!]!
+    slashes(first: Int = ${DEFAULT_LIST_SIZE}): [Slash!]!
+    trades(first: Int = ${DEFAULT_LIST_SIZE}): [Trade!]!
+  }
+
+  type Delegate {
+    address: String!
+    votingPower: String!
+    delegatorCount: Int!
+    votesCast: Int!
+    "Percentage of eligible proposals voted on (0-100)"
+    participationRate: Float!
+    account: Account!
+    votes(first: Int = ${DEFAULT_LIST_SIZE}): [Vote!]!
+  }
+`;
+
+// =============================================================================
+// Loaders
+// =============================================================================
+
+type ProposalRecord = Omit<ProposalDetail, "suggestions">;
+
+/**
+ * Loader of one row per key; keys with no row resolve to null
+ */
+function rowLoader<T>(
+  fetch: (keys: string[]) => Promise<T[]>,
+  keyOf: (row: T) => string
+): DataLoader<string, T | null> {
+  return new DataLoader(async (keys) => {
+    const rows = new Map((await fetch([...keys])).map((row) => [keyOf(row), row]));
+    return keys.map((key) => rows.get(key) ?? null);
+  });
+}
+
+/**
+ * Loaders of up to `first` rows per key, one loader per distinct `first`
+ */
+function listLoader<T>(
+  fetch: (keys: string[], limit: number) => Promise<T[]>,
+  keyOf: (row: T) => string
+): (first: number) => DataLoader<string, T[]> {
+  const loaders = new Map<number, DataLoader<string, T[]>>();
+  return (first) => {
+    let loader = loaders.get(first);
+    if (!loader) {
+      loader = new DataLoader(async (keys) => {
+        const groups = new Map<string, T[]>();
+        for (const row of await fetch([...keys], first)) {
+          const key = keyOf(row);
+          groups.set(key, [...(groups.get(key) ?? []), row]);
+        }
+        return keys.map((key) => groups.get(key) ?? []);
+      });
+      loaders.set(first, loader);
+    }
+    return loader;
+  };
+}
+
+const lower = (address: string) => address.toLowerCase();
+
+function createLoaders() {
+  return {
+    proposal: rowLoader(getProposalsByIds, (p) => p.id),
+    suggestion: rowLoader(getSuggestionsByIds, (s) => s.id),
+    futarchyProposal: rowLoader(getFutarchyProposalsByIds, (p) => p.id),
+    tokenAccount: rowLoader(getTokenAccounts, (a) => lower(a.address)),
+    delegate: rowLoader(getDelegatesByAddresses, (d) => lower(d.address)),
+    slashByProposal: rowLoader(getSlashesByProposals, (s) => s.proposalId),
+    votesByProposal: listLoader(getVotesByProposals, (v) => v.proposalId),
+    votesByVoter: listLoader(getVotesByVoters, (v) => lower(v.voter)),
+    suggestionsByProposal: listLoader(getSuggestionsByProposals, (s) => s.proposalId),
+    suggestionsBySuggester: listLoader(getSuggestionsBySuggesters, (s) => lower(s.suggester)),
+    suggestionVotes: listLoader(getSuggestionVotesBySuggestions, (v) => v.suggestionId),
+    proposalsByProposer: listLoader(getProposalsByProposers, (p) => lower(p.proposer)),
+    slashesByProposer: listLoader(getSlashesByProposers, (s) => lower(s.proposer)),
+    tradesByProposal: listLoader(getFutarchyTradesByProposals, (t) => t.proposalId),
+    tradesByTrader: listLoader(getFutarchyTradesByTraders, (t) => lower(t.trader)),
+  };
+}
+
+interface GraphqlContext {
+  loaders: ReturnType<typeof createLoaders>;
+}
+
+// =============================================================================
+// Resolvers
+// =============================================================================
+
+interface AccountRef {
+  address: string;
+}
+
+interface ListArgs {
+  first: number;
+}
+
+interface PageArgs {
+  page: number;
+  limit: number;
+}
+
+/** Clamp a requested list size to 0..MAX_LIST_SIZE */
+function listSize(requested: number): number {
+  return Math.min(MAX_LIST_SIZE, Math.max(0, requested));
+}
+
+function pagination(args: PageArgs) {
+  return { page: Math.max(1, args.page), limit: Math.max(1, listSize(args.limit)) };
+}
+
+function accountRef(address: string): AccountRef {
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    throw new GraphQLError("Invalid address format");
+  }
+  return { address };
+}
+
+/** Load rows by key, dropping keys that resolved to nothing */
+async function loadAll<T>(loader: DataLoader<string, T | null>, keys: string[]): Promise<T[]> {
+  const rows = await loader.loadMany(keys);
+  return rows.filter((row): row is T => row !== null && !(row instanceof Error));
+}
+
+const resolvers = {
+  Query: {
+    proposal: (_: unknown, args: { id: string }, { loaders }: GraphqlContext) =>
+      loaders.proposal.load(args.id),
+    proposals: async (
+      _: unknown,
+      args: PageArgs & { status?: ProposalStatus; proposer?: string },
+      { loaders }: GraphqlContext
+    ) => {
+      const page = await getProposals(pagination(args), {
+        ...(args.status !== undefined && { status: args.status }),
+        ...(args.proposer !== undefined && { proposer: accountRef(args.proposer).address }),
+      });
+      return loadAll(
+        loaders.proposal,
+        page.data.map((p) => p.id)
+      );
+    },
+    suggestion: (_: unknown, args: { id: string }, { loaders }: GraphqlContext) =>
+      loaders.suggestion.load(args.id),
+    futarchyProposal: (_: unknown, args: { id: string }, { loaders }: GraphqlContext) =>
+      loaders.futarchyProposal.load(args.id),
+    futarchyProposals: async (
+      _: unknown,
+      args: PageArgs & { status?: FutarchyProposalStatus; recipient?: string },
+      { loaders }: GraphqlContext
+    ) => {
+      const page = await getFutarchyProposals(pagination(args), {
+        ...(args.status !== undefined && { status: args.status }),
+        ...(args.recipient !== undefined && { recipient: accountRef(args.recipient).address }),
+      });
+      return loadAll(
+        loaders.futarchyProposal,
+        page.data.map((p) => p.id)
+      );
+    },
+    account: (_: unknown, args: { address: string }) => accountRef(args.address),
+    delegate: (_: unknown, args: { address: string }, { loaders }: GraphqlContext) =>
+      loaders.delegate.load(lower(accountRef(args.address).address)),
+    delegates: async (_: unknown, args: PageArgs & { sort: DelegateSortField }) =>
+      (await getDelegates(pagination(args), args.sort)).data,
+  },
+
+  Proposal: {
+    proposerAccount: (proposal: ProposalRecord) => accountRef(proposal.proposer),
+    votes: (proposal: ProposalRecord, args: ListArgs, { loaders }: GraphqlContext) =>
+      loaders.votesByProposal(listSize(args.first)).load(proposal.id),
+    suggestions: (proposal: ProposalRecord, args: ListArgs, { loaders }: GraphqlContext) =>
+      loaders.suggestionsByProposal(listSize(args.first)).load(proposal.id),
+    slash: (proposal: ProposalRecord, _: unknown, { loaders }: GraphqlContext) =>
+      loaders.slashByProposal.load(proposal.id),
+  },
+
+  Vote: {
+    proposal: (vote: VoteListItem, _: unknown, { loaders }: GraphqlContext) =>
+      loaders.proposal.load(vote.proposalId),
+    voterAccount: (vote: VoteListItem) => accountRef(vote.voter),
+  },
+
+  Suggestion: {
+    proposal: (suggestion: EditSuggestionListItem, _: unknown, { loaders }: GraphqlContext) =>
+      loaders.proposal.load(suggestion.proposalId),
+    suggesterAccount: (suggestion: EditSuggestionListItem) => accountRef(suggestion.suggester),
+    votes: (suggestion: EditSuggestionListItem, args: ListArgs, { loaders }: GraphqlContext) =>
+      loaders.suggestionVotes(listSize(args.first)).load(suggestion.id),
+  },
+
+  SuggestionVote: {
+    suggestion: (vote: SuggestionVoteItem, _: unknown, { loaders }: GraphqlContext) =>
+      loaders.suggestion.load(vote.suggestionId),
+    voterAccount: (vote: SuggestionVoteItem) => accountRef(vote.voter),
+  },
+
+  Slash: {
+    proposal: (slash: SlashListItem, _: unknown, { loaders }: GraphqlContext) =>
+      loaders.proposal.load(slash.proposalId),
+  },
+
+  FutarchyProposal: {
+    proposerAccount: (proposal: FutarchyProposalDetail) => accountRef(proposal.proposer),
+    trades: (proposal: FutarchyProposalDetail, args: ListArgs, { loaders }: GraphqlContext) =>
+      loaders.tradesByProposal(listSize(args.first)).load(proposal.id),
+  },
+
+  Trade: {
+    proposal: (trade: FutarchyTradeListItem, _: unknown, { loaders }: GraphqlContext) =>
+      loaders.futarchyProposal.load(trade.proposalId),
+    traderAccount: (trade: FutarchyTradeListItem) => accountRef(trade.trader),
+  },
+
+  Account: {
+    balance: async (account: AccountRef, _: unknown, { loaders }: GraphqlContext) =>
+      (await loadTokenAccount(account, loaders)).balance,
+    delegate: async (account: AccountRef, _: unknown, { loaders }: GraphqlContext) =>
+      (await loadTokenAccount(account, loaders)).delegate,
+    votingPower: async (account: AccountRef, _: unknown, { loaders }: GraphqlContext) =>
+      (await loadTokenAccount(account, loaders)).votingPower,
+    delegateProfile: (account: AccountRef, _: unknown, { loaders }: GraphqlContext) =>
+      loaders.delegate.load(lower(account.address)),
+    proposals: (account: AccountRef, args: ListArgs, { loaders }: GraphqlContext) =>
+      loaders.proposalsByProposer(listSize(args.first)).load(lower(account.address)),
+    votes: (account: AccountRef, args: ListArgs, { loaders }: GraphqlContext) =>
+      loaders.votesByVoter(listSize(args.first)).load(lower(account.address)),
+    suggestions: (account: AccountRef, args: ListArgs, { loaders }: GraphqlContext) =>
+      loaders.suggestionsBySuggester(listSize(args.first)).load(lower(account.address)),
+    slashes: (account: AccountRef, args: ListArgs, { loaders }: GraphqlContext) =>
+      loaders.slashesByProposer(listSize(args.first)).load(lower(account.address)),
+    trades: (account: AccountRef, args: ListArgs, { loaders }: GraphqlContext) =>
+      loaders.tradesByTrader(listSize(args.first)).load(lower(account.address)),
+  },
+
+  Delegate: {
+    account: (delegate: DelegateListItem) => accountRef(delegate.address),
+    votes: (delegate: DelegateListItem, args: ListArgs, { loaders }: GraphqlContext) =>
+      loaders.votesByVoter(listSize(args.first)).load(lower(delegate.address)),
+  },
+};
+
+async function loadTokenAccount(
+  account: AccountRef,
+  loaders: GraphqlContext["loaders"]
+): Promise<TokenAccountSnapshot> {
+  // getTokenAccounts answers every key, so null never comes back
+  return (await loaders.tokenAccount.load(lower(account.address)))!;
+}
+
+/**
+ * Build the executable schema: SDL types with the resolvers attached
+ */
+function createSchema() {
+  const schema = buildSchema(typeDefs);
+  for (const [typeName, fields] of Object.entries(resolvers)) {
+    const type = schema.getType(typeName) as GraphQLObjectType;
+    for (const [fieldName, resolve] of Object.entries(fields)) {
+      type.getFields()[fieldName]!.resolve = resolve as GraphQLFieldResolver<
+        unknown,
+        GraphqlContext
+      >;
+    }
+  }
+  return schema;
+}
+
+const schema = createSchema();
+
+// =============================================================================
+// Query Limits
+// =============================================================================
+
+interface QueryCost {
+  depth: number;
+  complexity: number;
+}
+
+/**
+ * Measure the nesting depth and estimated object count of an operation
+ *
+ * Each object-typed field counts once per object it may return, so list
+ * fields multiply their children by their `first`/`limit` argument.
+ * Introspection fields are free.
+ */
+function measureSelection(
+  selectionSet: SelectionSetNode,
+  parentType: GraphQLObjectType,
+  fragments: Map<string, FragmentDefinitionNode>,
+  variables: Record<string, unknown>
+): QueryCost {
+  let depth = 0;
+  let complexity = 0;
+
+  for (const selection of selectionSet.selections) {
+    let cost: QueryCost;
+
+    if (selection.kind === Kind.FIELD) {
+      const field = parentType.getFields()[selection.name.value];
+      if (!field || selection.name.value.startsWith("__")) continue;
+
+      const childType = getNamedType(field.type);
+      const child =
+        selection.selectionSet && isObjectType(childType)
+          ? measureSelection(selection.selectionSet, childType, fragments, variables)
+          : { depth: 0, complexity: 0 };
+      if (!isObjectType(childType)) {
+        cost = { depth: 1, complexity: 0 };
+      } else {
+        const args = getArgumentValues(field, selection, variables);
+        const size = isListType(getNullableType(field.type))
+          ? listSize(Number(args.first ?? args.limit ?? DEFAULT_LIST_SIZE))
+          : 1;
+        cost = { depth: child.depth + 1, complexity: size * (1 + child.complexity) };
+      }
+    } else {
+      const fragment =
+        selection.kind === Kind.INLINE_FRAGMENT
+          ? selection
+          : fragments.get(selection.name.value);
+      if (!fragment) continue;
+      cost = measureSelection(fragment.selectionSet, parentType, fragments, variables);
+    }
+
+    depth = Math.max(depth, cost.depth);
+    complexity += cost.complexity;
+  }
+
+  return { depth, complexity };
+}
+
+// =============================================================================
+// Execution
+// =============================================================================
+
+/**
+ * Validate, limit-check and run one GraphQL request
+ *
+ * @returns HTTP status (400 for requests rejected before execution) and body
+ */
+export async function runGraphql(
+  request: GraphqlRequest,
+  limits: GraphqlLimits = {}
+): Promise<{ status: number; body: ExecutionResult }> {
+  const { maxDepth = 8, maxComplexity = 10_000 } = limits;
+  const reject = (errors: readonly GraphQLError[]) => ({ status: 400, body: { errors } });
+
+  let document: DocumentNode;
+  try {
+    document = parse(request.query);
+  } catch (error) {
+    return reject([error as GraphQLError]);
+  }
+
+  const validationErrors = validate(schema, document);
+  if (validationErrors.length > 0) {
+    return reject(validationErrors);
+  }
+
+  const operation = getOperationAST(document, request.operationName);
+  if (!operation) {
+    return reject([new GraphQLError("Unknown or ambiguous operation")]);
+  }
+
+  const coerced = getVariableValues(
+    schema,
+    operation.variableDefinitions ?? [],
+    request.variables ?? {}
+  );
+  if (coerced.errors) {
+    return reject(coerced.errors);
+  }
+
+  const fragments = new Map(
+    document.definitions
+      .filter((d): d is FragmentDefinitionNode => d.kind === Kind.FRAGMENT_DEFINITION)
+      .map((d) => [d.name.value, d])
+  );
+  let cost: QueryCost;
+  try {
+    cost = measureSelection(
+      operation.selectionSet,
+      schema.getQueryType()!,
+      fragments,
+      coerced.coerced
+    );
+  } catch (error) {
+    return reject([error as GraphQLError]);
+  }
+  if (cost.depth > maxDepth) {
+    return reject([
+      new GraphQLError(`Query depth ${cost.depth} exceeds the limit of ${maxDepth}`),
+    ]);
+  }
+  if (cost.complexity > maxComplexity) {
+    return reject([
+      new GraphQLError(
+        `Query complexity ${cost.complexity} exceeds the limit of ${maxComplexity}`
+      ),
+    ]);
+  }
+
+  const result = await execute({
+    schema,
+    document,
+    ...(request.operationName !== undefined && { operationName: request.operationName }),
+    variableValues: request.variables ?? {},
+    contextValue: { loaders: createLoaders() } satisfies GraphqlContext,
+  });
+
+  // Resolver errors keep their message; anything else is internal
+  const errors = result.errors?.map((error) => {
+    if (!error.originalError || error.originalError instanceof GraphQLError) {
+      return error;
+    }
+    console.error(`[GraphQL] Error: ${error.message}`, error.originalError.stack);
+    return new GraphQLError("Internal server error", {
+      ...(error.nodes !== undefined && { nodes: error.nodes }),
+      ...(error.path !== undefined && { path: error.path }),
+    });
+  });
+  return { status: 200, body: { ...result, ...(errors !== undefined && { errors }) } };
+}
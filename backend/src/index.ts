@@ -12,6 +12,7 @@
 import "dotenv/config";
 import { startIndexer, stopIndexer } from "./indexer/index.js";
 import { startApi, stopApi } from "./api/index.js";
+import { startWebhooks, stopWebhooks } from "./webhooks/index.js";
 import { initDb, closeDb } from "./db/index.js";
 import type { Address } from "viem";
 
@@ -25,6 +26,8 @@ const config = {
 
   // Database
   databaseUrl: process.env.DATABASE_URL ?? "",
+  dbMaxConnections: parseInt(process.env.DATABASE_MAX_CONNECTIONS ?? "10", 10),
+  dbIdleTimeoutMs: parseInt(process.env.DATABASE_IDLE_TIMEOUT_MS ?? "30000", 10),
 
   // RPC
   rpcUrl: process.env.BASE_RPC_URL ?? "https://mainnet.base.org",
@@ -34,6 +37,9 @@ const config = {
   governorAddress: process.env.GOVERNOR_ADDRESS as Address | undefined,
   editSuggestionsAddress: process.env.EDIT_SUGGESTIONS_ADDRESS as Address | undefined,
   futarchyTreasuryAddress: process.env.FUTARCHY_TREASURY_ADDRESS as Address | undefined,
+  futarchyAmmAddress: process.env.FUTARCHY_AMM_ADDRESS as Address | undefined,
+  conditionalTokensAddress: process.env.CONDITIONAL_TOKENS_ADDRESS as Address | undefined,
+  kledTokenAddress: process.env.KLED_TOKEN_ADDRESS as Address | undefined,
 
   // Indexer tuning
   startBlock: process.env.INDEXER_START_BLOCK
@@ -42,6 +48,18 @@ const config = {
   confirmationDepth: parseInt(process.env.INDEXER_CONFIRMATION_DEPTH ?? "64", 10),
   batchSize: parseInt(process.env.INDEXER_BATCH_SIZE ?? "1000", 10),
   pollIntervalMs: parseInt(process.env.INDEXER_POLL_INTERVAL_MS ?? "2000", 10),
+  blockRetention: parseInt(process.env.INDEXER_BLOCK_RETENTION ?? "10000", 10),
+  maxReorgDepth: parseInt(process.env.INDEXER_MAX_REORG_DEPTH ?? "1000", 10),
+  ipfsGatewayUrl: process.env.IPFS_GATEWAY_URL || undefined,
+
+  // GraphQL
+  graphqlMaxDepth: parseInt(process.env.GRAPHQL_MAX_DEPTH ?? "8", 10),
+  graphqlMaxComplexity: parseInt(process.env.GRAPHQL_MAX_COMPLEXITY ?? "10000", 10),
+
+  // Webhooks
+  webhookAdminToken: process.env.WEBHOOK_ADMIN_TOKEN || undefined,
+  webhookMaxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS ?? "8", 10),
+  webhookRetryBaseMs: parseInt(process.env.WEBHOOK_RETRY_BASE_MS ?? "10000", 10),
 };
 
 // =============================================================================
@@ -67,6 +85,18 @@ function validateConfig(): void {
     errors.push("FUTARCHY_TREASURY_ADDRESS is required");
   }
 
+  if (!config.futarchyAmmAddress) {
+    errors.push("FUTARCHY_AMM_ADDRESS is required");
+  }
+
+  if (!config.conditionalTokensAddress) {
+    errors.push("CONDITIONAL_TOKENS_ADDRESS is required");
+  }
+
+  if (!config.kledTokenAddress) {
+    errors.push("KLED_TOKEN_ADDRESS is required");
+  }
+
   if (errors.length > 0) {
     console.error("Configuration errors:");
     errors.forEach((e) => console.error(`  - ${e}`));
@@ -93,13 +123,20 @@ async function main(): Promise<void> {
   console.log(`  Governor: ${config.governorAddress}`);
   console.log(`  EditSuggestions: ${config.editSuggestionsAddress}`);
   console.log(`  FutarchyTreasury: ${config.futarchyTreasuryAddress}`);
+  console.log(`  FutarchyAMM: ${config.futarchyAmmAddress}`);
+  console.log(`  ConditionalTokens: ${config.conditionalTokensAddress}`);
+  console.log(`  KLEDToken: ${config.kledTokenAddress}`);
   console.log(`  Start Block: ${config.startBlock}`);
   console.log(`  Confirmation Depth: ${config.confirmationDepth}`);
   console.log("");
 
   // Initialize database connection
   console.log("[Main] Initializing database...");
-  await initDb({ connectionString: config.databaseUrl });
+  await initDb({
+    connectionString: config.databaseUrl,
+    maxConnections: config.dbMaxConnections,
+    idleTimeout: config.dbIdleTimeoutMs,
+  });
 
   // Start the indexer (runs in background)
   console.log("[Main] Starting indexer...");
@@ -108,16 +145,37 @@ async function main(): Promise<void> {
     governorAddress: config.governorAddress!,
     editSuggestionsAddress: config.editSuggestionsAddress!,
     futarchyTreasuryAddress: config.futarchyTreasuryAddress!,
+    futarchyAmmAddress: config.futarchyAmmAddress!,
+    conditionalTokensAddress: config.conditionalTokensAddress!,
+    kledTokenAddress: config.kledTokenAddress!,
     startBlock: config.startBlock,
     confirmationDepth: config.confirmationDepth,
     batchSize: config.batchSize,
     pollIntervalMs: config.pollIntervalMs,
     isTestnet: config.isTestnet,
+    blockRetention: config.blockRetention,
+    maxReorgDepth: config.maxReorgDepth,
+    ...(config.ipfsGatewayUrl !== undefined && { ipfsGatewayUrl: config.ipfsGatewayUrl }),
   });
 
   // Start the API server
   console.log("[Main] Starting API server...");
-  await startApi({ port: config.port });
+  await startApi({
+    port: config.port,
+    explorerUrl: config.isTestnet
+      ? "https://sepolia.basescan.org"
+      : "https://basescan.org",
+    graphqlMaxDepth: config.graphqlMaxDepth,
+    graphqlMaxComplexity: config.graphqlMaxComplexity,
+    ...(config.webhookAdminToken !== undefined && { adminToken: config.webhookAdminToken }),
+  });
+
+  // Deliver webhooks after each committed indexer batch
+  console.log("[Main] Starting webhooks...");
+  startWebhooks({
+    maxAttempts: config.webhookMaxAttempts,
+    retryBaseMs: config.webhookRetryBaseMs,
+  });
 
   console.log("\n" + "=".repeat(60));
   console.log(`Backend running on http://localhost:${config.port}`);
@@ -136,6 +194,10 @@ async function shutdown(signal: string): Promise<void> {
     await stopApi();
     console.log("[Main] API stopped");
 
+    // Finish the delivery pass in progress
+    await stopWebhooks();
+    console.log("[Main] Webhooks stopped");
+
     // Stop indexer
     await stopIndexer();
     console.log("[Main] Indexer stopped");
@@ -1,11 +1,15 @@
 /**
  * Governance Indexer Module - Street Governance
  *
- * Indexes governance events from Base L2 with:
+ * Indexes governance and KLED token events from Base L2 with:
  * - Reorg detection and recovery via block hash verification
  * - Confirmation depth for finality (64 blocks for Base L2)
  * - Idempotent event processing via (txHash, logIndex) keys
+ * - Handlers keyed by (contract address, topic0); unknown topics are counted,
+ *   persistence failures abort the batch
  * - Checkpoint-based resumable indexing
+ * - Time-driven proposal/suggestion statuses derived from block timestamps
+ * - Normalized stream events written with each batch (see src/stream)
  * - Batch processing for efficiency
  *
  * ## Base L2 Reorg Handling Strategy
@@ -26,15 +30,21 @@ import {
   http,
   type PublicClient,
   type Log,
-  parseAbiItem,
   decodeEventLog,
+  toEventSelector,
+  type Abi,
+  type AbiEvent,
   type Address,
+  type DecodeEventLogReturnType,
+  type ExtractAbiItem,
+  type ContractEventName,
 } from "viem";
 
 // Block type with the fields we actually need
 interface IndexedBlock {
-  number: bigint | null;
-  hash: `0x${string}` | null;
+  number: bigint;
+  hash: `0x${string}`;
+  parentHash: `0x${string}`;
   timestamp: bigint;
 }
 import { base, baseSepolia } from "viem/chains";
@@ -42,21 +52,77 @@ import {
   getCheckpoint,
   updateCheckpoint,
   markReorgedFromBlock,
+  recalculateFromBlock,
+  applyTimeStatuses,
+  getProposalsPastVoting,
+  recordProposalOutcome,
   getStoredBlockHash,
+  getStoredBlockHashes,
+  getIndexedBlock,
+  getIndexedBlockBefore,
+  insertIndexedBlocks,
+  deleteIndexedBlocksFrom,
+  pruneIndexedBlocks,
   insertProposal,
   insertVote,
   insertSuggestion,
   insertSuggestionVote,
+  insertSuggestionFinalization,
+  insertSuggestionStakeClaim,
   insertSlash,
   insertExecution,
   insertCancellation,
   insertFutarchyProposal,
+  getFetchedFutarchyDescription,
+  getDueFutarchyDescriptions,
+  setFutarchyDescription,
+  markFutarchyDescriptionFailed,
   insertFutarchyTrade,
   insertFutarchyResolution,
   insertFutarchyRedemption,
+  insertFutarchyClosure,
+  insertFutarchyExecution,
+  insertFutarchyRejection,
+  insertFutarchyCancellation,
+  insertFutarchyStakeReturn,
+  insertFutarchyTestModeChange,
+  insertTokenTransfer,
+  insertDelegation,
+  insertVotingPowerCheckpoint,
+  insertTokenMint,
+  insertMintingLock,
+  insertAmmMarket,
+  insertAmmTrade,
+  insertAmmMarketClosure,
+  insertOutcomeTokenMint,
+  insertOutcomeTokenBurn,
+  insertOutcomeTokenTransfer,
+  insertGovernanceParameterChange,
+  insertStreamEvent,
+  retractStreamEventsFromBlock,
   withTransaction,
+  type IndexedBlockRecord,
+  type InsertStreamEventParams,
+  type ProposalTally,
 } from "../db/index.js";
-import type { VoteSupport } from "../types/index.js";
+import {
+  conditionalTokensAbi,
+  editSuggestionsAbi,
+  findEventAbi,
+  futarchyAmmAbi,
+  futarchyTreasuryAbi,
+  kledTokenAbi,
+  streetGovernorAbi,
+} from "../abis/index.js";
+import {
+  FutarchyProposalStatus,
+  GovernanceParameter,
+  ProposalStatus,
+  type VoteSupport,
+} from "../types/index.js";
+import { outcomeTokenId } from "../positions/index.js";
+import { fetchIpfsText, ipfsCid } from "../ipfs/index.js";
+import { notifyStreamCommit, toStreamPayload } from "../stream/index.js";
 
 // =============================================================================
 // Configuration
@@ -67,11 +133,22 @@ export interface IndexerConfig {
   governorAddress: Address;
   editSuggestionsAddress: Address;
   futarchyTreasuryAddress: Address;
+  futarchyAmmAddress: Address;
+  conditionalTokensAddress: Address;
+  kledTokenAddress: Address;
   startBlock?: bigint;
   confirmationDepth?: number;
   batchSize?: number;
   pollIntervalMs?: number;
   isTestnet?: boolean;
+  /** Block headers kept in indexed_blocks for reorg detection */
+  blockRetention?: number;
+  /** Deepest reorg handled automatically; deeper ones halt the indexer */
+  maxReorgDepth?: number;
+  /** HTTP gateway futarchy descriptions are fetched from (not fetched when unset) */
+  ipfsGatewayUrl?: string;
+  /** Delay before refetching a failed description, doubled on each further one (default: 60s) */
+  descriptionRetryBaseMs?: number;
 }
 
 export interface IndexerState {
@@ -86,62 +163,112 @@ export interface IndexerState {
   lastError: Error | null;
   processedEvents: number;
   reorgsHandled: number;
+  registry: HandlerRegistry;
+  decodeErrors: number;
+  /** Skipped logs per "Contract:topic0" */
+  unhandledTopics: Map<string, number>;
 }
 
 // =============================================================================
-// Event ABIs (placeholder - will be replaced with actual ABIs from SOL)
+// Event ABIs (generated from contracts/abis, see scripts/generate-abis.ts)
 // =============================================================================
 
+/** Handled events missing from the contract ABIs, checked at startup */
+const missingEventAbis: string[] = [];
+
+function eventAbi<
+  const TAbi extends Abi,
+  TName extends ContractEventName<TAbi>,
+>(contract: string, abi: TAbi, name: TName): ExtractAbiItem<TAbi, TName> {
+  const event = findEventAbi(abi, name);
+  if (!event) {
+    missingEventAbis.push(`${contract}.${name}`);
+  }
+  return event as ExtractAbiItem<TAbi, TName>;
+}
+
 /**
  * Event ABI definitions for parsing logs
- * TODO: Replace with actual contract ABIs from SOL team
  */
 const EVENT_ABIS = {
   // StreetGovernor events
-  ProposalCreated: parseAbiItem(
-    "event ProposalCreated(uint256 indexed proposalId, address indexed proposer, string title, string description, address[] targets, uint256[] values, bytes[] calldatas, uint256 startBlock, uint256 endBlock, uint256 stakeAmount)"
-  ),
-  VoteCast: parseAbiItem(
-    "event VoteCast(uint256 indexed proposalId, address indexed voter, uint8 support, uint256 weight, string reason)"
-  ),
-  ProposalExecuted: parseAbiItem(
-    "event ProposalExecuted(uint256 indexed proposalId)"
-  ),
-  ProposalCanceled: parseAbiItem(
-    "event ProposalCanceled(uint256 indexed proposalId)"
-  ),
-  Slashed: parseAbiItem(
-    "event Slashed(uint256 indexed proposalId, address indexed proposer, uint256 slashedAmount, uint256 returnedAmount)"
-  ),
+  ProposalCreated: eventAbi("StreetGovernor", streetGovernorAbi, "ProposalCreated"),
+  VoteCast: eventAbi("StreetGovernor", streetGovernorAbi, "VoteCast"),
+  ProposalExecuted: eventAbi("StreetGovernor", streetGovernorAbi, "ProposalExecuted"),
+  ProposalCanceled: eventAbi("StreetGovernor", streetGovernorAbi, "ProposalCanceled"),
+  StakeSlashed: eventAbi("StreetGovernor", streetGovernorAbi, "StakeSlashed"),
+  QuorumUpdated: eventAbi("StreetGovernor", streetGovernorAbi, "QuorumUpdated"),
+  ThresholdUpdated: eventAbi("StreetGovernor", streetGovernorAbi, "ThresholdUpdated"),
+  VotingDelayUpdated: eventAbi("StreetGovernor", streetGovernorAbi, "VotingDelayUpdated"),
+  VotingPeriodUpdated: eventAbi("StreetGovernor", streetGovernorAbi, "VotingPeriodUpdated"),
+  Paused: eventAbi("StreetGovernor", streetGovernorAbi, "Paused"),
+  Unpaused: eventAbi("StreetGovernor", streetGovernorAbi, "Unpaused"),
+  GuardianUpdated: eventAbi("StreetGovernor", streetGovernorAbi, "GuardianUpdated"),
+  TreasuryUpdated: eventAbi("StreetGovernor", streetGovernorAbi, "TreasuryUpdated"),
 
   // EditSuggestions events
-  EditSuggested: parseAbiItem(
-    "event EditSuggested(uint256 indexed suggestionId, uint256 indexed proposalId, address indexed suggester, bytes32 originalHash, string proposedText, uint256 stakeAmount, uint256 editWindowEnd, uint256 voteWindowEnd)"
-  ),
-  SuggestionVoted: parseAbiItem(
-    "event SuggestionVoted(uint256 indexed suggestionId, address indexed voter, bool support, uint256 weight)"
-  ),
+  SuggestionCreated: eventAbi("EditSuggestions", editSuggestionsAbi, "SuggestionCreated"),
+  SuggestionVoteCast: eventAbi("EditSuggestions", editSuggestionsAbi, "SuggestionVoteCast"),
+  SuggestionFinalized: eventAbi("EditSuggestions", editSuggestionsAbi, "SuggestionFinalized"),
+  SuggestionStakeClaimed: eventAbi("EditSuggestions", editSuggestionsAbi, "SuggestionStakeClaimed"),
 
   // FutarchyTreasury events
-  FutarchyProposalCreated: parseAbiItem(
-    "event FutarchyProposalCreated(uint256 indexed proposalId, string description, uint256 amount, address indexed recipient, uint256 marketEndTime)"
-  ),
-  TradePlaced: parseAbiItem(
-    "event TradePlaced(uint256 indexed proposalId, address indexed trader, bool isYes, uint256 amountIn, uint256 amountOut, uint256 newPrice)"
-  ),
-  ProposalResolved: parseAbiItem(
-    "event ProposalResolved(uint256 indexed proposalId, bool passed, uint256 yesPrice, uint256 noPrice)"
-  ),
-  CollateralRedeemed: parseAbiItem(
-    "event CollateralRedeemed(uint256 indexed proposalId, address indexed user, uint256 amount)"
+  FutarchyProposalCreated: eventAbi(
+    "FutarchyTreasury",
+    futarchyTreasuryAbi,
+    "FutarchyProposalCreated"
   ),
+  OutcomePurchased: eventAbi("FutarchyTreasury", futarchyTreasuryAbi, "OutcomePurchased"),
+  OutcomeSold: eventAbi("FutarchyTreasury", futarchyTreasuryAbi, "OutcomeSold"),
+  TradingClosed: eventAbi("FutarchyTreasury", futarchyTreasuryAbi, "TradingClosed"),
+  MarketResolved: eventAbi("FutarchyTreasury", futarchyTreasuryAbi, "MarketResolved"),
+  EmergencyResolution: eventAbi("FutarchyTreasury", futarchyTreasuryAbi, "EmergencyResolution"),
+  FutarchyProposalExecuted: eventAbi("FutarchyTreasury", futarchyTreasuryAbi, "ProposalExecuted"),
+  FutarchyProposalRejected: eventAbi("FutarchyTreasury", futarchyTreasuryAbi, "ProposalRejected"),
+  FutarchyProposalCanceled: eventAbi("FutarchyTreasury", futarchyTreasuryAbi, "ProposalCanceled"),
+  WinningsRedeemed: eventAbi("FutarchyTreasury", futarchyTreasuryAbi, "WinningsRedeemed"),
+  StakeReturned: eventAbi("FutarchyTreasury", futarchyTreasuryAbi, "StakeReturned"),
+  TestModeEnabled: eventAbi("FutarchyTreasury", futarchyTreasuryAbi, "TestModeEnabled"),
+
+  // FutarchyAMM events
+  AmmMarketCreated: eventAbi("FutarchyAMM", futarchyAmmAbi, "MarketCreated"),
+  TokensBought: eventAbi("FutarchyAMM", futarchyAmmAbi, "TokensBought"),
+  TokensSold: eventAbi("FutarchyAMM", futarchyAmmAbi, "TokensSold"),
+  AmmMarketClosed: eventAbi("FutarchyAMM", futarchyAmmAbi, "MarketClosed"),
+
+  // ConditionalTokens events
+  OutcomeTokensMinted: eventAbi("ConditionalTokens", conditionalTokensAbi, "OutcomeTokensMinted"),
+  OutcomeTokensBurned: eventAbi("ConditionalTokens", conditionalTokensAbi, "OutcomeTokensBurned"),
+  TransferSingle: eventAbi("ConditionalTokens", conditionalTokensAbi, "TransferSingle"),
+  TransferBatch: eventAbi("ConditionalTokens", conditionalTokensAbi, "TransferBatch"),
+
+  // KLEDToken events
+  Transfer: eventAbi("KLEDToken", kledTokenAbi, "Transfer"),
+  DelegateChanged: eventAbi("KLEDToken", kledTokenAbi, "DelegateChanged"),
+  DelegateVotesChanged: eventAbi("KLEDToken", kledTokenAbi, "DelegateVotesChanged"),
+  TokensMinted: eventAbi("KLEDToken", kledTokenAbi, "TokensMinted"),
+  MintingPermanentlyLocked: eventAbi("KLEDToken", kledTokenAbi, "MintingPermanentlyLocked"),
 } as const;
 
+/**
+ * Fail fast if a handled event is not declared in the contract ABIs, which
+ * would otherwise make the indexer silently drop every such log
+ */
+function assertEventAbis(): void {
+  if (missingEventAbis.length > 0) {
+    throw new Error(
+      `Indexer handles events missing from the contract ABIs: ${missingEventAbis.join(", ")}. ` +
+        "Run `npm run abis:generate` after updating contracts/abis."
+    );
+  }
+}
+
 // =============================================================================
 // Indexer State
 // =============================================================================
 
 let indexerState: IndexerState | null = null;
+let indexingLoop: Promise<void> | null = null;
 
 // =============================================================================
 // Public API
@@ -156,25 +283,44 @@ export async function startIndexer(config: IndexerConfig): Promise<void> {
     governorAddress,
     editSuggestionsAddress,
     futarchyTreasuryAddress,
+    futarchyAmmAddress,
+    conditionalTokensAddress,
+    kledTokenAddress,
     startBlock = 0n,
     confirmationDepth = 64, // Base L2: ~2 min at 2s blocks
     batchSize = 1000,
     pollIntervalMs = 2000,
     isTestnet = false,
+    blockRetention = 10_000,
+    maxReorgDepth = 1000,
+    ipfsGatewayUrl,
+    descriptionRetryBaseMs = 60_000,
   } = config;
 
+  assertEventAbis();
+  if (maxReorgDepth > blockRetention) {
+    throw new Error(
+      `maxReorgDepth (${maxReorgDepth}) cannot exceed blockRetention (${blockRetention})`
+    );
+  }
+
   console.log("[Indexer] Starting indexer...");
   console.log(`[Indexer] RPC: ${rpcUrl}`);
   console.log(`[Indexer] Governor: ${governorAddress}`);
   console.log(`[Indexer] EditSuggestions: ${editSuggestionsAddress}`);
   console.log(`[Indexer] FutarchyTreasury: ${futarchyTreasuryAddress}`);
+  console.log(`[Indexer] FutarchyAMM: ${futarchyAmmAddress}`);
+  console.log(`[Indexer] ConditionalTokens: ${conditionalTokensAddress}`);
+  console.log(`[Indexer] KLEDToken: ${kledTokenAddress}`);
   console.log(`[Indexer] Confirmation depth: ${confirmationDepth} blocks`);
 
   // Create viem client for Base L2
   const chain = isTestnet ? baseSepolia : base;
+  // JSON-RPC batching sends each chunk of concurrent header reads as one
+  // HTTP request
   const client = createPublicClient({
     chain,
-    transport: http(rpcUrl),
+    transport: http(rpcUrl, { batch: { batchSize: HEADER_BATCH_SIZE } }),
   });
 
   // Load checkpoint or start from configured block
@@ -196,11 +342,18 @@ export async function startIndexer(config: IndexerConfig): Promise<void> {
       governorAddress,
       editSuggestionsAddress,
       futarchyTreasuryAddress,
+      futarchyAmmAddress,
+      conditionalTokensAddress,
+      kledTokenAddress,
       startBlock,
       confirmationDepth,
       batchSize,
       pollIntervalMs,
       isTestnet,
+      blockRetention,
+      maxReorgDepth,
+      ...(ipfsGatewayUrl !== undefined && { ipfsGatewayUrl }),
+      descriptionRetryBaseMs,
     },
     lastIndexedBlock,
     lastIndexedHash,
@@ -210,13 +363,16 @@ export async function startIndexer(config: IndexerConfig): Promise<void> {
     lastError: null,
     processedEvents: 0,
     reorgsHandled: 0,
+    registry: buildHandlerRegistry(config),
+    decodeErrors: 0,
+    unhandledTopics: new Map(),
   };
 
   console.log(`[Indexer] Starting from block ${lastIndexedBlock}`);
   console.log(`[Indexer] Chain head: ${chainHead}`);
 
   // Start the main indexing loop
-  runIndexingLoop().catch((err) => {
+  indexingLoop = runIndexingLoop().catch((err) => {
     console.error("[Indexer] Fatal error in indexing loop:", err);
     if (indexerState) {
       indexerState.lastError = err;
@@ -234,10 +390,9 @@ export async function stopIndexer(): Promise<void> {
     indexerState.isRunning = false;
 
     // Wait for current batch to complete (max 10 seconds)
-    let waited = 0;
-    while (indexerState.isPaused === false && waited < 10000) {
-      await sleep(100);
-      waited += 100;
+    if (indexingLoop) {
+      await Promise.race([indexingLoop, sleep(10000)]);
+      indexingLoop = null;
     }
 
     console.log("[Indexer] Indexer stopped");
@@ -253,6 +408,8 @@ export function getIndexerStatus(): {
   chainHead: string;
   processedEvents: number;
   reorgsHandled: number;
+  decodeErrors: number;
+  unhandledTopics: Record<string, number>;
   lastError: string | null;
 } | null {
   if (!indexerState) return null;
@@ -263,6 +420,8 @@ export function getIndexerStatus(): {
     chainHead: indexerState.chainHead.toString(),
     processedEvents: indexerState.processedEvents,
     reorgsHandled: indexerState.reorgsHandled,
+    decodeErrors: indexerState.decodeErrors,
+    unhandledTopics: Object.fromEntries(indexerState.unhandledTopics),
     lastError: indexerState.lastError?.message ?? null,
   };
 }
@@ -308,6 +467,11 @@ async function runIndexingLoop(): Promise<void> {
     }
 
     try {
+      // Descriptions that could not be fetched when their proposal was indexed
+      if (config.ipfsGatewayUrl) {
+        await backfillFutarchyDescriptions(config.ipfsGatewayUrl);
+      }
+
       // 1. Get current chain head
       const chainHead = await client.getBlockNumber();
       indexerState.chainHead = chainHead;
@@ -337,17 +501,20 @@ async function runIndexingLoop(): Promise<void> {
 
       console.log(`[Indexer] Processing blocks ${fromBlock} to ${toBlock}`);
 
-      // 5. Fetch and process events in batch
-      await processBlockRange(fromBlock, toBlock);
-
-      // 6. Update checkpoint
-      const finalBlock = await client.getBlock({ blockNumber: toBlock });
+      // 5. Fetch and process events, record blocks and checkpoint atomically
+      const finalBlock = await processBlockRange(fromBlock, toBlock);
       indexerState.lastIndexedBlock = toBlock;
       indexerState.lastIndexedHash = finalBlock.hash;
-      await updateCheckpoint(toBlock, finalBlock.hash, chainHead);
 
       console.log(`[Indexer] Checkpoint updated: block ${toBlock}`);
     } catch (error) {
+      if (error instanceof ReorgTooDeepError) {
+        console.error(`[Indexer] ALERT: ${error.message}. Indexer halted.`);
+        indexerState.lastError = error;
+        indexerState.isRunning = false;
+        break;
+      }
+
       console.error("[Indexer] Error in indexing loop:", error);
       indexerState.lastError = error as Error;
 
@@ -362,50 +529,128 @@ async function runIndexingLoop(): Promise<void> {
 // =============================================================================
 
 /**
- * Detect if a reorg has occurred by comparing stored block hashes
+ * Raised when the fork point is deeper than maxReorgDepth (or older than the
+ * recorded block history); the indexer halts instead of guessing
+ */
+export class ReorgTooDeepError extends Error {
+  constructor(
+    readonly lastIndexedBlock: bigint,
+    readonly maxReorgDepth: number
+  ) {
+    super(
+      `Reorg deeper than ${maxReorgDepth} blocks below block ${lastIndexedBlock}; ` +
+        "manual intervention required"
+    );
+    this.name = "ReorgTooDeepError";
+  }
+}
+
+/**
+ * Detect a reorg and locate the common ancestor with the canonical chain
+ *
+ * If the last indexed block is canonical every block below it is too. When
+ * it is not, binary search the recorded hashes for the lowest orphaned
+ * block, or walk below the window when even its lowest recorded block is
+ * orphaned.
  *
- * @returns Block number where reorg was detected, or null if no reorg
+ * @returns First orphaned block (common ancestor + 1), or null if no reorg
+ * @throws ReorgTooDeepError if the fork point is beyond maxReorgDepth
  */
 async function detectReorg(): Promise<bigint | null> {
   if (!indexerState) return null;
 
-  const { client } = indexerState;
+  const { client, config, lastIndexedBlock } = indexerState;
+  const maxReorgDepth = config.maxReorgDepth ?? 1000;
 
-  // Check the last few indexed blocks for hash mismatches
-  // Start from most recent and work backwards
-  const checkDepth = 10; // Check last 10 blocks
-  const startCheck =
-    indexerState.lastIndexedBlock - BigInt(checkDepth) > 0n
-      ? indexerState.lastIndexedBlock - BigInt(checkDepth)
-      : 1n;
-
-  for (
-    let blockNum = indexerState.lastIndexedBlock;
-    blockNum >= startCheck;
-    blockNum--
-  ) {
-    const storedHash = await getStoredBlockHash(blockNum);
-    if (!storedHash) continue; // No events at this block
+  const tipHash = await getStoredBlockHash(lastIndexedBlock);
+  if (!tipHash) return null; // Nothing recorded yet
 
-    try {
-      const chainBlock = await client.getBlock({ blockNumber: blockNum });
-
-      if (chainBlock.hash !== storedHash) {
-        console.log(
-          `[Indexer] Reorg detected at block ${blockNum}! ` +
-            `Stored: ${storedHash}, Chain: ${chainBlock.hash}`
-        );
-        return blockNum;
-      }
-    } catch (error) {
-      console.warn(
-        `[Indexer] Failed to verify block ${blockNum}:`,
-        error
-      );
+  const isCanonical = async (blockNumber: bigint, hash: string): Promise<boolean> =>
+    (await client.getBlock({ blockNumber })).hash === hash;
+
+  if (await isCanonical(lastIndexedBlock, tipHash)) {
+    return null;
+  }
+
+  const floor = lastIndexedBlock - BigInt(maxReorgDepth);
+  const stored = await getStoredBlockHashes(floor > 0n ? floor : 0n, lastIndexedBlock);
+
+  // Right after a fresh start the window reaches below the first recorded
+  // header; when that header is orphaned too, the ancestor lies below it
+  const lowest = stored[0]!;
+  if (!(await isCanonical(lowest.number, lowest.hash))) {
+    const reorgBlock = await findForkBelow((await getIndexedBlock(lowest.number))!, floor);
+    console.log(
+      `[Indexer] Reorg detected: common ancestor at block ${reorgBlock - 1n}, ` +
+        `${lastIndexedBlock - reorgBlock + 1n} block(s) orphaned`
+    );
+    return reorgBlock;
+  }
+
+  // Invariant: stored[lo] is canonical, stored[hi] is orphaned
+  let lo = 0;
+  let hi = stored.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (await isCanonical(stored[mid]!.number, stored[mid]!.hash)) {
+      lo = mid;
+    } else {
+      hi = mid;
     }
   }
 
-  return null;
+  const reorgBlock = stored[lo]!.number + 1n;
+  console.log(
+    `[Indexer] Reorg detected: common ancestor at block ${stored[lo]!.number}, ` +
+      `${lastIndexedBlock - reorgBlock + 1n} block(s) orphaned`
+  );
+  return reorgBlock;
+}
+
+/**
+ * Walk down from an orphaned recorded block to the first orphaned block
+ *
+ * Checks each orphaned block's parent against the canonical chain, then
+ * moves to the next lower recorded block. Blocks below the first indexed
+ * block were never indexed, so the walk stops there.
+ *
+ * @returns First orphaned block
+ * @throws ReorgTooDeepError if the fork point is below `floor`
+ */
+async function findForkBelow(orphaned: IndexedBlockRecord, floor: bigint): Promise<bigint> {
+  if (!indexerState) throw new Error("Indexer not started");
+
+  const { client, config, lastIndexedBlock } = indexerState;
+  const maxReorgDepth = config.maxReorgDepth ?? 1000;
+  const startBlock = config.startBlock ?? 0n;
+  const firstBlock = startBlock > 0n ? startBlock : 1n;
+  const tooDeep = () => new ReorgTooDeepError(lastIndexedBlock, maxReorgDepth);
+
+  let block = orphaned;
+  for (;;) {
+    if (block.number <= firstBlock) {
+      if (firstBlock <= floor) throw tooDeep();
+      return firstBlock;
+    }
+    if (block.number <= floor) throw tooDeep();
+
+    const parent = await client.getBlock({ blockNumber: block.number - 1n });
+    if (parent.hash === block.parentHash) {
+      return block.number;
+    }
+
+    const previous = await getIndexedBlockBefore(block.number);
+    if (!previous) {
+      // Nothing recorded below: everything indexed since firstBlock is orphaned
+      if (firstBlock <= floor) throw tooDeep();
+      return firstBlock;
+    }
+    if ((await client.getBlock({ blockNumber: previous.number })).hash === previous.hash) {
+      if (previous.number < floor) throw tooDeep();
+      return previous.number + 1n;
+    }
+    block = previous;
+  }
 }
 
 /**
@@ -418,395 +663,1171 @@ async function handleReorg(reorgBlock: bigint): Promise<void> {
 
   console.log(`[Indexer] Handling reorg from block ${reorgBlock}`);
 
-  // 1. Soft-delete all events from reorged blocks
-  const stats = await markReorgedFromBlock(reorgBlock);
-  console.log(`[Indexer] Marked as reorged:`, stats);
-
-  // 2. Roll back checkpoint to before the reorg
   const rollbackBlock = reorgBlock - 1n;
   const { client } = indexerState;
-  const safeBlock = await client.getBlock({ blockNumber: rollbackBlock });
+  const safeBlock =
+    (await getIndexedBlock(rollbackBlock)) ??
+    (await client.getBlock({ blockNumber: rollbackBlock }));
+  const safeHash = safeBlock.hash;
+
+  await withTransaction(async () => {
+    // 1. Soft-delete all events from reorged blocks
+    const stats = await markReorgedFromBlock(reorgBlock);
+    console.log(`[Indexer] Marked as reorged:`, stats);
+
+    // 2. Rebuild aggregates and statuses from the surviving events
+    const recalculated = await recalculateFromBlock(reorgBlock);
+    console.log(`[Indexer] Recalculated:`, recalculated);
+    const timeStatuses = await applyTimeStatuses(Number(safeBlock.timestamp));
+
+    // 3. Retract the orphaned stream events, then stream the rolled-back statuses
+    await retractStreamEventsFromBlock(reorgBlock);
+    for (const { id, status } of timeStatuses.proposalStatuses) {
+      await streamProposalStatus(id, status, rollbackBlock);
+    }
+
+    // 4. Forget the orphaned block headers and roll back the checkpoint
+    await deleteIndexedBlocksFrom(reorgBlock);
+    await updateCheckpoint(rollbackBlock, safeHash);
+  });
+  notifyStreamCommit();
 
   indexerState.lastIndexedBlock = rollbackBlock;
-  indexerState.lastIndexedHash = safeBlock.hash;
+  indexerState.lastIndexedHash = safeHash;
   indexerState.reorgsHandled++;
 
-  await updateCheckpoint(rollbackBlock, safeBlock.hash);
-
   console.log(`[Indexer] Rolled back to block ${rollbackBlock}`);
 }
 
+// =============================================================================
+// Event Handler Registry
+// =============================================================================
+
+/**
+ * Provenance passed to every handler alongside the decoded args
+ */
+interface EventMeta {
+  txHash: `0x${string}`;
+  logIndex: number;
+  blockNumber: bigint;
+  blockHash: `0x${string}`;
+  blockTimestamp: number;
+}
+
+type DecodedArgs<TEvent extends AbiEvent> = DecodeEventLogReturnType<[TEvent]>["args"];
+
+/**
+ * Stream event of a newly stored log; processEvent adds the source contract
+ * and provenance
+ */
+type StreamEventInput = Pick<InsertStreamEventParams, "type" | "proposalId" | "addresses" | "data">;
+
+interface EventHandler {
+  event: AbiEvent;
+  /** Reads outside the database, run before the batch transaction opens */
+  load?: (args: unknown, meta: EventMeta) => Promise<unknown>;
+  handle: (args: unknown, meta: EventMeta, loaded: unknown) => Promise<unknown>;
+  stream?: (args: unknown) => StreamEventInput[];
+}
+
+/**
+ * Bind a typed handler (and optionally its stream events) to an event ABI
+ */
+function on<const TEvent extends AbiEvent>(
+  event: TEvent,
+  handle: (args: DecodedArgs<TEvent>, meta: EventMeta) => Promise<unknown>,
+  stream?: (args: DecodedArgs<TEvent>) => StreamEventInput[]
+): EventHandler {
+  return {
+    event,
+    handle: handle as EventHandler["handle"],
+    ...(stream !== undefined && { stream: stream as NonNullable<EventHandler["stream"]> }),
+  };
+}
+
+/**
+ * Like `on`, for handlers that need RPC reads: `load` runs before the batch
+ * transaction and its result is passed to `handle`, so no transaction (or
+ * PGlite connection) is held open during network I/O
+ */
+function onLoaded<const TEvent extends AbiEvent, TLoaded>(
+  event: TEvent,
+  load: (args: DecodedArgs<TEvent>, meta: EventMeta) => Promise<TLoaded>,
+  handle: (args: DecodedArgs<TEvent>, meta: EventMeta, loaded: TLoaded) => Promise<unknown>,
+  stream?: (args: DecodedArgs<TEvent>) => StreamEventInput[]
+): EventHandler {
+  return {
+    ...on(event, handle as (args: DecodedArgs<TEvent>, meta: EventMeta) => Promise<unknown>, stream),
+    load: load as NonNullable<EventHandler["load"]>,
+  };
+}
+
+function statusEvent(
+  proposalId: bigint,
+  status: string,
+  data: Record<string, boolean> = {}
+): StreamEventInput {
+  return {
+    type: "status",
+    proposalId: proposalId.toString(),
+    addresses: [],
+    data: { status, ...data },
+  };
+}
+
+/**
+ * Trade and price-change events of an OutcomePurchased/OutcomeSold
+ */
+function tradeEvents(trade: {
+  proposalId: bigint;
+  trader: string;
+  isPass: boolean;
+  isBuy: boolean;
+  kled: bigint;
+  tokens: bigint;
+  newPrice: bigint;
+}): StreamEventInput[] {
+  const proposalId = trade.proposalId.toString();
+  return [
+    { type: "trade", proposalId, addresses: [trade.trader], data: toStreamPayload(trade) },
+    {
+      type: "price",
+      proposalId,
+      addresses: [],
+      data: { proposalId, isPass: trade.isPass, price: trade.newPrice.toString() },
+    },
+  ];
+}
+
+/**
+ * Handlers for each indexed contract
+ */
+const CONTRACT_HANDLERS: Record<
+  | "StreetGovernor"
+  | "EditSuggestions"
+  | "FutarchyTreasury"
+  | "FutarchyAMM"
+  | "ConditionalTokens"
+  | "KLEDToken",
+  EventHandler[]
+> = {
+  StreetGovernor: [
+    onLoaded(
+      EVENT_ABIS.ProposalCreated,
+      (args, meta) => readProposalDescription(args.proposalId, meta.blockNumber),
+      (args, meta, description) =>
+        insertProposal({
+          id: args.proposalId.toString(),
+          proposer: args.proposer,
+          title: args.title,
+          description,
+          targets: [...args.targets],
+          values: args.values.map((v) => v.toString()),
+          calldatas: [...args.calldatas],
+          snapshotTimestamp: Number(args.snapshotTimestamp),
+          startTime: Number(args.startTime),
+          endTime: Number(args.endTime),
+          stakeAmount: args.stakeAmount.toString(),
+          ...meta,
+        }),
+      (args) => [
+        {
+          type: "proposal",
+          proposalId: args.proposalId.toString(),
+          addresses: [args.proposer],
+          data: toStreamPayload(args),
+        },
+      ]
+    ),
+    on(EVENT_ABIS.VoteCast, (args, meta) =>
+      insertVote({
+        proposalId: args.proposalId.toString(),
+        voter: args.voter,
+        support: args.support as VoteSupport,
+        weight: args.weight.toString(),
+        reason: args.reason,
+        ...meta,
+      }),
+      (args) => [
+        {
+          type: "vote",
+          proposalId: args.proposalId.toString(),
+          addresses: [args.voter],
+          data: toStreamPayload(args),
+        },
+      ]
+    ),
+    on(
+      EVENT_ABIS.ProposalExecuted,
+      (args, meta) => insertExecution({ proposalId: args.proposalId.toString(), ...meta }),
+      (args) => [statusEvent(args.proposalId, ProposalStatus.Executed)]
+    ),
+    on(
+      EVENT_ABIS.ProposalCanceled,
+      (args, meta) => insertCancellation({ proposalId: args.proposalId.toString(), ...meta }),
+      (args) => [statusEvent(args.proposalId, ProposalStatus.Canceled)]
+    ),
+    on(EVENT_ABIS.StakeSlashed, (args, meta) =>
+      insertSlash({
+        proposalId: args.proposalId.toString(),
+        proposer: args.proposer,
+        slashedAmount: args.slashedAmount.toString(),
+        returnedAmount: args.returnedAmount.toString(),
+        ...meta,
+      }),
+      (args) => [
+        {
+          type: "slash",
+          proposalId: args.proposalId.toString(),
+          addresses: [args.proposer],
+          data: toStreamPayload(args),
+        },
+      ]
+    ),
+    on(EVENT_ABIS.QuorumUpdated, (args, meta) =>
+      insertGovernanceParameterChange({
+        parameter: GovernanceParameter.QuorumBps,
+        previousValue: args.previousQuorum.toString(),
+        newValue: args.newQuorum.toString(),
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.ThresholdUpdated, (args, meta) =>
+      insertGovernanceParameterChange({
+        parameter: GovernanceParameter.ThresholdBps,
+        previousValue: args.previousThreshold.toString(),
+        newValue: args.newThreshold.toString(),
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.VotingDelayUpdated, (args, meta) =>
+      insertGovernanceParameterChange({
+        parameter: GovernanceParameter.VotingDelay,
+        previousValue: args.previousDelay.toString(),
+        newValue: args.newDelay.toString(),
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.VotingPeriodUpdated, (args, meta) =>
+      insertGovernanceParameterChange({
+        parameter: GovernanceParameter.VotingPeriod,
+        previousValue: args.previousPeriod.toString(),
+        newValue: args.newPeriod.toString(),
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.Paused, (args, meta) =>
+      insertGovernanceParameterChange({
+        parameter: GovernanceParameter.Paused,
+        previousValue: null,
+        newValue: "true",
+        updatedBy: args.by,
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.Unpaused, (args, meta) =>
+      insertGovernanceParameterChange({
+        parameter: GovernanceParameter.Paused,
+        previousValue: null,
+        newValue: "false",
+        updatedBy: args.by,
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.GuardianUpdated, (args, meta) =>
+      insertGovernanceParameterChange({
+        parameter: GovernanceParameter.Guardian,
+        previousValue: args.previousGuardian,
+        newValue: args.newGuardian,
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.TreasuryUpdated, (args, meta) =>
+      insertGovernanceParameterChange({
+        parameter: GovernanceParameter.Treasury,
+        previousValue: args.previousTreasury,
+        newValue: args.newTreasury,
+        ...meta,
+      })
+    ),
+  ],
+
+  EditSuggestions: [
+    on(EVENT_ABIS.SuggestionCreated, (args, meta) =>
+      insertSuggestion({
+        id: args.suggestionId.toString(),
+        proposalId: args.proposalId.toString(),
+        suggester: args.suggester,
+        originalHash: args.originalHash,
+        proposedText: args.proposedText,
+        stakeAmount: args.stakeAmount.toString(),
+        editWindowEnd: Number(args.editDeadline),
+        voteWindowEnd: Number(args.voteDeadline),
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.SuggestionVoteCast, (args, meta) =>
+      insertSuggestionVote({
+        suggestionId: args.suggestionId.toString(),
+        voter: args.voter,
+        support: args.support,
+        weight: args.weight.toString(),
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.SuggestionFinalized, (args, meta) =>
+      insertSuggestionFinalization({
+        suggestionId: args.suggestionId.toString(),
+        accepted: args.accepted,
+        forVotes: args.forVotes.toString(),
+        againstVotes: args.againstVotes.toString(),
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.SuggestionStakeClaimed, (args, meta) =>
+      insertSuggestionStakeClaim({
+        suggestionId: args.suggestionId.toString(),
+        suggester: args.suggester,
+        amount: args.amount.toString(),
+        slashed: args.slashed,
+        ...meta,
+      })
+    ),
+  ],
+
+  FutarchyTreasury: [
+    onLoaded(
+      EVENT_ABIS.FutarchyProposalCreated,
+      (args) => readFutarchyDescription(args.proposalId, args.descriptionHash),
+      (args, meta, description) =>
+        insertFutarchyProposal({
+          id: args.proposalId.toString(),
+          proposer: args.proposer,
+          descriptionHash: args.descriptionHash,
+          ...(description !== null && { description }),
+          amount: args.requestedAmount.toString(),
+          recipient: args.target,
+          passMarketId: args.passMarketId.toString(),
+          failMarketId: args.failMarketId.toString(),
+          marketEndTime: args.tradingEnd,
+          resolutionTime: args.resolutionTime,
+          ...meta,
+        }),
+      (args) => [
+        {
+          type: "proposal",
+          proposalId: args.proposalId.toString(),
+          addresses: [args.proposer, args.target],
+          data: toStreamPayload(args),
+        },
+      ]
+    ),
+    // PASS market is stored as the "yes" side
+    on(EVENT_ABIS.OutcomePurchased, (args, meta) =>
+      insertFutarchyTrade({
+        proposalId: args.proposalId.toString(),
+        trader: args.buyer,
+        isYes: args.isPass,
+        isBuy: true,
+        amountIn: args.kledSpent.toString(),
+        amountOut: args.tokensReceived.toString(),
+        newPrice: args.newPrice.toString(),
+        ...meta,
+      }),
+      (args) =>
+        tradeEvents({
+          proposalId: args.proposalId,
+          trader: args.buyer,
+          isPass: args.isPass,
+          isBuy: true,
+          kled: args.kledSpent,
+          tokens: args.tokensReceived,
+          newPrice: args.newPrice,
+        })
+    ),
+    on(EVENT_ABIS.OutcomeSold, (args, meta) =>
+      insertFutarchyTrade({
+        proposalId: args.proposalId.toString(),
+        trader: args.seller,
+        isYes: args.isPass,
+        isBuy: false,
+        amountIn: args.tokensSold.toString(),
+        amountOut: args.kledReceived.toString(),
+        newPrice: args.newPrice.toString(),
+        ...meta,
+      }),
+      (args) =>
+        tradeEvents({
+          proposalId: args.proposalId,
+          trader: args.seller,
+          isPass: args.isPass,
+          isBuy: false,
+          kled: args.kledReceived,
+          tokens: args.tokensSold,
+          newPrice: args.newPrice,
+        })
+    ),
+    on(EVENT_ABIS.TradingClosed, (args, meta) =>
+      insertFutarchyClosure({
+        proposalId: args.proposalId.toString(),
+        passPrice: args.passPrice.toString(),
+        failPrice: args.failPrice.toString(),
+        ...meta,
+      }),
+      (args) => [statusEvent(args.proposalId, FutarchyProposalStatus.Closed)]
+    ),
+    on(EVENT_ABIS.MarketResolved, (args, meta) =>
+      insertFutarchyResolution({
+        proposalId: args.proposalId.toString(),
+        passed: args.passWins,
+        yesPrice: args.finalPassPrice.toString(),
+        noPrice: args.finalFailPrice.toString(),
+        ...meta,
+      }),
+      (args) => [
+        statusEvent(args.proposalId, FutarchyProposalStatus.Resolved, { passed: args.passWins }),
+      ]
+    ),
+    // Guardian override; final prices fall back to the closing prices
+    on(EVENT_ABIS.EmergencyResolution, (args, meta) =>
+      insertFutarchyResolution({
+        proposalId: args.proposalId.toString(),
+        passed: args.passWins,
+        yesPrice: null,
+        noPrice: null,
+        guardian: args.guardian,
+        ...meta,
+      }),
+      (args) => [
+        statusEvent(args.proposalId, FutarchyProposalStatus.Resolved, { passed: args.passWins }),
+      ]
+    ),
+    on(EVENT_ABIS.FutarchyProposalExecuted, (args, meta) =>
+      insertFutarchyExecution({
+        proposalId: args.proposalId.toString(),
+        target: args.target,
+        amount: args.amount.toString(),
+        ...meta,
+      }),
+      (args) => [statusEvent(args.proposalId, FutarchyProposalStatus.Executed)]
+    ),
+    on(
+      EVENT_ABIS.FutarchyProposalRejected,
+      (args, meta) => insertFutarchyRejection({ proposalId: args.proposalId.toString(), ...meta }),
+      (args) => [statusEvent(args.proposalId, FutarchyProposalStatus.Rejected)]
+    ),
+    on(
+      EVENT_ABIS.FutarchyProposalCanceled,
+      (args, meta) =>
+        insertFutarchyCancellation({ proposalId: args.proposalId.toString(), ...meta }),
+      (args) => [statusEvent(args.proposalId, FutarchyProposalStatus.Canceled)]
+    ),
+    on(EVENT_ABIS.WinningsRedeemed, (args, meta) =>
+      insertFutarchyRedemption({
+        proposalId: args.proposalId.toString(),
+        user: args.redeemer,
+        amount: args.kledReceived.toString(),
+        tokensRedeemed: args.tokensRedeemed.toString(),
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.StakeReturned, (args, meta) =>
+      insertFutarchyStakeReturn({
+        proposalId: args.proposalId.toString(),
+        proposer: args.proposer,
+        amount: args.amount.toString(),
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.TestModeEnabled, (args, meta) =>
+      insertFutarchyTestModeChange({ enabled: args.enabled, ...meta })
+    ),
+  ],
+
+  FutarchyAMM: [
+    on(EVENT_ABIS.AmmMarketCreated, (args, meta) =>
+      insertAmmMarket({
+        id: args.marketId.toString(),
+        proposalId: args.proposalId.toString(),
+        isPass: args.isPass,
+        liquidity: args.liquidity.toString(),
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.TokensBought, (args, meta) =>
+      insertAmmTrade({
+        marketId: args.marketId.toString(),
+        isBuy: true,
+        isYes: args.isYes,
+        tokens: args.tokens.toString(),
+        collateral: args.cost.toString(),
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.TokensSold, (args, meta) =>
+      insertAmmTrade({
+        marketId: args.marketId.toString(),
+        isBuy: false,
+        isYes: args.isYes,
+        tokens: args.tokens.toString(),
+        collateral: args.returned.toString(),
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.AmmMarketClosed, (args, meta) =>
+      insertAmmMarketClosure({
+        marketId: args.marketId.toString(),
+        finalYesPrice: args.finalYesPrice.toString(),
+        finalNoPrice: args.finalNoPrice.toString(),
+        ...meta,
+      })
+    ),
+  ],
+
+  ConditionalTokens: [
+    on(EVENT_ABIS.OutcomeTokensMinted, (args, meta) =>
+      insertOutcomeTokenMint({
+        proposalId: args.proposalId.toString(),
+        to: args.to,
+        isPass: args.isPass,
+        tokenId: outcomeTokenId(args.proposalId, args.isPass),
+        amount: args.amount.toString(),
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.OutcomeTokensBurned, (args, meta) =>
+      insertOutcomeTokenBurn({
+        proposalId: args.proposalId.toString(),
+        from: args.from,
+        isPass: args.isPass,
+        tokenId: outcomeTokenId(args.proposalId, args.isPass),
+        amount: args.amount.toString(),
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.TransferSingle, (args, meta) =>
+      insertOutcomeTokenTransfer({
+        operator: args.operator,
+        from: args.from,
+        to: args.to,
+        tokenId: args.id.toString(),
+        value: args.value.toString(),
+        batchIndex: 0,
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.TransferBatch, async (args, meta) => {
+      for (const [i, id] of args.ids.entries()) {
+        await insertOutcomeTokenTransfer({
+          operator: args.operator,
+          from: args.from,
+          to: args.to,
+          tokenId: id.toString(),
+          value: args.values[i]!.toString(),
+          batchIndex: i,
+          ...meta,
+        });
+      }
+    }),
+  ],
+
+  KLEDToken: [
+    on(EVENT_ABIS.Transfer, (args, meta) =>
+      insertTokenTransfer({
+        from: args.from,
+        to: args.to,
+        value: args.value.toString(),
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.DelegateChanged, (args, meta) =>
+      insertDelegation({
+        delegator: args.delegator,
+        fromDelegate: args.fromDelegate,
+        toDelegate: args.toDelegate,
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.DelegateVotesChanged, (args, meta) =>
+      insertVotingPowerCheckpoint({
+        delegate: args.delegate,
+        previousVotes: args.previousVotes.toString(),
+        newVotes: args.newVotes.toString(),
+        ...meta,
+      })
+    ),
+    on(EVENT_ABIS.TokensMinted, (args, meta) =>
+      insertTokenMint({ to: args.to, amount: args.amount.toString(), ...meta })
+    ),
+    on(EVENT_ABIS.MintingPermanentlyLocked, (args, meta) =>
+      insertMintingLock({
+        locker: args.locker,
+        totalSupplyAtLock: args.totalSupplyAtLock.toString(),
+        ...meta,
+      })
+    ),
+  ],
+};
+
+/**
+ * (contract address, topic0) -> handler lookup, built from the configured addresses
+ */
+type HandlerRegistry = Map<
+  string,
+  { contract: string; handlers: Map<`0x${string}`, EventHandler> }
+>;
+
+function buildHandlerRegistry(config: IndexerConfig): HandlerRegistry {
+  const addresses: Record<keyof typeof CONTRACT_HANDLERS, Address> = {
+    StreetGovernor: config.governorAddress,
+    EditSuggestions: config.editSuggestionsAddress,
+    FutarchyTreasury: config.futarchyTreasuryAddress,
+    FutarchyAMM: config.futarchyAmmAddress,
+    ConditionalTokens: config.conditionalTokensAddress,
+    KLEDToken: config.kledTokenAddress,
+  };
+
+  const registry: HandlerRegistry = new Map();
+  for (const [contract, handlers] of Object.entries(CONTRACT_HANDLERS)) {
+    const byTopic = new Map<`0x${string}`, EventHandler>();
+    for (const handler of handlers) {
+      const topic0 = toEventSelector(handler.event);
+      if (byTopic.has(topic0)) {
+        throw new Error(`Duplicate handler for ${contract}.${handler.event.name}`);
+      }
+      byTopic.set(topic0, handler);
+    }
+    const address = addresses[contract as keyof typeof CONTRACT_HANDLERS].toLowerCase();
+    registry.set(address, { contract, handlers: byTopic });
+  }
+  return registry;
+}
+
+/**
+ * Raised when a handler fails to persist an event; aborts the whole batch
+ */
+export class EventPersistenceError extends Error {
+  constructor(
+    readonly eventName: string,
+    readonly txHash: string,
+    readonly logIndex: number,
+    cause: unknown
+  ) {
+    super(
+      `Failed to persist ${eventName} at ${txHash}:${logIndex}: ` +
+        (cause instanceof Error ? cause.message : String(cause)),
+      { cause }
+    );
+    this.name = "EventPersistenceError";
+  }
+}
+
+/**
+ * Per-batch tallies, merged into the indexer state only once the batch commits
+ */
+interface BatchStats {
+  handled: number;
+  decodeErrors: number;
+  unhandledTopics: Map<string, number>;
+}
+
 // =============================================================================
 // Event Processing
 // =============================================================================
 
 /**
  * Process all governance events in a block range
+ *
+ * Events, the range's block headers and the checkpoint are written in one
+ * transaction, so a crash never leaves the checkpoint ahead of the data.
+ *
+ * @returns The last block of the range
  */
 async function processBlockRange(
   fromBlock: bigint,
   toBlock: bigint
-): Promise<void> {
-  if (!indexerState) return;
-
-  const { client, config } = indexerState;
-  const { governorAddress, editSuggestionsAddress, futarchyTreasuryAddress } = config;
-
-  // Fetch all events from all contracts in parallel
-  const [governorLogs, suggestionLogs, futarchyLogs] = await Promise.all([
-    client.getLogs({
-      address: governorAddress,
-      fromBlock,
-      toBlock,
-    }),
-    client.getLogs({
-      address: editSuggestionsAddress,
-      fromBlock,
-      toBlock,
-    }),
-    client.getLogs({
-      address: futarchyTreasuryAddress,
-      fromBlock,
-      toBlock,
-    }),
+): Promise<IndexedBlock> {
+  if (!indexerState) throw new Error("Indexer not started");
+  const state = indexerState;
+  const { client, registry, config } = state;
+
+  // Fetch all events from all contracts and every block header in parallel
+  const [logsByContract, blocks] = await Promise.all([
+    Promise.all(
+      [...registry.keys()].map((address) =>
+        client.getLogs({
+          address: address as Address,
+          fromBlock,
+          toBlock,
+        })
+      )
+    ),
+    fetchBlocks(fromBlock, toBlock),
   ]);
 
+  // The range must extend the chain we already indexed; if not, the chain
+  // moved under us and the next cycle's reorg check will handle it
+  await assertContiguous(fromBlock, blocks);
+
   // Combine and sort by block/logIndex for deterministic processing
-  const allLogs = [...governorLogs, ...suggestionLogs, ...futarchyLogs].sort((a, b) => {
+  const allLogs = logsByContract.flat().sort((a, b) => {
     if (a.blockNumber !== b.blockNumber) {
       return Number(a.blockNumber! - b.blockNumber!);
     }
     return Number(a.logIndex! - b.logIndex!);
   });
 
-  if (allLogs.length === 0) {
-    return;
+  if (allLogs.length > 0) {
+    console.log(`[Indexer] Processing ${allLogs.length} events`);
   }
 
-  console.log(`[Indexer] Processing ${allLogs.length} events`);
-
-  // Get block timestamps for all unique blocks
-  const blockNumbers = [...new Set(allLogs.map((l) => l.blockNumber!))];
-  const blocks = await Promise.all(
-    blockNumbers.map((bn) => client.getBlock({ blockNumber: bn }))
-  );
-  const blockMap = new Map<bigint, IndexedBlock>();
-  for (const block of blocks) {
-    blockMap.set(block.number!, block as unknown as IndexedBlock);
+  const blockMap = new Map<bigint, IndexedBlock>(blocks.map((b) => [b.number, b]));
+  const finalBlock = blocks[blocks.length - 1]!;
+
+  // Decode and run handler RPC reads before opening the transaction
+  const stats: BatchStats = { handled: 0, decodeErrors: 0, unhandledTopics: new Map() };
+  const events: DecodedEvent[] = [];
+  for (const log of allLogs) {
+    const block = blockMap.get(log.blockNumber!)!;
+    if (log.blockHash !== block.hash) {
+      throw new Error(
+        `Log ${log.transactionHash}:${log.logIndex} is from block hash ${log.blockHash}, ` +
+          `expected ${block.hash}`
+      );
+    }
+    const event = decodeEvent(log, block, stats);
+    if (event) events.push(event);
   }
+  await loadEvents(events);
+  const outcomes = await loadProposalOutcomes(events, blocks);
 
-  // Process events within a transaction for atomicity
+  // Persist within a transaction for atomicity; a persistence failure rolls
+  // back the whole batch and the range is retried
   await withTransaction(async () => {
-    for (const log of allLogs) {
-      const block = blockMap.get(log.blockNumber!)!;
-      await processEvent(log, block);
+    for (const event of events) {
+      await persistEvent(event, stats);
     }
+
+    await advanceStatuses(blocks, outcomes);
+
+    await insertIndexedBlocks(
+      blocks.map((b) => ({
+        number: b.number,
+        hash: b.hash,
+        parentHash: b.parentHash,
+        timestamp: Number(b.timestamp),
+      }))
+    );
+    await pruneIndexedBlocks(toBlock - BigInt(config.blockRetention ?? 10_000));
+    await updateCheckpoint(toBlock, finalBlock.hash, state.chainHead);
   });
+  notifyStreamCommit();
+
+  state.processedEvents += stats.handled;
+  state.decodeErrors += stats.decodeErrors;
+  for (const [key, count] of stats.unhandledTopics) {
+    state.unhandledTopics.set(key, (state.unhandledTopics.get(key) ?? 0) + count);
+  }
 
-  indexerState.processedEvents += allLogs.length;
+  return finalBlock;
 }
 
+/** Block headers per JSON-RPC batch request */
+const HEADER_BATCH_SIZE = 50;
+
 /**
- * Process a single event log
+ * Fetch every block header in a range
+ *
+ * Headers are read HEADER_BATCH_SIZE at a time; the transport batches each
+ * chunk into a single JSON-RPC request.
  */
-async function processEvent(log: Log, block: IndexedBlock): Promise<void> {
-  if (!indexerState) return;
-
-  const { config } = indexerState;
-  const eventMeta = {
-    txHash: log.transactionHash!,
-    logIndex: Number(log.logIndex!),
-    blockNumber: log.blockNumber!,
-    blockHash: log.blockHash!,
-    blockTimestamp: Number(block.timestamp),
-  };
+async function fetchBlocks(fromBlock: bigint, toBlock: bigint): Promise<IndexedBlock[]> {
+  if (!indexerState) return [];
+  const { client } = indexerState;
+  const blocks: IndexedBlock[] = [];
 
-  // Determine which contract emitted the event
-  const logAddress = log.address.toLowerCase();
-  const isGovernorEvent = logAddress === config.governorAddress.toLowerCase();
-  const isSuggestionEvent = logAddress === config.editSuggestionsAddress.toLowerCase();
-  const isFutarchyEvent = logAddress === config.futarchyTreasuryAddress.toLowerCase();
+  const concurrency = BigInt(HEADER_BATCH_SIZE);
+  for (let start = fromBlock; start <= toBlock; start += concurrency) {
+    const end = start + concurrency - 1n < toBlock ? start + concurrency - 1n : toBlock;
+    const numbers: bigint[] = [];
+    for (let n = start; n <= end; n++) numbers.push(n);
 
-  try {
-    if (isGovernorEvent) {
-      await processGovernorEvent(log, eventMeta);
-    } else if (isSuggestionEvent) {
-      await processSuggestionEvent(log, eventMeta);
-    } else if (isFutarchyEvent) {
-      await processFutarchyEvent(log, eventMeta);
-    }
-  } catch (error) {
-    // Log but don't fail on unknown events
-    console.warn(
-      `[Indexer] Unknown event at ${log.transactionHash}:${log.logIndex}`,
-      error
+    const chunk = await Promise.all(
+      numbers.map((blockNumber) => client.getBlock({ blockNumber }))
     );
+    blocks.push(...(chunk as unknown as IndexedBlock[]));
   }
+
+  return blocks;
 }
 
 /**
- * Process StreetGovernor contract events
+ * Verify fetched headers chain onto each other and onto the last indexed block
  */
-async function processGovernorEvent(
-  log: Log,
-  meta: {
-    txHash: `0x${string}`;
-    logIndex: number;
-    blockNumber: bigint;
-    blockHash: `0x${string}`;
-    blockTimestamp: number;
-  }
-): Promise<void> {
-  // Try to decode as each known event type
-  try {
-    const decoded = decodeEventLog({
-      abi: [EVENT_ABIS.ProposalCreated],
-      data: log.data,
-      topics: log.topics,
-    });
-
-    await insertProposal({
-      id: decoded.args.proposalId.toString(),
-      proposer: decoded.args.proposer,
-      title: decoded.args.title,
-      description: decoded.args.description,
-      targets: decoded.args.targets as string[],
-      values: decoded.args.values.map((v) => v.toString()),
-      calldatas: decoded.args.calldatas as string[],
-      startBlock: decoded.args.startBlock,
-      endBlock: decoded.args.endBlock,
-      stakeAmount: decoded.args.stakeAmount.toString(),
-      ...meta,
-    });
-    return;
-  } catch {
-    // Not a ProposalCreated event
+async function assertContiguous(fromBlock: bigint, blocks: IndexedBlock[]): Promise<void> {
+  const previousHash = await getStoredBlockHash(fromBlock - 1n);
+
+  for (let i = 0; i < blocks.length; i++) {
+    const expectedParent = i === 0 ? previousHash : blocks[i - 1]!.hash;
+    if (expectedParent && blocks[i]!.parentHash !== expectedParent) {
+      throw new Error(
+        `Block ${blocks[i]!.number} does not extend indexed chain ` +
+          `(parent ${blocks[i]!.parentHash}, expected ${expectedParent})`
+      );
+    }
   }
+}
 
-  try {
-    const decoded = decodeEventLog({
-      abi: [EVENT_ABIS.VoteCast],
-      data: log.data,
-      topics: log.topics,
-    });
-
-    await insertVote({
-      proposalId: decoded.args.proposalId.toString(),
-      voter: decoded.args.voter,
-      support: decoded.args.support as VoteSupport,
-      weight: decoded.args.weight.toString(),
-      reason: decoded.args.reason,
-      ...meta,
-    });
-    return;
-  } catch {
-    // Not a VoteCast event
+/**
+ * A log matched to its handler and decoded, with what the handler loaded
+ */
+interface DecodedEvent {
+  contract: string;
+  handler: EventHandler;
+  args: unknown;
+  meta: EventMeta;
+  loaded?: unknown;
+}
+
+/** Concurrent handler loads per batch, so large batches don't flood the RPC */
+const LOAD_CONCURRENCY = 20;
+
+/**
+ * Match a log to its handler by (contract address, topic0) and decode it
+ *
+ * - Unhandled topics are counted and skipped
+ * - Logs that match a handled topic but fail to decode are counted and skipped
+ */
+function decodeEvent(log: Log, block: IndexedBlock, stats: BatchStats): DecodedEvent | null {
+  if (!indexerState) return null;
+
+  const entry = indexerState.registry.get(log.address.toLowerCase());
+  const topic0 = log.topics[0];
+  const handler = entry && topic0 ? entry.handlers.get(topic0) : undefined;
+
+  if (!handler) {
+    const key = `${entry?.contract ?? log.address}:${topic0 ?? "anonymous"}`;
+    stats.unhandledTopics.set(key, (stats.unhandledTopics.get(key) ?? 0) + 1);
+    return null;
   }
 
+  let args: unknown;
   try {
-    const decoded = decodeEventLog({
-      abi: [EVENT_ABIS.ProposalExecuted],
+    ({ args } = decodeEventLog({
+      abi: [handler.event],
       data: log.data,
       topics: log.topics,
-    });
-
-    await insertExecution({
-      proposalId: decoded.args.proposalId.toString(),
-      ...meta,
-    });
-    return;
-  } catch {
-    // Not a ProposalExecuted event
+      strict: true,
+    }));
+  } catch (error) {
+    stats.decodeErrors++;
+    console.error(
+      `[Indexer] Failed to decode ${entry!.contract}.${handler.event.name} ` +
+        `at ${log.transactionHash}:${log.logIndex}:`,
+      error
+    );
+    return null;
   }
 
-  try {
-    const decoded = decodeEventLog({
-      abi: [EVENT_ABIS.ProposalCanceled],
-      data: log.data,
-      topics: log.topics,
-    });
-
-    await insertCancellation({
-      proposalId: decoded.args.proposalId.toString(),
-      ...meta,
-    });
-    return;
-  } catch {
-    // Not a ProposalCanceled event
+  return {
+    contract: entry!.contract,
+    handler,
+    args,
+    meta: {
+      txHash: log.transactionHash!,
+      logIndex: Number(log.logIndex!),
+      blockNumber: log.blockNumber!,
+      blockHash: log.blockHash!,
+      blockTimestamp: Number(block.timestamp),
+    },
+  };
+}
+
+/**
+ * Run the handlers' loads for a batch; a failure aborts the batch before
+ * anything is written
+ */
+async function loadEvents(events: DecodedEvent[]): Promise<void> {
+  const pending = events.filter((event) => event.handler.load);
+  for (let start = 0; start < pending.length; start += LOAD_CONCURRENCY) {
+    await Promise.all(
+      pending.slice(start, start + LOAD_CONCURRENCY).map(async (event) => {
+        event.loaded = await event.handler.load!(event.args, event.meta);
+      })
+    );
   }
+}
 
+/**
+ * Store a decoded event and its stream events
+ *
+ * @throws EventPersistenceError if the handler fails
+ */
+async function persistEvent(event: DecodedEvent, stats: BatchStats): Promise<void> {
+  const { contract, handler, args, meta } = event;
   try {
-    const decoded = decodeEventLog({
-      abi: [EVENT_ABIS.Slashed],
-      data: log.data,
-      topics: log.topics,
-    });
-
-    await insertSlash({
-      proposalId: decoded.args.proposalId.toString(),
-      proposer: decoded.args.proposer,
-      slashedAmount: decoded.args.slashedAmount.toString(),
-      returnedAmount: decoded.args.returnedAmount.toString(),
-      ...meta,
-    });
-    return;
-  } catch {
-    // Not a Slashed event
+    // Handlers return false for logs already stored
+    const stored = await handler.handle(args, meta, event.loaded);
+    if (stored !== false && handler.stream) {
+      for (const streamEvent of handler.stream(args)) {
+        await insertStreamEvent({
+          ...streamEvent,
+          source: contract,
+          blockNumber: meta.blockNumber,
+          txHash: meta.txHash,
+          logIndex: meta.logIndex,
+        });
+      }
+    }
+  } catch (error) {
+    throw new EventPersistenceError(handler.event.name, meta.txHash, meta.logIndex, error);
   }
+  stats.handled++;
+}
+
+// =============================================================================
+// Status Engine
+// =============================================================================
+
+/** StreetGovernor.BPS_DENOMINATOR */
+const BPS_DENOMINATOR = 10_000n;
+
+/**
+ * Governor parameters a proposal's outcome is decided with
+ */
+interface OutcomeParams {
+  /** First block whose timestamp is past the proposal's endTime */
+  decidingBlock: bigint;
+  quorum: bigint;
+  thresholdBps: bigint;
 }
 
 /**
- * Process EditSuggestions contract events
+ * Read the outcome parameters of every proposal whose voting ends within a
+ * range, before the batch transaction opens
+ *
+ * Covers proposals already stored and those created in the batch itself.
  */
-async function processSuggestionEvent(
-  log: Log,
-  meta: {
-    txHash: `0x${string}`;
-    logIndex: number;
-    blockNumber: bigint;
-    blockHash: `0x${string}`;
-    blockTimestamp: number;
+async function loadProposalOutcomes(
+  events: DecodedEvent[],
+  blocks: IndexedBlock[]
+): Promise<Map<string, OutcomeParams>> {
+  const timestamp = Number(blocks[blocks.length - 1]!.timestamp);
+
+  const endTimes = new Map<string, number>();
+  for (const tally of await getProposalsPastVoting(timestamp)) {
+    endTimes.set(tally.id, tally.endTime);
   }
-): Promise<void> {
-  try {
-    const decoded = decodeEventLog({
-      abi: [EVENT_ABIS.EditSuggested],
-      data: log.data,
-      topics: log.topics,
-    });
-
-    await insertSuggestion({
-      id: decoded.args.suggestionId.toString(),
-      proposalId: decoded.args.proposalId.toString(),
-      suggester: decoded.args.suggester,
-      originalHash: decoded.args.originalHash,
-      proposedText: decoded.args.proposedText,
-      stakeAmount: decoded.args.stakeAmount.toString(),
-      editWindowEnd: Number(decoded.args.editWindowEnd),
-      voteWindowEnd: Number(decoded.args.voteWindowEnd),
-      ...meta,
-    });
-    return;
-  } catch {
-    // Not an EditSuggested event
+  for (const event of events) {
+    if (event.handler.event !== EVENT_ABIS.ProposalCreated) continue;
+    const args = event.args as DecodedArgs<typeof EVENT_ABIS.ProposalCreated>;
+    if (Number(args.endTime) < timestamp) {
+      endTimes.set(args.proposalId.toString(), Number(args.endTime));
+    }
   }
 
-  try {
-    const decoded = decodeEventLog({
-      abi: [EVENT_ABIS.SuggestionVoted],
-      data: log.data,
-      topics: log.topics,
-    });
-
-    await insertSuggestionVote({
-      suggestionId: decoded.args.suggestionId.toString(),
-      voter: decoded.args.voter,
-      support: decoded.args.support,
-      weight: decoded.args.weight.toString(),
-      ...meta,
-    });
-    return;
-  } catch {
-    // Not a SuggestionVoted event
+  const outcomes = new Map<string, OutcomeParams>();
+  const pending = [...endTimes];
+  for (let start = 0; start < pending.length; start += LOAD_CONCURRENCY) {
+    await Promise.all(
+      pending.slice(start, start + LOAD_CONCURRENCY).map(async ([id, endTime]) => {
+        // state() first reports the outcome in the first block after endTime;
+        // evaluate there so the result does not depend on batch boundaries
+        const decidingBlock = (
+          blocks.find((b) => Number(b.timestamp) > endTime) ?? blocks[blocks.length - 1]!
+        ).number;
+        outcomes.set(id, { decidingBlock, ...(await readOutcomeParams(id, decidingBlock)) });
+      })
+    );
   }
+  return outcomes;
 }
 
 /**
- * Process FutarchyTreasury contract events
+ * Advance proposal and suggestion statuses to the end of a processed range
+ *
+ * Mirrors StreetGovernor.state() and the EditSuggestions windows using block
+ * timestamps, never wall-clock time, so replaying a range yields the same
+ * statuses. Runs inside the batch transaction, with the governor parameters
+ * already loaded by loadProposalOutcomes.
  */
-async function processFutarchyEvent(
-  log: Log,
-  meta: {
-    txHash: `0x${string}`;
-    logIndex: number;
-    blockNumber: bigint;
-    blockHash: `0x${string}`;
-    blockTimestamp: number;
-  }
+async function advanceStatuses(
+  blocks: IndexedBlock[],
+  outcomes: Map<string, OutcomeParams>
 ): Promise<void> {
-  // FutarchyProposalCreated
-  try {
-    const decoded = decodeEventLog({
-      abi: [EVENT_ABIS.FutarchyProposalCreated],
-      data: log.data,
-      topics: log.topics,
-    });
-
-    await insertFutarchyProposal({
-      id: decoded.args.proposalId.toString(),
-      description: decoded.args.description,
-      amount: decoded.args.amount.toString(),
-      recipient: decoded.args.recipient,
-      marketEndTime: Number(decoded.args.marketEndTime),
-      ...meta,
-    });
-    return;
-  } catch {
-    // Not a FutarchyProposalCreated event
-  }
+  const finalBlock = blocks[blocks.length - 1]!;
+  const timestamp = Number(finalBlock.timestamp);
 
-  // TradePlaced
-  try {
-    const decoded = decodeEventLog({
-      abi: [EVENT_ABIS.TradePlaced],
-      data: log.data,
-      topics: log.topics,
-    });
-
-    await insertFutarchyTrade({
-      proposalId: decoded.args.proposalId.toString(),
-      trader: decoded.args.trader,
-      isYes: decoded.args.isYes,
-      amountIn: decoded.args.amountIn.toString(),
-      amountOut: decoded.args.amountOut.toString(),
-      newPrice: decoded.args.newPrice.toString(),
-      ...meta,
-    });
-    return;
-  } catch {
-    // Not a TradePlaced event
+  const timeStatuses = await applyTimeStatuses(timestamp);
+  for (const { id, status } of timeStatuses.proposalStatuses) {
+    await streamProposalStatus(id, status, finalBlock.number);
   }
 
-  // ProposalResolved
-  try {
-    const decoded = decodeEventLog({
-      abi: [EVENT_ABIS.ProposalResolved],
-      data: log.data,
-      topics: log.topics,
-    });
-
-    await insertFutarchyResolution({
-      proposalId: decoded.args.proposalId.toString(),
-      passed: decoded.args.passed,
-      yesPrice: decoded.args.yesPrice.toString(),
-      noPrice: decoded.args.noPrice.toString(),
-      ...meta,
-    });
-    return;
-  } catch {
-    // Not a ProposalResolved event
+  for (const tally of await getProposalsPastVoting(timestamp)) {
+    const params = outcomes.get(tally.id);
+    if (!params) {
+      throw new Error(`Outcome parameters of proposal ${tally.id} were not loaded`);
+    }
+    const status = checkProposalOutcome(tally, params)
+      ? ProposalStatus.Succeeded
+      : ProposalStatus.Defeated;
+    await recordProposalOutcome(
+      tally.id,
+      status,
+      params.quorum.toString(),
+      params.thresholdBps.toString()
+    );
+    await streamProposalStatus(tally.id, status, params.decidingBlock);
   }
+}
+
+/**
+ * Stream a status the indexer derived rather than read from an event
+ */
+async function streamProposalStatus(
+  proposalId: string,
+  status: ProposalStatus,
+  blockNumber: bigint
+): Promise<void> {
+  await insertStreamEvent({
+    type: "status",
+    source: "Indexer",
+    proposalId,
+    addresses: [],
+    data: { status },
+    blockNumber,
+  });
+}
+
+/**
+ * Read quorum and thresholdBps at the deciding block, as state() would have
+ * seen them there
+ */
+async function readOutcomeParams(
+  proposalId: string,
+  blockNumber: bigint
+): Promise<{ quorum: bigint; thresholdBps: bigint }> {
+  if (!indexerState) throw new Error("Indexer not started");
+
+  const { client, config } = indexerState;
+  const [quorum, thresholdBps] = await Promise.all([
+    client.readContract({
+      address: config.governorAddress,
+      abi: streetGovernorAbi,
+      functionName: "quorum",
+      args: [BigInt(proposalId)],
+      blockNumber,
+    }),
+    client.readContract({
+      address: config.governorAddress,
+      abi: streetGovernorAbi,
+      functionName: "thresholdBps",
+      blockNumber,
+    }),
+  ]);
+  return { quorum, thresholdBps };
+}
+
+/**
+ * Quorum and threshold check of StreetGovernor._checkProposalOutcome
+ */
+function checkProposalOutcome(tally: ProposalTally, params: OutcomeParams): boolean {
+  const forVotes = BigInt(tally.forVotes);
+  const againstVotes = BigInt(tally.againstVotes);
+  const totalVotes = forVotes + againstVotes + BigInt(tally.abstainVotes);
+
+  // Abstain counts towards quorum but not the threshold
+  const relevantVotes = forVotes + againstVotes;
+  return (
+    totalVotes >= params.quorum &&
+    relevantVotes > 0n &&
+    forVotes >= (relevantVotes * params.thresholdBps) / BPS_DENOMINATOR
+  );
+}
+
+/**
+ * Read a proposal's description, which ProposalCreated does not carry
+ *
+ * Reads at the event's block so the result is deterministic on replay.
+ */
+async function readProposalDescription(
+  proposalId: bigint,
+  blockNumber: bigint
+): Promise<string> {
+  if (!indexerState) return "";
+
+  const { client, config } = indexerState;
+  const [, , description] = await client.readContract({
+    address: config.governorAddress,
+    abi: streetGovernorAbi,
+    functionName: "getProposal",
+    args: [proposalId],
+    blockNumber,
+  });
+  return description;
+}
+
+/** Pending or failed futarchy descriptions fetched per loop iteration */
+const DESCRIPTION_BACKFILL_BATCH = 20;
+
+/** Longest wait between fetches of a failed description */
+const DESCRIPTION_RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Fetch a futarchy proposal's description from IPFS
+ *
+ * Reuses text already fetched for the same hash. Returns null when there is
+ * no gateway or the fetch fails; the proposal is then stored with a pending
+ * description that backfillFutarchyDescriptions retries, rather than
+ * stalling the indexer on an unavailable gateway.
+ */
+async function readFutarchyDescription(
+  proposalId: bigint,
+  descriptionHash: `0x${string}`
+): Promise<string | null> {
+  const fetched = await getFetchedFutarchyDescription(descriptionHash);
+  if (fetched !== null) return fetched;
+
+  const gatewayUrl = indexerState?.config.ipfsGatewayUrl;
+  if (!gatewayUrl) return null;
 
-  // CollateralRedeemed
   try {
-    const decoded = decodeEventLog({
-      abi: [EVENT_ABIS.CollateralRedeemed],
-      data: log.data,
-      topics: log.topics,
-    });
-
-    await insertFutarchyRedemption({
-      proposalId: decoded.args.proposalId.toString(),
-      user: decoded.args.user,
-      amount: decoded.args.amount.toString(),
-      ...meta,
-    });
-    return;
-  } catch {
-    // Not a CollateralRedeemed event
+    return await fetchIpfsText(gatewayUrl, descriptionHash);
+  } catch (error) {
+    console.warn(
+      `[Indexer] Could not fetch description of futarchy proposal ${proposalId} ` +
+        `(${ipfsCid(descriptionHash)}), will retry: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return null;
   }
 }
 
+/**
+ * Fetch pending and failed futarchy descriptions that are due
+ *
+ * Failed fetches back off exponentially up to DESCRIPTION_RETRY_MAX_MS and
+ * are never given up on; content is addressed by hash, so it can appear on
+ * the gateway at any time.
+ */
+async function backfillFutarchyDescriptions(gatewayUrl: string): Promise<void> {
+  const retryBaseMs = indexerState?.config.descriptionRetryBaseMs ?? 60_000;
+  const due = await getDueFutarchyDescriptions(DESCRIPTION_BACKFILL_BATCH);
+
+  await Promise.all(
+    due.map(async ({ id, descriptionHash, attempts }) => {
+      try {
+        const description = await fetchIpfsText(gatewayUrl, descriptionHash);
+        await setFutarchyDescription(id, descriptionHash, description);
+        console.log(`[Indexer] Fetched description of futarchy proposal ${id}`);
+      } catch (error) {
+        const retryInMs = Math.min(retryBaseMs * 2 ** attempts, DESCRIPTION_RETRY_MAX_MS);
+        const message = error instanceof Error ? error.message : String(error);
+        await markFutarchyDescriptionFailed(id, descriptionHash, message, retryInMs);
+      }
+    })
+  );
+}
+
 // =============================================================================
 // Utilities
 // =============================================================================
@@ -0,0 +1,90 @@
+/**
+ * IPFS Module - Street Governance
+ *
+ * Reads off-chain proposal text referenced on-chain by a bytes32 IPFS hash:
+ * - Turns the sha2-256 digest into its CIDv0 ("Qm...")
+ * - Fetches the content through an HTTP gateway, bounded in time and size
+ *
+ * Content is addressed by hash, so any gateway returns the same bytes.
+ */
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+/** Multihash prefix of a 32-byte sha2-256 digest */
+const SHA2_256_PREFIX = "1220";
+
+export interface IpfsFetchOptions {
+  /** Per-request timeout (default: 10s) */
+  timeoutMs?: number;
+  /** Largest body accepted, in bytes (default: 64 KiB) */
+  maxBytes?: number;
+}
+
+function base58(hex: string): string {
+  let value = BigInt(`0x${hex}`);
+  let encoded = "";
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  // Leading zero bytes are written as "1"s
+  for (let i = 0; i < hex.length && hex.slice(i, i + 2) === "00"; i += 2) {
+    encoded = `1${encoded}`;
+  }
+  return encoded;
+}
+
+/**
+ * CIDv0 of a bytes32 sha2-256 digest, as stored by FutarchyTreasury
+ */
+export function ipfsCid(digest: `0x${string}`): string {
+  return base58(`${SHA2_256_PREFIX}${digest.slice(2)}`);
+}
+
+/**
+ * Fetch the text behind a bytes32 IPFS hash from a gateway
+ *
+ * @throws on network errors, non-2xx responses and oversized bodies
+ */
+export async function fetchIpfsText(
+  gatewayUrl: string,
+  digest: `0x${string}`,
+  options: IpfsFetchOptions = {}
+): Promise<string> {
+  const maxBytes = options.maxBytes ?? 64 * 1024;
+  const response = await fetch(`${gatewayUrl.replace(/\/+$/, "")}/ipfs/${ipfsCid(digest)}`, {
+    signal: AbortSignal.timeout(options.timeoutMs ?? 10_000),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  if (parseInt(response.headers.get("content-length") ?? "0", 10) > maxBytes) {
+    throw new Error(`Body larger than ${maxBytes} bytes`);
+  }
+
+  // content-length is optional (chunked responses omit it), so the cap is
+  // enforced on the bytes actually read
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      received += value.byteLength;
+      if (received > maxBytes) {
+        await reader.cancel();
+        throw new Error(`Body larger than ${maxBytes} bytes`);
+      }
+      chunks.push(value);
+    }
+  }
+
+  const body = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(body);
+}
@@ -0,0 +1,54 @@
+/**
+ * Street Governance Backend - Migration CLI
+ *
+ * Usage:
+ *   npm run migrate -- up       Apply pending migrations
+ *   npm run migrate -- status   Show applied/pending migrations
+ */
+
+import "dotenv/config";
+import { initDb, closeDb, migrateDb, getDbMigrationStatus } from "./db/index.js";
+import { formatMigration } from "./db/migrate.js";
+
+async function main(): Promise<void> {
+  const command = process.argv[2] ?? "status";
+  const databaseUrl = process.env.DATABASE_URL ?? "";
+
+  if (command !== "up" && command !== "status") {
+    console.error(`Unknown command "${command}". Usage: migrate <up|status>`);
+    process.exit(1);
+  }
+  if (!databaseUrl) {
+    console.error("DATABASE_URL is required");
+    process.exit(1);
+  }
+
+  await initDb({ connectionString: databaseUrl, skipSchemaCheck: true });
+
+  try {
+    if (command === "up") {
+      const applied = await migrateDb();
+      console.log(
+        applied.length === 0
+          ? "[Migrate] Schema is up to date"
+          : `[Migrate] Applied ${applied.length} migration(s)`
+      );
+    } else {
+      const status = await getDbMigrationStatus();
+      for (const m of status) {
+        const appliedAt = m.appliedAt ? ` (${m.appliedAt.toISOString()})` : "";
+        console.log(`  ${formatMigration(m).padEnd(45)} ${m.state}${appliedAt}`);
+      }
+      if (status.some((m) => m.state === "checksum_mismatch" || m.state === "missing")) {
+        process.exitCode = 1;
+      }
+    }
+  } finally {
+    await closeDb();
+  }
+}
+
+main().catch((error) => {
+  console.error("[Migrate] Failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
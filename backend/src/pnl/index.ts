@@ -0,0 +1,193 @@
+/**
+ * PnL Module - Street Governance
+ *
+ * Average-cost profit and loss of futarchy traders, per (trader, proposal,
+ * outcome):
+ * - OutcomePurchased adds tokens at their KLED cost
+ * - OutcomeSold and WinningsRedeemed release cost at the average price and
+ *   realize the difference to the KLED received
+ * - Tokens still held are marked at the latest indexed price, or at zero
+ *   once the outcome has lost
+ *
+ * Tokens moved by ERC-1155 transfers are not tracked: selling or redeeming
+ * more than was bought realizes the excess at zero cost.
+ */
+
+import type { PnlPosition, PnlTotals } from "../types/index.js";
+
+const PRECISION = 10n ** 18n;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PnlEvent {
+  kind: "buy" | "sell" | "redeem";
+  trader: string;
+  proposalId: string;
+  isPass: boolean;
+  tokens: bigint;
+  kled: bigint;
+}
+
+/**
+ * Valuation inputs of a futarchy proposal
+ */
+export interface PnlMark {
+  passPrice: bigint;
+  failPrice: bigint;
+  passed: boolean | null; // null until resolved
+}
+
+interface PositionState {
+  proposalId: string;
+  isPass: boolean;
+  tokensBought: bigint;
+  kledSpent: bigint;
+  tokensSold: bigint;
+  kledFromSales: bigint;
+  tokensRedeemed: bigint;
+  kledRedeemed: bigint;
+  tokensHeld: bigint;
+  costBasis: bigint;
+  realized: bigint;
+}
+
+// =============================================================================
+// Accounting
+// =============================================================================
+
+/**
+ * Remove tokens from a position at its average cost
+ *
+ * @returns Realized PnL of the exit
+ */
+function exit(state: PositionState, tokens: bigint, kled: bigint): bigint {
+  const released = tokens < state.tokensHeld ? tokens : state.tokensHeld;
+  const cost = state.tokensHeld === 0n ? 0n : (state.costBasis * released) / state.tokensHeld;
+  state.tokensHeld -= released;
+  state.costBasis -= cost;
+  return kled - cost;
+}
+
+function markPrice(mark: PnlMark | undefined, isPass: boolean): bigint {
+  if (!mark) return 0n;
+  if (mark.passed !== null && mark.passed !== isPass) return 0n;
+  return isPass ? mark.passPrice : mark.failPrice;
+}
+
+/**
+ * Replay trades and redemptions into PnL positions
+ *
+ * @param events - Events in chain order
+ * @param marks - Valuation inputs by proposal id
+ * @returns Positions by lowercased trader address, newest proposal first
+ */
+export function computePnl(
+  events: PnlEvent[],
+  marks: Map<string, PnlMark>
+): Map<string, PnlPosition[]> {
+  const states = new Map<string, Map<string, PositionState>>();
+
+  for (const event of events) {
+    const trader = event.trader.toLowerCase();
+    let positions = states.get(trader);
+    if (!positions) {
+      positions = new Map();
+      states.set(trader, positions);
+    }
+
+    const key = `${event.proposalId}:${event.isPass}`;
+    let state = positions.get(key);
+    if (!state) {
+      state = {
+        proposalId: event.proposalId,
+        isPass: event.isPass,
+        tokensBought: 0n,
+        kledSpent: 0n,
+        tokensSold: 0n,
+        kledFromSales: 0n,
+        tokensRedeemed: 0n,
+        kledRedeemed: 0n,
+        tokensHeld: 0n,
+        costBasis: 0n,
+        realized: 0n,
+      };
+      positions.set(key, state);
+    }
+
+    switch (event.kind) {
+      case "buy":
+        state.tokensBought += event.tokens;
+        state.kledSpent += event.kled;
+        state.tokensHeld += event.tokens;
+        state.costBasis += event.kled;
+        break;
+      case "sell":
+        state.tokensSold += event.tokens;
+        state.kledFromSales += event.kled;
+        state.realized += exit(state, event.tokens, event.kled);
+        break;
+      case "redeem":
+        state.tokensRedeemed += event.tokens;
+        state.kledRedeemed += event.kled;
+        state.realized += exit(state, event.tokens, event.kled);
+        break;
+    }
+  }
+
+  const result = new Map<string, PnlPosition[]>();
+  for (const [trader, positions] of states) {
+    const sorted = [...positions.values()].sort((a, b) => {
+      const byProposal = BigInt(b.proposalId) - BigInt(a.proposalId);
+      if (byProposal !== 0n) return byProposal > 0n ? 1 : -1;
+      return Number(b.isPass) - Number(a.isPass);
+    });
+
+    result.set(
+      trader,
+      sorted.map((state) => {
+        const price = markPrice(marks.get(state.proposalId), state.isPass);
+        const unrealized = (state.tokensHeld * price) / PRECISION - state.costBasis;
+        return {
+          proposalId: state.proposalId,
+          isPass: state.isPass,
+          tokensBought: state.tokensBought.toString(),
+          kledSpent: state.kledSpent.toString(),
+          tokensSold: state.tokensSold.toString(),
+          kledFromSales: state.kledFromSales.toString(),
+          tokensRedeemed: state.tokensRedeemed.toString(),
+          kledRedeemed: state.kledRedeemed.toString(),
+          tokensHeld: state.tokensHeld.toString(),
+          costBasis: state.costBasis.toString(),
+          avgEntryPrice:
+            state.tokensHeld === 0n
+              ? null
+              : ((state.costBasis * PRECISION) / state.tokensHeld).toString(),
+          markPrice: price.toString(),
+          realizedPnl: state.realized.toString(),
+          unrealizedPnl: unrealized.toString(),
+          totalPnl: (state.realized + unrealized).toString(),
+        };
+      })
+    );
+  }
+  return result;
+}
+
+/**
+ * Sum the PnL of several positions
+ */
+export function sumPnl(positions: PnlPosition[]): PnlTotals {
+  let realized = 0n;
+  let unrealized = 0n;
+  for (const position of positions) {
+    realized += BigInt(position.realizedPnl);
+    unrealized += BigInt(position.unrealizedPnl);
+  }
+  return {
+    realizedPnl: realized.toString(),
+    unrealizedPnl: unrealized.toString(),
+    totalPnl: (realized + unrealized).toString(),
+  };
+}
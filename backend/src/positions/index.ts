@@ -0,0 +1,20 @@
+/**
+ * Outcome Positions Module - Street Governance
+ *
+ * Helpers for ConditionalTokens PASS/FAIL positions:
+ * - ERC-1155 token ids of a proposal's outcomes (ConditionalTokens.getTokenId)
+ *
+ * Entry prices come from the average-cost replay in the PnL module.
+ */
+
+import { encodePacked, hexToBigInt, keccak256 } from "viem";
+
+/**
+ * Token id of a proposal outcome: keccak256(abi.encodePacked(proposalId, isPass))
+ */
+export function outcomeTokenId(proposalId: bigint, isPass: boolean): string {
+  return hexToBigInt(
+    keccak256(encodePacked(["uint256", "bool"], [proposalId, isPass]))
+  ).toString();
+}
+
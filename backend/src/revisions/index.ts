@@ -0,0 +1,187 @@
+/**
+ * Proposal Revisions Module - Street Governance
+ *
+ * Text handling for accepted edit suggestions:
+ * - Locating the edited passage from its on-chain hash
+ * - Line diffs between consecutive revisions
+ *
+ * EditSuggestions only stores keccak256 of the original passage (the text
+ * the suggester selected) next to the replacement text, so the passage is
+ * found by hashing candidate spans of the current description.
+ */
+
+import { keccak256, toBytes } from "viem";
+import type { DiffLine } from "../types/index.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AppliedEdit {
+  /** Description after the edit (unchanged when the passage was not found) */
+  text: string;
+  /** The passage that was replaced, null when no span matched the hash */
+  replacedText: string | null;
+}
+
+// =============================================================================
+// Edit Application
+// =============================================================================
+
+/**
+ * Longest word-aligned span hashed when searching for a passage. Larger
+ * selections are still found when they cover whole paragraphs.
+ */
+const MAX_SPAN_WORDS = 100;
+
+/**
+ * Word-aligned spans hashed per search (~20µs each). The search runs inside
+ * the indexer's batch transaction, so long descriptions are only searched
+ * for shorter spans rather than every span up to MAX_SPAN_WORDS.
+ */
+const MAX_SPAN_CANDIDATES = 10_000;
+
+/**
+ * Find the first span of `text` whose keccak256 equals `hash`
+ *
+ * Candidates, in order: the whole text, each paragraph, then spans starting
+ * and ending on a word boundary, shortest first, up to MAX_SPAN_WORDS words
+ * or MAX_SPAN_CANDIDATES spans in total.
+ */
+export function findPassage(
+  text: string,
+  hash: string
+): { start: number; end: number } | null {
+  const target = hash.toLowerCase();
+  const matches = (start: number, end: number) =>
+    keccak256(toBytes(text.slice(start, end))) === target;
+
+  if (text.length > 0 && matches(0, text.length)) {
+    return { start: 0, end: text.length };
+  }
+
+  // Runs of non-blank lines, without surrounding whitespace
+  for (const paragraph of text.matchAll(/\S(?:[^\n]|\n(?![ \t]*(?:\n|$)))*/g)) {
+    const start = paragraph.index;
+    const end = start + paragraph[0].trimEnd().length;
+    if (matches(start, end)) return { start, end };
+  }
+
+  const words = [...text.matchAll(/\S+/g)].map((w) => ({
+    start: w.index,
+    end: w.index + w[0].length,
+  }));
+  let budget = MAX_SPAN_CANDIDATES;
+  // Equal hashes mean equal text, so the first start matching a given span
+  // length is the first occurrence of the passage
+  for (let length = 1; length <= Math.min(words.length, MAX_SPAN_WORDS); length++) {
+    for (let i = 0; i + length <= words.length; i++) {
+      if (budget-- === 0) return null;
+      const start = words[i]!.start;
+      const end = words[i + length - 1]!.end;
+      if (matches(start, end)) return { start, end };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply an accepted suggestion to a description
+ */
+export function applyEdit(
+  text: string,
+  originalHash: string,
+  proposedText: string
+): AppliedEdit {
+  const passage = findPassage(text, originalHash);
+  if (!passage) {
+    return { text, replacedText: null };
+  }
+  return {
+    text: text.slice(0, passage.start) + proposedText + text.slice(passage.end),
+    replacedText: text.slice(passage.start, passage.end),
+  };
+}
+
+// =============================================================================
+// Diffing
+// =============================================================================
+
+/**
+ * Most cells of the LCS table built for the changed middle of a diff; larger
+ * changes are shown as the old lines removed and the new lines added
+ */
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Line diff (longest common subsequence) from `before` to `after`
+ *
+ * Lines shared at the start and end are kept without entering the LCS
+ * table, so an edit costs memory in the size of the changed region.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const diff: DiffLine[] = [];
+  for (const line of a.slice(0, prefix)) diff.push({ op: "keep", line });
+  diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix), diff);
+  for (const line of a.slice(a.length - suffix)) diff.push({ op: "keep", line });
+
+  return diff;
+}
+
+/**
+ * Append the LCS diff of the changed lines between a shared prefix and suffix
+ */
+function diffMiddle(a: string[], b: string[], diff: DiffLine[]): void {
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    for (const line of a) diff.push({ op: "remove", line });
+    for (const line of b) diff.push({ op: "add", line });
+    return;
+  }
+
+  // lcs[i * width + j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1]! + 1
+          : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ op: "keep", line: a[i]! });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j]! >= lcs[i * width + j + 1]!) {
+      diff.push({ op: "remove", line: a[i]! });
+      i++;
+    } else {
+      diff.push({ op: "add", line: b[j]! });
+      j++;
+    }
+  }
+  for (; i < a.length; i++) diff.push({ op: "remove", line: a[i]! });
+  for (; j < b.length; j++) diff.push({ op: "add", line: b[j]! });
+}
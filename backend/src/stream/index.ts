@@ -0,0 +1,131 @@
+/**
+ * Stream Module - Street Governance
+ *
+ * Push channel behind /api/stream (SSE) and /api/stream/ws (WebSocket):
+ * - Normalizes decoded event args into JSON payloads
+ * - Wakes subscribers once the indexer commits a batch or a reorg
+ * - Replays the stream log from a cursor, then follows it live
+ *
+ * Events are read back from the stream_events table rather than passed in
+ * memory, so a resumed subscriber and a live one see the same sequence.
+ * The indexer and the API must run in the same process for live wake-ups.
+ */
+
+import { EventEmitter } from "node:events";
+import { getLatestStreamCursor, getStreamEvents } from "../db/index.js";
+import type { StreamEvent, StreamFilter, StreamPayload } from "../types/index.js";
+
+/** Events read per query while catching up */
+const PAGE_SIZE = 500;
+
+const commits = new EventEmitter();
+commits.setMaxListeners(0);
+
+// =============================================================================
+// Normalization
+// =============================================================================
+
+/**
+ * Convert decoded event args to a JSON payload (bigints as decimal strings)
+ */
+export function toStreamPayload(args: Record<string, unknown>): StreamPayload {
+  const payload: StreamPayload = {};
+  for (const [key, value] of Object.entries(args)) {
+    if (Array.isArray(value)) {
+      payload[key] = value.map(String);
+    } else if (typeof value === "bigint") {
+      payload[key] = value.toString();
+    } else if (
+      typeof value === "string" ||
+      typeof value === "number" ||
+      typeof value === "boolean"
+    ) {
+      payload[key] = value;
+    } else {
+      payload[key] = null;
+    }
+  }
+  return payload;
+}
+
+// =============================================================================
+// Subscriptions
+// =============================================================================
+
+/**
+ * Wake every subscriber after a batch or reorg transaction commits
+ */
+export function notifyStreamCommit(): void {
+  commits.emit("commit");
+}
+
+/**
+ * Run a listener after every committed batch or reorg
+ *
+ * @returns Function that removes the listener
+ */
+export function onStreamCommit(listener: () => void): () => void {
+  commits.on("commit", listener);
+  return () => {
+    commits.off("commit", listener);
+  };
+}
+
+export interface StreamSubscription {
+  /** Resume after this cursor; omit to receive only new events */
+  cursor?: string;
+  filter: StreamFilter;
+  /** May return a promise that settles once the client can take more */
+  send: (event: StreamEvent) => void | Promise<void>;
+}
+
+/**
+ * Deliver stream events to one client in cursor order
+ *
+ * Reading pauses while a send is pending, so a slow client is left behind
+ * in the stream log rather than buffered in memory.
+ *
+ * @returns Function that ends the subscription
+ */
+export function subscribeStream(subscription: StreamSubscription): () => void {
+  const { filter, send } = subscription;
+  let cursor: string | undefined = subscription.cursor;
+  let closed = false;
+  let running = false;
+  let pending = false;
+
+  const pump = async (): Promise<void> => {
+    if (running) {
+      pending = true;
+      return;
+    }
+    running = true;
+    try {
+      cursor ??= await getLatestStreamCursor();
+      do {
+        pending = false;
+        let page: StreamEvent[];
+        do {
+          page = await getStreamEvents(cursor, filter, PAGE_SIZE);
+          for (const event of page) {
+            if (closed) return;
+            await send(event);
+            cursor = event.cursor;
+          }
+        } while (page.length === PAGE_SIZE);
+      } while (pending && !closed);
+    } catch (error) {
+      console.error("[Stream] Failed to read events:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const stopListening = onStreamCommit(() => void pump());
+  void pump();
+
+  return () => {
+    closed = true;
+    stopListening();
+  };
+}
@@ -4,24 +4,33 @@
  * Core types for the governance indexer and API.
  */
 
+import {
+  editSuggestionsAbi,
+  futarchyTreasuryAbi,
+  getEventSignatures,
+  kledTokenAbi,
+  streetGovernorAbi,
+} from "../abis/index.js";
+
 // =============================================================================
 // Blockchain Event Types (mapped from contract events)
 // =============================================================================
 
 /**
  * ProposalCreated event from StreetGovernor
- * Emitted when a new proposal is created with staked KLED
+ * Emitted when a new proposal is created with staked KLED. The description
+ * is not part of the event and is read from getProposal().
  */
 export interface ProposalCreatedEvent {
   proposalId: bigint;
   proposer: `0x${string}`;
   title: string;
-  description: string;
   targets: `0x${string}`[];
   values: bigint[];
   calldatas: `0x${string}`[];
-  startBlock: bigint;
-  endBlock: bigint;
+  snapshotTimestamp: bigint; // voting power snapshot
+  startTime: bigint; // timestamp
+  endTime: bigint; // timestamp
   stakeAmount: bigint; // 50,000 KLED staked
 }
 
@@ -61,10 +70,10 @@ export interface ProposalCanceledEvent {
 }
 
 /**
- * Slashed event from StreetGovernor
+ * StakeSlashed event from StreetGovernor
  * Emitted when a proposal fails and proposer loses 10% stake
  */
-export interface SlashedEvent {
+export interface StakeSlashedEvent {
   proposalId: bigint;
   proposer: `0x${string}`;
   slashedAmount: bigint;
@@ -72,79 +81,319 @@ export interface SlashedEvent {
 }
 
 /**
- * EditSuggested event from EditSuggestions contract
+ * SuggestionCreated event from EditSuggestions contract
  * Emitted when someone suggests an edit to a proposal
  */
-export interface EditSuggestedEvent {
+export interface SuggestionCreatedEvent {
   suggestionId: bigint;
   proposalId: bigint;
   suggester: `0x${string}`;
   originalHash: `0x${string}`;
   proposedText: string;
   stakeAmount: bigint; // 500 KLED staked
-  editWindowEnd: bigint; // timestamp
-  voteWindowEnd: bigint; // timestamp
+  editDeadline: bigint; // timestamp
+  voteDeadline: bigint; // timestamp
 }
 
 /**
- * SuggestionVoted event from EditSuggestions contract
+ * SuggestionVoteCast event from EditSuggestions contract
  * Emitted when someone votes on an edit suggestion
  */
-export interface SuggestionVotedEvent {
+export interface SuggestionVoteCastEvent {
   suggestionId: bigint;
   voter: `0x${string}`;
   support: boolean;
   weight: bigint;
 }
 
+/**
+ * SuggestionFinalized event from EditSuggestions contract
+ */
+export interface SuggestionFinalizedEvent {
+  suggestionId: bigint;
+  accepted: boolean; // forVotes > againstVotes
+  forVotes: bigint;
+  againstVotes: bigint;
+}
+
+/**
+ * SuggestionStakeClaimed event from EditSuggestions contract
+ */
+export interface SuggestionStakeClaimedEvent {
+  suggestionId: bigint;
+  suggester: `0x${string}`;
+  amount: bigint; // Returned to the suggester (90% when slashed)
+  slashed: boolean;
+}
+
 // =============================================================================
 // Futarchy Treasury Event Types
 // =============================================================================
 
 /**
  * FutarchyProposalCreated event from FutarchyTreasury contract
- * Emitted when a new treasury allocation proposal is created with prediction markets
+ * Emitted when a new treasury allocation proposal is created with PASS/FAIL markets
  */
 export interface FutarchyProposalCreatedEvent {
   proposalId: bigint;
-  description: string;
-  amount: bigint; // Treasury amount requested
-  recipient: `0x${string}`; // Where funds would go
-  marketEndTime: bigint; // When prediction market closes
+  proposer: `0x${string}`;
+  target: `0x${string}`; // Where funds would go
+  requestedAmount: bigint; // Treasury amount requested
+  descriptionHash: `0x${string}`; // IPFS hash of the description
+  passMarketId: bigint; // FutarchyAMM market ids
+  failMarketId: bigint;
+  tradingEnd: number; // When trading closes
+  resolutionTime: number; // Earliest resolution
 }
 
 /**
- * TradePlaced event from FutarchyTreasury contract
- * Emitted when a user trades in the YES/NO prediction markets
+ * OutcomePurchased event from FutarchyTreasury contract
+ * Emitted when a user buys PASS or FAIL outcome tokens
  */
-export interface TradePlacedEvent {
+export interface OutcomePurchasedEvent {
   proposalId: bigint;
-  trader: `0x${string}`;
-  isYes: boolean; // true = YES market, false = NO market
-  amountIn: bigint; // Collateral spent
-  amountOut: bigint; // Outcome tokens received
+  buyer: `0x${string}`;
+  isPass: boolean; // true = PASS market, false = FAIL market
+  kledSpent: bigint; // Collateral spent
+  tokensReceived: bigint; // Outcome tokens received
   newPrice: bigint; // New market price (18 decimals, 0-1e18)
 }
 
 /**
- * ProposalResolved event from FutarchyTreasury contract
- * Emitted when prediction market ends and proposal is resolved
+ * MarketResolved event from FutarchyTreasury contract
+ * Emitted when the markets are resolved by comparing PASS and FAIL prices
+ */
+export interface MarketResolvedEvent {
+  proposalId: bigint;
+  passWins: boolean; // Did proposal pass based on market prices?
+  finalPassPrice: bigint;
+  finalFailPrice: bigint;
+}
+
+/**
+ * WinningsRedeemed event from FutarchyTreasury contract
+ * Emitted when user redeems winning outcome tokens for KLED
+ */
+export interface WinningsRedeemedEvent {
+  proposalId: bigint;
+  redeemer: `0x${string}`;
+  tokensRedeemed: bigint;
+  kledReceived: bigint; // Collateral redeemed
+}
+
+/**
+ * OutcomeSold event from FutarchyTreasury contract
+ * Emitted when a user sells PASS or FAIL outcome tokens back to the market
+ */
+export interface OutcomeSoldEvent {
+  proposalId: bigint;
+  seller: `0x${string}`;
+  isPass: boolean;
+  tokensSold: bigint;
+  kledReceived: bigint; // Collateral received
+  newPrice: bigint;
+}
+
+/**
+ * TradingClosed event from FutarchyTreasury contract
+ * Emitted when both markets close; the prices are used for resolution
+ */
+export interface TradingClosedEvent {
+  proposalId: bigint;
+  passPrice: bigint;
+  failPrice: bigint;
+}
+
+/**
+ * ProposalExecuted event from FutarchyTreasury contract
+ * Emitted when a PASS proposal transfers its requested amount
+ */
+export interface FutarchyProposalExecutedEvent {
+  proposalId: bigint;
+  target: `0x${string}`;
+  amount: bigint;
+}
+
+/**
+ * ProposalRejected / ProposalCanceled events from FutarchyTreasury contract
+ */
+export interface FutarchyProposalRejectedEvent {
+  proposalId: bigint;
+}
+
+export interface FutarchyProposalCanceledEvent {
+  proposalId: bigint;
+}
+
+/**
+ * StakeReturned event from FutarchyTreasury contract
+ * Emitted on resolution or cancellation when the proposer stake is paid back
  */
-export interface ProposalResolvedEvent {
+export interface StakeReturnedEvent {
   proposalId: bigint;
-  passed: boolean; // Did proposal pass based on market prices?
-  yesPrice: bigint; // Final YES market price
-  noPrice: bigint; // Final NO market price
+  proposer: `0x${string}`;
+  amount: bigint;
+}
+
+/**
+ * EmergencyResolution event from FutarchyTreasury contract
+ * Emitted when the guardian resolves a closed market directly
+ */
+export interface EmergencyResolutionEvent {
+  proposalId: bigint;
+  passWins: boolean;
+  guardian: `0x${string}`;
+}
+
+/**
+ * TestModeEnabled event from FutarchyTreasury contract
+ */
+export interface TestModeEnabledEvent {
+  enabled: boolean;
 }
 
+// =============================================================================
+// Futarchy AMM Event Types
+// =============================================================================
+
 /**
- * CollateralRedeemed event from FutarchyTreasury contract
- * Emitted when user redeems winning outcome tokens for collateral
+ * MarketCreated event from FutarchyAMM contract
+ * Two per futarchy proposal (PASS and FAIL), emitted before
+ * FutarchyProposalCreated in the same transaction
  */
-export interface CollateralRedeemedEvent {
+export interface AmmMarketCreatedEvent {
+  marketId: bigint;
   proposalId: bigint;
-  user: `0x${string}`;
-  amount: bigint; // Collateral redeemed
+  isPass: boolean;
+  liquidity: bigint; // LMSR b
+}
+
+/**
+ * TokensBought event from FutarchyAMM contract
+ */
+export interface TokensBoughtEvent {
+  marketId: bigint;
+  isYes: boolean;
+  cost: bigint;
+  tokens: bigint;
+}
+
+/**
+ * TokensSold event from FutarchyAMM contract
+ */
+export interface TokensSoldEvent {
+  marketId: bigint;
+  isYes: boolean;
+  tokens: bigint;
+  returned: bigint;
+}
+
+/**
+ * MarketClosed event from FutarchyAMM contract
+ * Prices are the 24h TWAP at closing (0-1e18)
+ */
+export interface AmmMarketClosedEvent {
+  marketId: bigint;
+  finalYesPrice: bigint;
+  finalNoPrice: bigint;
+}
+
+// =============================================================================
+// Conditional Tokens Event Types
+// =============================================================================
+
+/**
+ * OutcomeTokensMinted event from ConditionalTokens contract
+ * Emitted after the matching TransferSingle (mint) or before the
+ * TransferBatch (mintBatch)
+ */
+export interface OutcomeTokensMintedEvent {
+  proposalId: bigint;
+  to: `0x${string}`;
+  isPass: boolean;
+  amount: bigint;
+}
+
+/**
+ * OutcomeTokensBurned event from ConditionalTokens contract
+ */
+export interface OutcomeTokensBurnedEvent {
+  proposalId: bigint;
+  from: `0x${string}`;
+  isPass: boolean;
+  amount: bigint;
+}
+
+/**
+ * ERC-1155 TransferSingle event from ConditionalTokens contract
+ * Mints come from and burns go to the zero address
+ */
+export interface TransferSingleEvent {
+  operator: `0x${string}`;
+  from: `0x${string}`;
+  to: `0x${string}`;
+  id: bigint;
+  value: bigint;
+}
+
+/**
+ * ERC-1155 TransferBatch event from ConditionalTokens contract
+ */
+export interface TransferBatchEvent {
+  operator: `0x${string}`;
+  from: `0x${string}`;
+  to: `0x${string}`;
+  ids: readonly bigint[];
+  values: readonly bigint[];
+}
+
+// =============================================================================
+// KLED Token Event Types
+// =============================================================================
+
+/**
+ * Transfer event from KLEDToken contract
+ * Mints come from and burns go to the zero address
+ */
+export interface TransferEvent {
+  from: `0x${string}`;
+  to: `0x${string}`;
+  value: bigint;
+}
+
+/**
+ * DelegateChanged event from KLEDToken contract
+ */
+export interface DelegateChangedEvent {
+  delegator: `0x${string}`;
+  fromDelegate: `0x${string}`;
+  toDelegate: `0x${string}`;
+}
+
+/**
+ * DelegateVotesChanged event from KLEDToken contract
+ * Emitted for every voting power checkpoint (what getPastVotes reads)
+ */
+export interface DelegateVotesChangedEvent {
+  delegate: `0x${string}`;
+  previousVotes: bigint;
+  newVotes: bigint;
+}
+
+/**
+ * TokensMinted event from KLEDToken contract
+ */
+export interface TokensMintedEvent {
+  to: `0x${string}`;
+  amount: bigint;
+}
+
+/**
+ * MintingPermanentlyLocked event from KLEDToken contract
+ */
+export interface MintingPermanentlyLockedEvent {
+  locker: `0x${string}`;
+  totalSupplyAtLock: bigint;
 }
 
 // =============================================================================
@@ -175,8 +424,9 @@ export interface Proposal extends EventMeta {
   targets: string[]; // JSON array of addresses
   values: string[]; // JSON array of bigint strings
   calldatas: string[]; // JSON array of calldata hex strings
-  startBlock: string;
-  endBlock: string;
+  snapshotTimestamp: number; // Unix timestamp of the voting power snapshot
+  startTime: number; // Unix timestamp
+  endTime: number; // Unix timestamp
   stakeAmount: string;
   status: ProposalStatus;
   // Aggregated vote counts (updated on VoteCast)
@@ -188,6 +438,9 @@ export interface Proposal extends EventMeta {
   canceledAt: Date | null;
   // Slashing tracking
   slashedAmount: string | null;
+  // Parameters the outcome was decided with
+  quorumVotes: string | null;
+  thresholdBps: string | null;
   createdAt: Date;
 }
 
@@ -195,7 +448,7 @@ export interface Proposal extends EventMeta {
  * Proposal status derived from events and block numbers
  */
 export enum ProposalStatus {
-  Pending = "pending", // Before startBlock
+  Pending = "pending", // Before startTime
   Active = "active", // Voting in progress
   Defeated = "defeated", // Failed vote
   Succeeded = "succeeded", // Passed vote, awaiting execution
@@ -233,6 +486,10 @@ export interface EditSuggestion extends EventMeta {
   // Aggregated vote counts
   forVotes: string;
   againstVotes: string;
+  finalizedAt: Date | null;
+  // Stake claim (null until claimed)
+  stakeReturned: string | null;
+  stakeSlashed: boolean | null;
   createdAt: Date;
 }
 
@@ -242,9 +499,9 @@ export interface EditSuggestion extends EventMeta {
 export enum SuggestionStatus {
   Pending = "pending", // Within edit window
   Voting = "voting", // Within vote window
-  Accepted = "accepted", // Passed vote
-  Rejected = "rejected", // Failed vote
-  Expired = "expired", // Vote window ended without resolution
+  Accepted = "accepted", // Finalized with forVotes > againstVotes
+  Rejected = "rejected", // Finalized otherwise
+  Expired = "expired", // Vote window ended, not finalized yet
 }
 
 /**
@@ -280,20 +537,38 @@ export interface SlashRecord extends EventMeta {
  */
 export enum FutarchyProposalStatus {
   Active = "active", // Market is open for trading
+  Closed = "closed", // Trading closed, awaiting resolution
   Resolved = "resolved", // Market closed, proposal resolved
-  Executed = "executed", // Funds transferred (if passed)
+  Executed = "executed", // Funds transferred (PASS won)
+  Rejected = "rejected", // FAIL won
+  Canceled = "canceled", // Canceled by proposer or guardian
   Expired = "expired", // Market ended without resolution
 }
 
+/**
+ * Fetch state of a futarchy proposal's off-chain description
+ */
+export enum FutarchyDescriptionStatus {
+  Pending = "pending", // Not fetched yet (or no gateway configured)
+  Fetched = "fetched",
+  Failed = "failed", // Last fetch failed; retried with backoff
+}
+
 /**
  * Futarchy treasury proposal entity in database
  */
 export interface FutarchyProposal extends EventMeta {
   id: string; // proposalId as string
-  description: string;
+  proposer: string;
+  description: string | null; // Off-chain; null until fetched from descriptionHash
+  descriptionHash: string;
+  descriptionStatus: FutarchyDescriptionStatus;
   amount: string; // Requested treasury amount
   recipient: string;
-  marketEndTime: number; // Unix timestamp
+  passMarketId: string;
+  failMarketId: string;
+  marketEndTime: number; // Unix timestamp (trading end)
+  resolutionTime: number; // Unix timestamp
   status: FutarchyProposalStatus;
   // Current market prices (updated on each trade)
   yesPrice: string; // 18 decimals, 0-1e18
@@ -307,17 +582,32 @@ export interface FutarchyProposal extends EventMeta {
   totalNoVolume: string;
   totalTrades: number;
   resolvedAt: Date | null;
+  // Lifecycle (set by TradingClosed ... ProposalExecuted/Rejected/Canceled)
+  closingPassPrice: string | null;
+  closingFailPrice: string | null;
+  closedAt: Date | null;
+  emergencyResolved: boolean;
+  executedAt: Date | null;
+  executedTarget: string | null;
+  executedAmount: string | null; // KLED moved from the treasury
+  rejectedAt: Date | null;
+  canceledAt: Date | null;
+  stakeReturned: string | null;
+  totalRedeemed: string; // KLED paid to winners
   createdAt: Date;
 }
 
 /**
  * Futarchy trade entity in database
+ *
+ * For sells amountIn is outcome tokens sold and amountOut collateral received.
  */
 export interface FutarchyTrade extends EventMeta {
   id: number;
   proposalId: string;
   trader: string;
   isYes: boolean;
+  isBuy: boolean;
   amountIn: string;
   amountOut: string;
   newPrice: string;
@@ -331,7 +621,34 @@ export interface FutarchyRedemption extends EventMeta {
   id: number;
   proposalId: string;
   user: string;
-  amount: string;
+  amount: string; // KLED received
+  tokensRedeemed: string;
+  createdAt: Date;
+}
+
+// =============================================================================
+// KLED Token Entity Types
+// =============================================================================
+
+/**
+ * Current balance and delegate of an account, derived from token events
+ */
+export interface TokenHolder {
+  address: string;
+  balance: string;
+  delegate: string | null; // null until the holder delegates
+  updatedBlock: string;
+  updatedAt: Date;
+}
+
+/**
+ * KLED transfer entity in database
+ */
+export interface TokenTransfer extends EventMeta {
+  id: number;
+  from: string;
+  to: string;
+  value: string;
   createdAt: Date;
 }
 
@@ -364,13 +681,34 @@ export interface PaginatedResponse<T> {
   };
 }
 
+/**
+ * Chain position of an event row; keyset cursors encode it
+ */
+export interface EventPosition {
+  blockNumber: string;
+  logIndex: number;
+}
+
+export interface CursorParams {
+  after?: EventPosition; // Omit for the first (newest) page
+  limit: number;
+}
+
+export interface CursorPage<T> {
+  data: T[];
+  pagination: {
+    limit: number;
+    nextCursor: string | null; // null on the last page
+  };
+}
+
 export interface ProposalListItem {
   id: string;
   proposer: string;
   title: string;
   status: ProposalStatus;
-  startBlock: string;
-  endBlock: string;
+  startTime: number;
+  endTime: number;
   forVotes: string;
   againstVotes: string;
   abstainVotes: string;
@@ -382,10 +720,14 @@ export interface ProposalDetail extends ProposalListItem {
   targets: string[];
   values: string[];
   calldatas: string[];
+  snapshotTimestamp: number;
   stakeAmount: string;
   executedAt: string | null;
   canceledAt: string | null;
   slashedAmount: string | null;
+  // Decided with (null until succeeded/defeated)
+  quorumVotes: string | null;
+  thresholdBps: string | null;
   suggestions: EditSuggestionListItem[];
 }
 
@@ -409,9 +751,50 @@ export interface EditSuggestionListItem {
   forVotes: string;
   againstVotes: string;
   voteWindowEnd: number;
+  finalizedAt: string | null;
+  stakeReturned: string | null;
+  stakeSlashed: boolean | null;
   createdAt: string;
 }
 
+export interface SlashListItem {
+  proposalId: string;
+  proposer: string;
+  slashedAmount: string;
+  returnedAmount: string;
+  txHash: string;
+  blockNumber: string;
+  createdAt: string;
+}
+
+export interface DiffLine {
+  op: "keep" | "add" | "remove";
+  line: string;
+}
+
+/**
+ * One version of a proposal's description. Version 0 is the text as
+ * created; each later version applies one accepted edit suggestion.
+ */
+export interface ProposalRevision {
+  version: number;
+  description: string;
+  // Null for version 0
+  suggestionId: string | null;
+  suggester: string | null;
+  proposedText: string | null;
+  replacedText: string | null; // null if the edited passage was not found
+  txHash: string | null;
+  blockNumber: string | null;
+  timestamp: number | null;
+  diff: DiffLine[]; // Against the previous version (empty for version 0)
+}
+
+export interface ProposalRevisions {
+  proposalId: string;
+  revisions: ProposalRevision[]; // Oldest first
+}
+
 export interface GovernanceStats {
   totalProposals: number;
   activeProposals: number;
@@ -436,7 +819,10 @@ export interface IndexerStatus {
 
 export interface FutarchyProposalListItem {
   id: string;
-  description: string;
+  proposer: string;
+  description: string | null;
+  descriptionHash: string;
+  descriptionStatus: FutarchyDescriptionStatus;
   amount: string;
   recipient: string;
   marketEndTime: number;
@@ -448,18 +834,33 @@ export interface FutarchyProposalListItem {
 }
 
 export interface FutarchyProposalDetail extends FutarchyProposalListItem {
+  passMarketId: string;
+  failMarketId: string;
+  resolutionTime: number;
   totalYesVolume: string;
   totalNoVolume: string;
   finalYesPrice: string | null;
   finalNoPrice: string | null;
   passed: boolean | null;
   resolvedAt: string | null;
+  closingPassPrice: string | null;
+  closingFailPrice: string | null;
+  closedAt: string | null;
+  emergencyResolved: boolean;
+  executedAt: string | null;
+  executedTarget: string | null;
+  executedAmount: string | null;
+  rejectedAt: string | null;
+  canceledAt: string | null;
+  stakeReturned: string | null;
+  totalRedeemed: string;
 }
 
 export interface FutarchyTradeListItem {
   proposalId: string;
   trader: string;
   isYes: boolean;
+  isBuy: boolean;
   amountIn: string;
   amountOut: string;
   newPrice: string;
@@ -478,6 +879,139 @@ export interface FutarchyPriceData {
   isActive: boolean;
 }
 
+/**
+ * Candle intervals in seconds (mirrored in rebuild_futarchy_candles)
+ */
+export const CANDLE_INTERVALS = {
+  "1m": 60,
+  "5m": 300,
+  "1h": 3600,
+  "1d": 86400,
+} as const;
+
+export type CandleInterval = keyof typeof CANDLE_INTERVALS;
+
+/**
+ * OHLCV bucket of a PASS or FAIL market; prices are the market's YES price
+ * after each trade (18 decimals), volume is KLED traded
+ */
+export interface FutarchyCandle {
+  timestamp: number; // Bucket start (Unix seconds)
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+  trades: number;
+}
+
+export interface FutarchyCandles {
+  proposalId: string;
+  market: "pass" | "fail";
+  interval: CandleInterval;
+  candles: FutarchyCandle[];
+}
+
+/**
+ * getTWAP result of an AMM market at one timestamp (18 decimals)
+ */
+export interface AmmTwapPoint {
+  timestamp: number;
+  twapYes: string;
+  twapNo: string;
+  spotYes: string;
+  spotNo: string;
+}
+
+export interface AmmMarketTwap {
+  marketId: string;
+  isPass: boolean;
+  liquidity: string;
+  createdAt: number;
+  closedAt: number | null;
+  // MarketClosed prices as emitted by the contract
+  finalYesPrice: string | null;
+  finalNoPrice: string | null;
+  points: AmmTwapPoint[];
+}
+
+export interface FutarchyTwapSeries {
+  proposalId: string;
+  from: number;
+  to: number;
+  windowSeconds: number;
+  pass: AmmMarketTwap | null; // null until the market is indexed
+  fail: AmmMarketTwap | null;
+}
+
+/**
+ * An account's balance of one outcome token
+ *
+ * tokensBought, costBasis and avgEntryPrice come from the account's PnL
+ * replay of the outcome: costBasis is the cost of tokens still held and
+ * avgEntryPrice is KLED per token (18 decimals), null once nothing bought is
+ * held.
+ */
+export interface OutcomePosition {
+  proposalId: string;
+  isPass: boolean;
+  tokenId: string;
+  balance: string;
+  tokensBought: string;
+  costBasis: string;
+  avgEntryPrice: string | null;
+}
+
+export interface AccountPositions {
+  address: string;
+  positions: OutcomePosition[];
+  pagination: PaginatedResponse<OutcomePosition>["pagination"];
+}
+
+export interface OutcomeHolderListItem extends Omit<OutcomePosition, "proposalId"> {
+  address: string;
+}
+
+/**
+ * Average-cost PnL of one trader on one side of a futarchy proposal
+ *
+ * tokensHeld and costBasis are what remains of the traded position; tokens
+ * received by transfer carry no cost. PnL values are signed KLED amounts.
+ */
+export interface PnlPosition {
+  proposalId: string;
+  isPass: boolean;
+  tokensBought: string;
+  kledSpent: string;
+  tokensSold: string;
+  kledFromSales: string;
+  tokensRedeemed: string;
+  kledRedeemed: string;
+  tokensHeld: string;
+  costBasis: string;
+  avgEntryPrice: string | null; // null once nothing is held
+  markPrice: string; // Latest indexed price, zero for a losing outcome
+  realizedPnl: string;
+  unrealizedPnl: string;
+  totalPnl: string;
+}
+
+export interface PnlTotals {
+  realizedPnl: string;
+  unrealizedPnl: string;
+  totalPnl: string;
+}
+
+export interface AccountPnl extends PnlTotals {
+  address: string;
+  positions: PnlPosition[];
+}
+
+export interface PnlLeaderboardItem extends PnlTotals {
+  address: string;
+  positions: PnlPosition[]; // PASS and/or FAIL side of the proposal
+}
+
 export interface TreasuryStats {
   totalProposals: number;
   activeProposals: number;
@@ -485,37 +1019,316 @@ export interface TreasuryStats {
   totalTrades: number;
   proposalsPassed: number;
   proposalsFailed: number;
-  totalAllocated: string;
+  totalAllocated: string; // KLED moved by executed proposals
+  totalRedeemed: string;
+  testMode: boolean;
+}
+
+// =============================================================================
+// KLED Token API Response Types
+// =============================================================================
+
+export interface TokenHolderListItem {
+  address: string;
+  balance: string;
+  delegate: string | null;
+}
+
+/**
+ * An account's token state, either current or as of a past timestamp
+ */
+export interface TokenAccountSnapshot {
+  address: string;
+  timestamp: number | null; // null for the latest indexed state
+  balance: string;
+  delegate: string | null;
+  votingPower: string;
+}
+
+export interface TokenStats {
+  totalSupply: string;
+  holders: number;
+  totalMinted: string; // Sum of TokensMinted amounts
+  mintingLocked: boolean;
+  supplyAtLock: string | null;
+  lockedAt: string | null;
+}
+
+// =============================================================================
+// Delegate API Response Types
+// =============================================================================
+
+export type DelegateSortField = "votingPower" | "delegators" | "votesCast" | "participation";
+
+export interface DelegateListItem {
+  address: string;
+  votingPower: string;
+  delegatorCount: number;
+  votesCast: number; // Distinct proposals voted on
+  participationRate: number; // Percentage of eligible proposals voted on (0-100)
+}
+
+export interface VotingPowerCheckpointItem {
+  previousVotes: string;
+  newVotes: string;
+  txHash: string;
+  blockNumber: string;
+  timestamp: number;
+}
+
+export interface DelegatorItem {
+  address: string;
+  balance: string;
+  delegatedAt: number | null; // Unix timestamp of the latest DelegateChanged
+}
+
+export interface DelegateVoteItem extends Omit<VoteListItem, "voter"> {
+  proposalTitle: string;
+}
+
+export interface DelegateDetail extends DelegateListItem {
+  votingPowerHistory: VotingPowerCheckpointItem[];
+  delegators: DelegatorItem[];
+  votes: DelegateVoteItem[];
+}
+
+// =============================================================================
+// Account API Response Types
+// =============================================================================
+
+export interface AccountProposalItem extends ProposalListItem {
+  stakeAmount: string;
+  slashedAmount: string | null; // null unless StakeSlashed
+}
+
+export interface SuggestionVoteListItem {
+  suggestionId: string;
+  proposalId: string;
+  support: boolean;
+  weight: string;
+  txHash: string;
+  blockNumber: string;
+  createdAt: string;
+}
+
+export interface SuggestionVoteItem extends SuggestionVoteListItem {
+  voter: string;
+}
+
+export interface FutarchyRedemptionListItem {
+  proposalId: string;
+  tokensRedeemed: string;
+  kledReceived: string;
+  txHash: string;
+  blockNumber: string;
+  createdAt: string;
+}
+
+/**
+ * Everything indexed for one address, read from a single snapshot
+ */
+export interface AccountPortfolio {
+  address: string;
+  indexedBlock: string | null; // Checkpoint every section reflects
+  balance: string;
+  delegate: string | null;
+  votingPower: string;
+  proposals: AccountProposalItem[];
+  // Event lists and positions hold their first page; the account's list
+  // endpoints return the rest
+  votes: CursorPage<VoteListItem>;
+  suggestions: EditSuggestionListItem[];
+  suggestionVotes: CursorPage<SuggestionVoteItem>;
+  futarchyTrades: CursorPage<FutarchyTradeListItem>;
+  positions: PaginatedResponse<OutcomePosition>;
+  redemptions: CursorPage<FutarchyRedemptionListItem>;
+}
+
+// =============================================================================
+// Search Types
+// =============================================================================
+
+export const SEARCH_RESULT_TYPES = ["proposal", "suggestion", "vote", "futarchy"] as const;
+
+export type SearchResultType = (typeof SEARCH_RESULT_TYPES)[number];
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string; // Proposal, suggestion or futarchy proposal id; "txHash:logIndex" for a vote
+  proposalId: string;
+  title: string | null; // Governor proposal title (null for futarchy proposals)
+  snippet: string; // HTML-escaped text with matches wrapped in <mark>
+  rank: number;
+  blockNumber: string;
+  createdAt: string;
+}
+
+// =============================================================================
+// Export Types
+// =============================================================================
+
+export const EXPORT_DATASETS = [
+  "votes",
+  "suggestion-votes",
+  "trades",
+  "redemptions",
+  "slashes",
+] as const;
+
+export type ExportDataset = (typeof EXPORT_DATASETS)[number];
+
+export const EXPORT_FORMATS = ["csv", "ndjson"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportFilter {
+  proposalId?: string; // Governor proposal (futarchy proposal for trades and redemptions)
+  from?: number; // Unix timestamp, inclusive
+  to?: number; // Unix timestamp, inclusive
+  includeReorged?: boolean;
+}
+
+/** One exported event, keyed by column name */
+export type ExportRow = Record<string, string | number | boolean>;
+
+/**
+ * Last row of an export batch; the row id breaks ties between reorged and
+ * canonical rows at the same chain position
+ */
+export interface ExportCursor extends EventPosition {
+  id: number;
+}
+
+export interface ExportBatch {
+  rows: ExportRow[];
+  cursor: ExportCursor | undefined; // Undefined when the batch is empty
+}
+
+// =============================================================================
+// Stream Types
+// =============================================================================
+
+export type StreamEventType =
+  | "proposal"
+  | "vote"
+  | "trade"
+  | "price"
+  | "status"
+  | "slash"
+  | "reorg";
+
+export type StreamPayload = Record<string, string | number | boolean | null | string[]>;
+
+/**
+ * Normalized event pushed over /api/stream
+ *
+ * cursor increases monotonically; pass the last one seen to resume.
+ */
+export interface StreamEvent {
+  cursor: string;
+  type: StreamEventType;
+  source: string; // Emitting contract, or "Indexer" for derived events
+  proposalId: string | null;
+  addresses: string[]; // Lowercased
+  blockNumber: string; // Evaluation block of derived statuses, first orphaned block of reorgs
+  txHash: string | null; // null for derived status and reorg events
+  data: StreamPayload;
+}
+
+export interface StreamFilter {
+  proposalId?: string;
+  address?: string;
+}
+
+// =============================================================================
+// Webhook Types
+// =============================================================================
+
+export const WEBHOOK_EVENT_TYPES = [
+  "proposal.created",
+  "vote.cast",
+  "status.changed",
+  "futarchy.trade",
+  "futarchy.resolved",
+  "slash",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export interface WebhookSubscription {
+  id: number;
+  url: string;
+  eventTypes: WebhookEventType[]; // Empty matches every type
+  proposalId: string | null;
+  address: string | null;
+  createdAt: string;
+}
+
+/**
+ * A delivery that ran out of attempts
+ */
+export interface WebhookDeadLetter {
+  id: number;
+  deliveryId: string;
+  subscriptionId: number;
+  eventType: string;
+  attempts: number;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  failedAt: string;
+  redeliveredAt: string | null;
+}
+
+// =============================================================================
+// Governance Parameter Types
+// =============================================================================
+
+/**
+ * StreetGovernor parameters tracked from admin events
+ */
+export enum GovernanceParameter {
+  QuorumBps = "quorumBps",
+  ThresholdBps = "thresholdBps",
+  VotingDelay = "votingDelay", // Seconds
+  VotingPeriod = "votingPeriod", // Seconds
+  Paused = "paused",
+  Guardian = "guardian",
+  Treasury = "treasury",
+}
+
+export interface GovernanceParameterChange {
+  parameter: GovernanceParameter;
+  previousValue: string | null;
+  newValue: string;
+  updatedBy: string | null;
+  txHash: string;
+  blockNumber: string;
+  timestamp: number;
+}
+
+export interface GovernanceParameterValue {
+  value: string | null; // null if never emitted since deployment
+  updatedAt: number | null;
+  txHash: string | null;
+}
+
+export interface GovernanceParams {
+  current: Record<GovernanceParameter, GovernanceParameterValue>;
+  history: GovernanceParameterChange[]; // Newest first
 }
 
 // =============================================================================
-// Contract ABI Event Signatures (placeholder - waiting for SOL)
+// Contract ABI Event Signatures
 // =============================================================================
 
 /**
- * Event signatures for filtering logs
- * TODO: Replace with actual ABI from SOL team
+ * Event signatures for filtering logs, derived from the contract ABIs
  */
 export const EVENT_SIGNATURES = {
-  // StreetGovernor events
-  ProposalCreated:
-    "ProposalCreated(uint256,address,string,string,address[],uint256[],bytes[],uint256,uint256,uint256)",
-  VoteCast: "VoteCast(uint256,address,uint8,uint256,string)",
-  ProposalExecuted: "ProposalExecuted(uint256)",
-  ProposalCanceled: "ProposalCanceled(uint256)",
-  Slashed: "Slashed(uint256,address,uint256,uint256)",
-
-  // EditSuggestions events
-  EditSuggested:
-    "EditSuggested(uint256,uint256,address,bytes32,string,uint256,uint256,uint256)",
-  SuggestionVoted: "SuggestionVoted(uint256,address,bool,uint256)",
-
-  // FutarchyTreasury events
-  FutarchyProposalCreated:
-    "FutarchyProposalCreated(uint256,string,uint256,address,uint256)",
-  TradePlaced: "TradePlaced(uint256,address,bool,uint256,uint256,uint256)",
-  ProposalResolved: "ProposalResolved(uint256,bool,uint256,uint256)",
-  CollateralRedeemed: "CollateralRedeemed(uint256,address,uint256)",
+  streetGovernor: getEventSignatures(streetGovernorAbi),
+  editSuggestions: getEventSignatures(editSuggestionsAbi),
+  futarchyTreasury: getEventSignatures(futarchyTreasuryAbi),
+  kledToken: getEventSignatures(kledTokenAbi),
 } as const;
 
 /**
@@ -0,0 +1,336 @@
+/**
+ * Webhooks Module - Street Governance
+ *
+ * Signed outbound deliveries of indexed governance events:
+ * - Fans the stream_events log out to subscriptions after each committed
+ *   indexer batch, filtered by event type, proposal and address
+ * - POSTs each delivery with an HMAC-SHA256 signature
+ * - Retries failures with exponential backoff, then dead-letters them
+ * - Turns reorg retractions into compensating "retracted" deliveries
+ *
+ * Delivery is at-least-once; receivers should dedupe on the delivery id.
+ */
+
+import { createHmac } from "node:crypto";
+import {
+  advanceWebhookCursor,
+  enqueueWebhookDelivery,
+  getDueWebhookDeliveries,
+  getStreamEvents,
+  getWebhookCursors,
+  markWebhookDelivered,
+  markWebhookFailed,
+  retractWebhookDeliveries,
+  withTransaction,
+  type DueWebhookDelivery,
+  type WebhookCursor,
+} from "../db/index.js";
+import { onStreamCommit } from "../stream/index.js";
+import type { StreamEvent, WebhookEventType } from "../types/index.js";
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export interface WebhookConfig {
+  /** Attempts before a delivery is dead-lettered (default: 8) */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled on each further one (default: 10s) */
+  retryBaseMs?: number;
+  /** Longest delay between retries (default: 1h) */
+  retryMaxMs?: number;
+  /** How often due retries are checked (default: 5s) */
+  pollIntervalMs?: number;
+  /** Per-request timeout (default: 10s) */
+  timeoutMs?: number;
+}
+
+/** Stream events read per query while fanning out */
+const PAGE_SIZE = 500;
+
+/** Deliveries attempted per pass */
+const DELIVERY_BATCH = 50;
+
+/** Due deliveries of one subscription taken per pass, sent in order */
+const DELIVERIES_PER_SUBSCRIPTION = 10;
+
+/** Subscriptions delivered to at once, so a slow endpoint only holds up its own */
+const DELIVERY_CONCURRENCY = 10;
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+export const TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+
+interface WebhookState {
+  config: Required<WebhookConfig>;
+  stopListening: () => void;
+  timer: ReturnType<typeof setInterval>;
+  running: boolean;
+  pending: boolean;
+  idle: Promise<void>;
+}
+
+let webhookState: WebhookState | null = null;
+
+// =============================================================================
+// Event Mapping
+// =============================================================================
+
+/**
+ * Webhook event type of a stream event, if it is deliverable
+ */
+export function webhookEventType(event: StreamEvent): WebhookEventType | null {
+  switch (event.type) {
+    case "proposal":
+      return "proposal.created";
+    case "vote":
+      return "vote.cast";
+    case "trade":
+      return "futarchy.trade";
+    case "slash":
+      return "slash";
+    case "status":
+      return event.source === "FutarchyTreasury" && event.data.status === "resolved"
+        ? "futarchy.resolved"
+        : "status.changed";
+    default:
+      return null;
+  }
+}
+
+/**
+ * HMAC-SHA256 signature of a delivery: hex digest of "<timestamp>.<body>"
+ */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// =============================================================================
+// Lifecycle
+// =============================================================================
+
+/**
+ * Start fanning out and delivering webhooks
+ */
+export function startWebhooks(config: WebhookConfig = {}): void {
+  if (webhookState) {
+    throw new Error("Webhooks already started");
+  }
+
+  const resolved: Required<WebhookConfig> = {
+    maxAttempts: config.maxAttempts ?? 8,
+    retryBaseMs: config.retryBaseMs ?? 10_000,
+    retryMaxMs: config.retryMaxMs ?? 60 * 60 * 1000,
+    pollIntervalMs: config.pollIntervalMs ?? 5_000,
+    timeoutMs: config.timeoutMs ?? 10_000,
+  };
+
+  webhookState = {
+    config: resolved,
+    stopListening: onStreamCommit(() => void runWebhooks()),
+    timer: setInterval(() => void runWebhooks(), resolved.pollIntervalMs),
+    running: false,
+    pending: false,
+    idle: Promise.resolve(),
+  };
+  void runWebhooks();
+
+  console.log("[Webhooks] Started");
+}
+
+/**
+ * Stop the dispatcher, waiting for the pass in progress
+ */
+export async function stopWebhooks(): Promise<void> {
+  if (!webhookState) return;
+
+  const state = webhookState;
+  state.stopListening();
+  clearInterval(state.timer);
+  webhookState = null;
+  await state.idle;
+
+  console.log("[Webhooks] Stopped");
+}
+
+/**
+ * Fan out new events, then attempt due deliveries; passes never overlap
+ */
+async function runWebhooks(): Promise<void> {
+  const state = webhookState;
+  if (!state) return;
+  if (state.running) {
+    state.pending = true;
+    return;
+  }
+
+  state.running = true;
+  let done!: () => void;
+  state.idle = new Promise((resolve) => {
+    done = resolve;
+  });
+
+  try {
+    do {
+      state.pending = false;
+      for (const cursor of await getWebhookCursors()) {
+        await fanOut(cursor);
+      }
+      await deliverDue(state.config);
+    } while (state.pending && webhookState === state);
+  } catch (error) {
+    console.error("[Webhooks] Dispatch failed:", error);
+  } finally {
+    state.running = false;
+    done();
+  }
+}
+
+// =============================================================================
+// Fan-out
+// =============================================================================
+
+/**
+ * Queue deliveries for the events a subscription has not seen yet
+ *
+ * Each page is queued and the cursor advanced in one transaction.
+ */
+async function fanOut(cursor: WebhookCursor): Promise<void> {
+  let after = cursor.lastEventId;
+  let page: StreamEvent[];
+
+  do {
+    page = await getStreamEvents(after, cursor.filter, PAGE_SIZE);
+    if (page.length === 0) break;
+
+    await withTransaction(async () => {
+      for (const event of page) {
+        if (event.type === "reorg") {
+          const retracted = event.data.retracted;
+          if (Array.isArray(retracted) && retracted.length > 0) {
+            await retractWebhookDeliveries(
+              cursor.subscriptionId,
+              retracted,
+              String(event.data.fromBlock)
+            );
+          }
+          continue;
+        }
+
+        const eventType = webhookEventType(event);
+        if (
+          eventType === null ||
+          (cursor.eventTypes.length > 0 && !cursor.eventTypes.includes(eventType))
+        ) {
+          continue;
+        }
+        await enqueueWebhookDelivery({
+          subscriptionId: cursor.subscriptionId,
+          streamEventId: event.cursor,
+          eventType,
+          payload: { event },
+        });
+      }
+      after = page[page.length - 1]!.cursor;
+      await advanceWebhookCursor(cursor.subscriptionId, after);
+    });
+  } while (page.length === PAGE_SIZE);
+}
+
+// =============================================================================
+// Delivery
+// =============================================================================
+
+/**
+ * Attempt due deliveries until none are left
+ *
+ * Each subscription's deliveries are sent one after another, in order;
+ * up to DELIVERY_CONCURRENCY subscriptions are served at once. A failed
+ * delivery ends its subscription's group: the rest wait until it succeeds
+ * or is dead-lettered.
+ */
+async function deliverDue(config: Required<WebhookConfig>): Promise<void> {
+  let more: boolean;
+  do {
+    const due = await getDueWebhookDeliveries(DELIVERY_BATCH, DELIVERIES_PER_SUBSCRIPTION);
+    const bySubscription = new Map<string, DueWebhookDelivery[]>();
+    for (const delivery of due) {
+      const group = bySubscription.get(delivery.subscriptionId) ?? [];
+      group.push(delivery);
+      bySubscription.set(delivery.subscriptionId, group);
+    }
+
+    const queue = [...bySubscription.values()];
+    const workers = Array.from(
+      { length: Math.min(DELIVERY_CONCURRENCY, queue.length) },
+      async () => {
+        for (let group = queue.shift(); group; group = queue.shift()) {
+          for (const delivery of group) {
+            if (!(await deliver(delivery, config))) break;
+          }
+        }
+      }
+    );
+    // Let every worker finish before surfacing a failure, so no delivery
+    // outlives the pass
+    for (const result of await Promise.allSettled(workers)) {
+      if (result.status === "rejected") throw result.reason;
+    }
+
+    more =
+      due.length === DELIVERY_BATCH ||
+      [...bySubscription.values()].some((group) => group.length === DELIVERIES_PER_SUBSCRIPTION);
+  } while (more && webhookState !== null);
+}
+
+/**
+ * POST one delivery and record the outcome
+ *
+ * @returns Whether the delivery succeeded
+ */
+async function deliver(
+  delivery: DueWebhookDelivery,
+  config: Required<WebhookConfig>
+): Promise<boolean> {
+  const body = JSON.stringify({
+    id: delivery.id,
+    type: delivery.eventType,
+    createdAt: delivery.createdAt,
+    ...delivery.payload,
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let failure: { statusCode: number | null; error: string };
+  try {
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        [TIMESTAMP_HEADER]: timestamp.toString(),
+        [SIGNATURE_HEADER]: signWebhook(delivery.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(config.timeoutMs),
+    });
+    if (response.ok) {
+      await markWebhookDelivered(delivery.id, response.status);
+      return true;
+    }
+    failure = { statusCode: response.status, error: `HTTP ${response.status}` };
+  } catch (error) {
+    failure = { statusCode: null, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const attempts = delivery.attempts + 1;
+  const retryInMs =
+    attempts >= config.maxAttempts
+      ? null
+      : Math.min(config.retryBaseMs * 2 ** (attempts - 1), config.retryMaxMs);
+  await markWebhookFailed(delivery.id, failure, retryInMs);
+
+  if (retryInMs === null) {
+    console.warn(
+      `[Webhooks] Delivery ${delivery.id} dead-lettered after ${attempts} attempts: ${failure.error}`
+    );
+  }
+  return false;
+}
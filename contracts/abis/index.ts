@@ -120,6 +120,22 @@ export const kledTokenAbi = [
       { name: 'newVotes', type: 'uint256', indexed: false },
     ],
   },
+  {
+    type: 'event',
+    name: 'TokensMinted',
+    inputs: [
+      { name: 'to', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'MintingPermanentlyLocked',
+    inputs: [
+      { name: 'locker', type: 'address', indexed: true },
+      { name: 'totalSupplyAtLock', type: 'uint256', indexed: false },
+    ],
+  },
 ] as const;
 
 // ============ StreetGovernor ABI ============
@@ -347,6 +363,64 @@ export const streetGovernorAbi = [
       { name: 'returnedAmount', type: 'uint256', indexed: false },
     ],
   },
+  {
+    type: 'event',
+    name: 'GuardianUpdated',
+    inputs: [
+      { name: 'previousGuardian', type: 'address', indexed: true },
+      { name: 'newGuardian', type: 'address', indexed: true },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'TreasuryUpdated',
+    inputs: [
+      { name: 'previousTreasury', type: 'address', indexed: true },
+      { name: 'newTreasury', type: 'address', indexed: true },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'VotingDelayUpdated',
+    inputs: [
+      { name: 'previousDelay', type: 'uint256', indexed: false },
+      { name: 'newDelay', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'VotingPeriodUpdated',
+    inputs: [
+      { name: 'previousPeriod', type: 'uint256', indexed: false },
+      { name: 'newPeriod', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'QuorumUpdated',
+    inputs: [
+      { name: 'previousQuorum', type: 'uint256', indexed: false },
+      { name: 'newQuorum', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'ThresholdUpdated',
+    inputs: [
+      { name: 'previousThreshold', type: 'uint256', indexed: false },
+      { name: 'newThreshold', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'Paused',
+    inputs: [{ name: 'by', type: 'address', indexed: true }],
+  },
+  {
+    type: 'event',
+    name: 'Unpaused',
+    inputs: [{ name: 'by', type: 'address', indexed: true }],
+  },
 ] as const;
 
 // ============ EditSuggestions ABI ============
@@ -694,45 +768,114 @@ export const futarchyTreasuryAbi = [
   // Events
   {
     type: 'event',
-    name: 'TreasuryProposalCreated',
+    name: 'FutarchyProposalCreated',
     inputs: [
       { name: 'proposalId', type: 'uint256', indexed: true },
       { name: 'proposer', type: 'address', indexed: true },
-      { name: 'title', type: 'string', indexed: false },
-      { name: 'amount', type: 'uint256', indexed: false },
-      { name: 'recipient', type: 'address', indexed: false },
-      { name: 'marketId', type: 'bytes32', indexed: false },
-      { name: 'marketEndTime', type: 'uint256', indexed: false },
+      { name: 'target', type: 'address', indexed: false },
+      { name: 'requestedAmount', type: 'uint256', indexed: false },
+      { name: 'descriptionHash', type: 'bytes32', indexed: false },
+      { name: 'passMarketId', type: 'uint256', indexed: false },
+      { name: 'failMarketId', type: 'uint256', indexed: false },
+      { name: 'tradingEnd', type: 'uint48', indexed: false },
+      { name: 'resolutionTime', type: 'uint48', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'OutcomePurchased',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', indexed: true },
+      { name: 'buyer', type: 'address', indexed: true },
+      { name: 'isPass', type: 'bool', indexed: false },
+      { name: 'kledSpent', type: 'uint256', indexed: false },
+      { name: 'tokensReceived', type: 'uint256', indexed: false },
+      { name: 'newPrice', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'OutcomeSold',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', indexed: true },
+      { name: 'seller', type: 'address', indexed: true },
+      { name: 'isPass', type: 'bool', indexed: false },
+      { name: 'tokensSold', type: 'uint256', indexed: false },
+      { name: 'kledReceived', type: 'uint256', indexed: false },
+      { name: 'newPrice', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'TradingClosed',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', indexed: true },
+      { name: 'passPrice', type: 'uint256', indexed: false },
+      { name: 'failPrice', type: 'uint256', indexed: false },
     ],
   },
   {
     type: 'event',
-    name: 'TreasuryProposalResolved',
+    name: 'MarketResolved',
     inputs: [
       { name: 'proposalId', type: 'uint256', indexed: true },
-      { name: 'passed', type: 'bool', indexed: false },
-      { name: 'passMarketPrice', type: 'uint256', indexed: false },
-      { name: 'failMarketPrice', type: 'uint256', indexed: false },
+      { name: 'passWins', type: 'bool', indexed: false },
+      { name: 'finalPassPrice', type: 'uint256', indexed: false },
+      { name: 'finalFailPrice', type: 'uint256', indexed: false },
     ],
   },
   {
     type: 'event',
-    name: 'TreasuryProposalExecuted',
+    name: 'ProposalExecuted',
     inputs: [
       { name: 'proposalId', type: 'uint256', indexed: true },
-      { name: 'recipient', type: 'address', indexed: false },
+      { name: 'target', type: 'address', indexed: false },
       { name: 'amount', type: 'uint256', indexed: false },
     ],
   },
   {
     type: 'event',
-    name: 'TreasuryDeposit',
+    name: 'ProposalRejected',
+    inputs: [{ name: 'proposalId', type: 'uint256', indexed: true }],
+  },
+  {
+    type: 'event',
+    name: 'ProposalCanceled',
+    inputs: [{ name: 'proposalId', type: 'uint256', indexed: true }],
+  },
+  {
+    type: 'event',
+    name: 'WinningsRedeemed',
     inputs: [
-      { name: 'depositor', type: 'address', indexed: true },
-      { name: 'token', type: 'address', indexed: true },
+      { name: 'proposalId', type: 'uint256', indexed: true },
+      { name: 'redeemer', type: 'address', indexed: true },
+      { name: 'tokensRedeemed', type: 'uint256', indexed: false },
+      { name: 'kledReceived', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'StakeReturned',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', indexed: true },
+      { name: 'proposer', type: 'address', indexed: true },
       { name: 'amount', type: 'uint256', indexed: false },
     ],
   },
+  {
+    type: 'event',
+    name: 'TestModeEnabled',
+    inputs: [{ name: 'enabled', type: 'bool', indexed: false }],
+  },
+  {
+    type: 'event',
+    name: 'EmergencyResolution',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', indexed: true },
+      { name: 'passWins', type: 'bool', indexed: false },
+      { name: 'guardian', type: 'address', indexed: false },
+    ],
+  },
 ] as const;
 
 // ============ FutarchyAMM ABI ============
@@ -740,19 +883,33 @@ export const futarchyAmmAbi = [
   // Constants
   {
     type: 'function',
-    name: 'SCALE',
+    name: 'PRECISION',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'MIN_TWAP_WINDOW',
     inputs: [],
     outputs: [{ name: '', type: 'uint256' }],
     stateMutability: 'view',
   },
   {
     type: 'function',
-    name: 'FEE_DENOMINATOR',
+    name: 'DEFAULT_TWAP_WINDOW',
     inputs: [],
     outputs: [{ name: '', type: 'uint256' }],
     stateMutability: 'view',
   },
   // Read functions
+  {
+    type: 'function',
+    name: 'treasury',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+  },
   {
     type: 'function',
     name: 'marketCount',
@@ -764,81 +921,89 @@ export const futarchyAmmAbi = [
     type: 'function',
     name: 'getPrice',
     inputs: [
-      { name: 'marketId', type: 'bytes32' },
-      { name: 'outcomeIndex', type: 'uint256' },
+      { name: 'marketId', type: 'uint256' },
+      { name: 'isYes', type: 'bool' },
     ],
     outputs: [{ name: '', type: 'uint256' }],
     stateMutability: 'view',
   },
   {
     type: 'function',
-    name: 'calcBuyAmount',
+    name: 'getCost',
     inputs: [
-      { name: 'marketId', type: 'bytes32' },
-      { name: 'outcomeIndex', type: 'uint256' },
-      { name: 'investmentAmount', type: 'uint256' },
+      { name: 'marketId', type: 'uint256' },
+      { name: 'isYes', type: 'bool' },
+      { name: 'amount', type: 'uint256' },
     ],
     outputs: [{ name: '', type: 'uint256' }],
     stateMutability: 'view',
   },
   {
     type: 'function',
-    name: 'calcSellReturn',
+    name: 'getReturn',
     inputs: [
-      { name: 'marketId', type: 'bytes32' },
-      { name: 'outcomeIndex', type: 'uint256' },
-      { name: 'tokenAmount', type: 'uint256' },
+      { name: 'marketId', type: 'uint256' },
+      { name: 'isYes', type: 'bool' },
+      { name: 'amount', type: 'uint256' },
     ],
     outputs: [{ name: '', type: 'uint256' }],
     stateMutability: 'view',
   },
   {
     type: 'function',
-    name: 'getMarketInfo',
-    inputs: [{ name: 'marketId', type: 'bytes32' }],
+    name: 'getMarket',
+    inputs: [{ name: 'marketId', type: 'uint256' }],
     outputs: [
-      { name: 'conditionId', type: 'bytes32' },
-      { name: 'collateralToken', type: 'address' },
-      { name: 'funding', type: 'uint256' },
-      { name: 'yesTokens', type: 'uint256' },
-      { name: 'noTokens', type: 'uint256' },
-      { name: 'endTime', type: 'uint256' },
-      { name: 'fee', type: 'uint256' },
-      { name: 'resolved', type: 'bool' },
-      { name: 'winningOutcome', type: 'uint256' },
+      { name: 'proposalId', type: 'uint256' },
+      { name: 'isPass', type: 'bool' },
+      { name: 'b', type: 'uint256' },
+      { name: 'qYes', type: 'int256' },
+      { name: 'qNo', type: 'int256' },
+      { name: 'totalCollateral', type: 'uint256' },
+      { name: 'active', type: 'bool' },
     ],
     stateMutability: 'view',
   },
   {
     type: 'function',
-    name: 'accumulatedFees',
-    inputs: [{ name: 'marketId', type: 'bytes32' }],
+    name: 'getTWAP',
+    inputs: [
+      { name: 'marketId', type: 'uint256' },
+      { name: 'windowSeconds', type: 'uint256' },
+    ],
+    outputs: [
+      { name: 'twapYes', type: 'uint256' },
+      { name: 'twapNo', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'priceCumulativeYes',
+    inputs: [{ name: 'marketId', type: 'uint256' }],
     outputs: [{ name: '', type: 'uint256' }],
     stateMutability: 'view',
   },
-  // Write functions
   {
     type: 'function',
-    name: 'buy',
-    inputs: [
-      { name: 'marketId', type: 'bytes32' },
-      { name: 'outcomeIndex', type: 'uint256' },
-      { name: 'amount', type: 'uint256' },
-      { name: 'minOutcomeTokens', type: 'uint256' },
-    ],
-    outputs: [{ name: 'outcomeTokensBought', type: 'uint256' }],
-    stateMutability: 'nonpayable',
+    name: 'priceCumulativeNo',
+    inputs: [{ name: 'marketId', type: 'uint256' }],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
   },
   {
     type: 'function',
-    name: 'sell',
-    inputs: [
-      { name: 'marketId', type: 'bytes32' },
-      { name: 'outcomeIndex', type: 'uint256' },
-      { name: 'tokenAmount', type: 'uint256' },
-      { name: 'minReturn', type: 'uint256' },
-    ],
-    outputs: [{ name: 'returnAmount', type: 'uint256' }],
+    name: 'twapLastUpdate',
+    inputs: [{ name: 'marketId', type: 'uint256' }],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  // Write functions
+  {
+    type: 'function',
+    name: 'pokeTWAP',
+    inputs: [{ name: 'marketId', type: 'uint256' }],
+    outputs: [],
     stateMutability: 'nonpayable',
   },
   // Events
@@ -846,50 +1011,86 @@ export const futarchyAmmAbi = [
     type: 'event',
     name: 'MarketCreated',
     inputs: [
-      { name: 'marketId', type: 'bytes32', indexed: true },
-      { name: 'conditionId', type: 'bytes32', indexed: true },
-      { name: 'creator', type: 'address', indexed: true },
-      { name: 'funding', type: 'uint256', indexed: false },
-      { name: 'endTime', type: 'uint256', indexed: false },
+      { name: 'marketId', type: 'uint256', indexed: true },
+      { name: 'proposalId', type: 'uint256', indexed: false },
+      { name: 'isPass', type: 'bool', indexed: false },
+      { name: 'liquidity', type: 'uint256', indexed: false },
     ],
   },
   {
     type: 'event',
-    name: 'Buy',
+    name: 'TokensBought',
     inputs: [
-      { name: 'marketId', type: 'bytes32', indexed: true },
-      { name: 'buyer', type: 'address', indexed: true },
-      { name: 'outcomeIndex', type: 'uint256', indexed: false },
-      { name: 'investmentAmount', type: 'uint256', indexed: false },
-      { name: 'outcomeTokensBought', type: 'uint256', indexed: false },
+      { name: 'marketId', type: 'uint256', indexed: true },
+      { name: 'isYes', type: 'bool', indexed: false },
+      { name: 'cost', type: 'uint256', indexed: false },
+      { name: 'tokens', type: 'uint256', indexed: false },
     ],
   },
   {
     type: 'event',
-    name: 'Sell',
+    name: 'TokensSold',
     inputs: [
-      { name: 'marketId', type: 'bytes32', indexed: true },
-      { name: 'seller', type: 'address', indexed: true },
-      { name: 'outcomeIndex', type: 'uint256', indexed: false },
-      { name: 'returnAmount', type: 'uint256', indexed: false },
-      { name: 'outcomeTokensSold', type: 'uint256', indexed: false },
+      { name: 'marketId', type: 'uint256', indexed: true },
+      { name: 'isYes', type: 'bool', indexed: false },
+      { name: 'tokens', type: 'uint256', indexed: false },
+      { name: 'returned', type: 'uint256', indexed: false },
     ],
   },
   {
     type: 'event',
-    name: 'MarketResolved',
+    name: 'MarketClosed',
     inputs: [
-      { name: 'marketId', type: 'bytes32', indexed: true },
-      { name: 'winningOutcome', type: 'uint256', indexed: false },
-      { name: 'yesPrice', type: 'uint256', indexed: false },
-      { name: 'noPrice', type: 'uint256', indexed: false },
+      { name: 'marketId', type: 'uint256', indexed: true },
+      { name: 'finalYesPrice', type: 'uint256', indexed: false },
+      { name: 'finalNoPrice', type: 'uint256', indexed: false },
     ],
   },
+  {
+    type: 'event',
+    name: 'TreasurySet',
+    inputs: [{ name: 'treasury', type: 'address', indexed: true }],
+  },
 ] as const;
 
 // ============ ConditionalTokens ABI ============
 export const conditionalTokensAbi = [
   // Read functions
+  {
+    type: 'function',
+    name: 'treasury',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getTokenId',
+    inputs: [
+      { name: 'proposalId', type: 'uint256' },
+      { name: 'isPass', type: 'bool' },
+    ],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'pure',
+  },
+  {
+    type: 'function',
+    name: 'getPassTokenId',
+    inputs: [
+      { name: 'proposalId', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'pure',
+  },
+  {
+    type: 'function',
+    name: 'getFailTokenId',
+    inputs: [
+      { name: 'proposalId', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'pure',
+  },
   {
     type: 'function',
     name: 'balanceOf',
@@ -902,49 +1103,71 @@ export const conditionalTokensAbi = [
   },
   {
     type: 'function',
-    name: 'getConditionId',
+    name: 'balanceOfBatch',
     inputs: [
-      { name: 'oracle', type: 'address' },
-      { name: 'questionId', type: 'bytes32' },
-      { name: 'outcomeSlotCount', type: 'uint256' },
+      { name: 'accounts', type: 'address[]' },
+      { name: 'ids', type: 'uint256[]' },
     ],
-    outputs: [{ name: '', type: 'bytes32' }],
-    stateMutability: 'pure',
+    outputs: [{ name: '', type: 'uint256[]' }],
+    stateMutability: 'view',
   },
   {
     type: 'function',
-    name: 'getCollectionId',
+    name: 'balanceOfOutcome',
     inputs: [
-      { name: 'conditionId', type: 'bytes32' },
-      { name: 'indexSet', type: 'uint256' },
+      { name: 'account', type: 'address' },
+      { name: 'proposalId', type: 'uint256' },
+      { name: 'isPass', type: 'bool' },
     ],
-    outputs: [{ name: '', type: 'bytes32' }],
-    stateMutability: 'pure',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
   },
   {
     type: 'function',
-    name: 'getPositionId',
+    name: 'totalSupplyOfOutcome',
     inputs: [
-      { name: 'collateralToken', type: 'address' },
-      { name: 'collectionId', type: 'bytes32' },
+      { name: 'proposalId', type: 'uint256' },
+      { name: 'isPass', type: 'bool' },
     ],
     outputs: [{ name: '', type: 'uint256' }],
-    stateMutability: 'pure',
+    stateMutability: 'view',
   },
   {
     type: 'function',
-    name: 'isConditionResolved',
-    inputs: [{ name: 'conditionId', type: 'bytes32' }],
-    outputs: [{ name: '', type: 'bool' }],
+    name: 'totalSupply',
+    inputs: [
+      { name: 'tokenId', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'totalMinted',
+    inputs: [
+      { name: '', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'uint256' }],
     stateMutability: 'view',
   },
   {
     type: 'function',
-    name: 'getOutcomeSlotCount',
-    inputs: [{ name: 'conditionId', type: 'bytes32' }],
+    name: 'totalRedeemed',
+    inputs: [
+      { name: '', type: 'uint256' },
+    ],
     outputs: [{ name: '', type: 'uint256' }],
     stateMutability: 'view',
   },
+  {
+    type: 'function',
+    name: 'exists',
+    inputs: [
+      { name: 'tokenId', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'view',
+  },
   {
     type: 'function',
     name: 'isApprovedForAll',
@@ -955,6 +1178,15 @@ export const conditionalTokensAbi = [
     outputs: [{ name: '', type: 'bool' }],
     stateMutability: 'view',
   },
+  {
+    type: 'function',
+    name: 'uri',
+    inputs: [
+      { name: '', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'string' }],
+    stateMutability: 'view',
+  },
   // Write functions
   {
     type: 'function',
@@ -968,88 +1200,95 @@ export const conditionalTokensAbi = [
   },
   {
     type: 'function',
-    name: 'splitPosition',
+    name: 'safeTransferFrom',
     inputs: [
-      { name: 'collateralToken', type: 'address' },
-      { name: 'conditionId', type: 'bytes32' },
-      { name: 'amount', type: 'uint256' },
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'id', type: 'uint256' },
+      { name: 'value', type: 'uint256' },
+      { name: 'data', type: 'bytes' },
     ],
     outputs: [],
     stateMutability: 'nonpayable',
   },
   {
     type: 'function',
-    name: 'mergePositions',
+    name: 'safeBatchTransferFrom',
     inputs: [
-      { name: 'collateralToken', type: 'address' },
-      { name: 'conditionId', type: 'bytes32' },
-      { name: 'amount', type: 'uint256' },
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'ids', type: 'uint256[]' },
+      { name: 'values', type: 'uint256[]' },
+      { name: 'data', type: 'bytes' },
     ],
     outputs: [],
     stateMutability: 'nonpayable',
   },
+  // Events
   {
-    type: 'function',
-    name: 'redeemPositions',
+    type: 'event',
+    name: 'OutcomeTokensMinted',
     inputs: [
-      { name: 'collateralToken', type: 'address' },
-      { name: 'conditionId', type: 'bytes32' },
-      { name: 'indexSets', type: 'uint256[]' },
+      { name: 'proposalId', type: 'uint256', indexed: true },
+      { name: 'to', type: 'address', indexed: true },
+      { name: 'isPass', type: 'bool', indexed: false },
+      { name: 'amount', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'OutcomeTokensBurned',
+    inputs: [
+      { name: 'proposalId', type: 'uint256', indexed: true },
+      { name: 'from', type: 'address', indexed: true },
+      { name: 'isPass', type: 'bool', indexed: false },
+      { name: 'amount', type: 'uint256', indexed: false },
     ],
-    outputs: [],
-    stateMutability: 'nonpayable',
   },
-  // Events
   {
     type: 'event',
-    name: 'ConditionPreparation',
+    name: 'TreasurySet',
     inputs: [
-      { name: 'conditionId', type: 'bytes32', indexed: true },
-      { name: 'oracle', type: 'address', indexed: true },
-      { name: 'questionId', type: 'bytes32', indexed: true },
-      { name: 'outcomeSlotCount', type: 'uint256', indexed: false },
+      { name: 'treasury', type: 'address', indexed: true },
     ],
   },
   {
     type: 'event',
-    name: 'ConditionResolution',
+    name: 'TransferSingle',
     inputs: [
-      { name: 'conditionId', type: 'bytes32', indexed: true },
-      { name: 'oracle', type: 'address', indexed: true },
-      { name: 'questionId', type: 'bytes32', indexed: true },
-      { name: 'outcomeSlotCount', type: 'uint256', indexed: false },
-      { name: 'payoutNumerators', type: 'uint256[]', indexed: false },
+      { name: 'operator', type: 'address', indexed: true },
+      { name: 'from', type: 'address', indexed: true },
+      { name: 'to', type: 'address', indexed: true },
+      { name: 'id', type: 'uint256', indexed: false },
+      { name: 'value', type: 'uint256', indexed: false },
     ],
   },
   {
     type: 'event',
-    name: 'PositionSplit',
+    name: 'TransferBatch',
     inputs: [
-      { name: 'stakeholder', type: 'address', indexed: true },
-      { name: 'collateralToken', type: 'address', indexed: true },
-      { name: 'conditionId', type: 'bytes32', indexed: true },
-      { name: 'amount', type: 'uint256', indexed: false },
+      { name: 'operator', type: 'address', indexed: true },
+      { name: 'from', type: 'address', indexed: true },
+      { name: 'to', type: 'address', indexed: true },
+      { name: 'ids', type: 'uint256[]', indexed: false },
+      { name: 'values', type: 'uint256[]', indexed: false },
     ],
   },
   {
     type: 'event',
-    name: 'PositionsMerge',
+    name: 'ApprovalForAll',
     inputs: [
-      { name: 'stakeholder', type: 'address', indexed: true },
-      { name: 'collateralToken', type: 'address', indexed: true },
-      { name: 'conditionId', type: 'bytes32', indexed: true },
-      { name: 'amount', type: 'uint256', indexed: false },
+      { name: 'account', type: 'address', indexed: true },
+      { name: 'operator', type: 'address', indexed: true },
+      { name: 'approved', type: 'bool', indexed: false },
     ],
   },
   {
     type: 'event',
-    name: 'PayoutRedemption',
+    name: 'URI',
     inputs: [
-      { name: 'redeemer', type: 'address', indexed: true },
-      { name: 'collateralToken', type: 'address', indexed: true },
-      { name: 'conditionId', type: 'bytes32', indexed: true },
-      { name: 'indexSets', type: 'uint256[]', indexed: false },
-      { name: 'payout', type: 'uint256', indexed: false },
+      { name: 'value', type: 'string', indexed: false },
+      { name: 'id', type: 'uint256', indexed: true },
     ],
   },
 ] as const;